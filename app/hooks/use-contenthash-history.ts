@@ -0,0 +1,73 @@
+/**
+ * useContenthashHistory Hook
+ *
+ * Loads the on-chain contenthash history of the registry's ENS name.
+ */
+
+import { useEffect, useState, useCallback } from "react";
+import type { ContenthashHistoryEntry } from "~/lib/ens-history";
+import { fetchContenthashHistory } from "~/lib/ens-history";
+import { getConfiguredEnsName } from "~/lib/ens";
+
+/**
+ * History loading state.
+ */
+export type ContenthashHistoryState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "loaded"; entries: ContenthashHistoryEntry[] };
+
+/**
+ * Result of the useContenthashHistory hook.
+ */
+export interface UseContenthashHistoryResult {
+  /** Current state of the history */
+  state: ContenthashHistoryState;
+  /** Reload the history */
+  refresh: () => Promise<void>;
+  /** The ENS name being used */
+  ensName: string | null;
+}
+
+/**
+ * Hook to fetch the contenthash history of an ENS name.
+ *
+ * @param ensNameOverride - Optional ENS name override (uses env var if not provided)
+ */
+export function useContenthashHistory(ensNameOverride?: string): UseContenthashHistoryResult {
+  const ensName = ensNameOverride ?? getConfiguredEnsName();
+  const [state, setState] = useState<ContenthashHistoryState>({ status: "loading" });
+
+  const fetchHistory = useCallback(async () => {
+    if (!ensName) {
+      setState({
+        status: "error",
+        error: "No ENS name configured. Set VITE_LICENSE_ENS_NAME environment variable.",
+      });
+      return;
+    }
+
+    setState({ status: "loading" });
+
+    try {
+      const entries = await fetchContenthashHistory(ensName);
+      setState({ status: "loaded", entries });
+    } catch (error) {
+      console.error("Failed to fetch contenthash history:", error);
+      setState({
+        status: "error",
+        error: error instanceof Error ? error.message : "Failed to fetch contenthash history",
+      });
+    }
+  }, [ensName]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    state,
+    refresh: fetchHistory,
+    ensName,
+  };
+}
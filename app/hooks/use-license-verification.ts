@@ -0,0 +1,87 @@
+/**
+ * useLicenseVerification Hook
+ *
+ * Checks every license text of every entry against its recorded SHA-256 in
+ * the background, one file at a time, so the registry can be browsed while the
+ * texts are fetched.
+ */
+
+import { useEffect, useState } from "react";
+import type { LicenseEntry, LicenseTextVerification } from "~/types/license-registry";
+import type { DirectoryReader } from "~/lib/storage";
+import { getLicenseTexts } from "~/lib/license-text";
+import { verifyLicenseText } from "~/lib/verifier";
+
+/**
+ * Counts of license texts per status.
+ */
+export interface LicenseVerificationSummary {
+  total: number;
+  verified: number;
+  mismatch: number;
+  noncanonical: number;
+  unavailable: number;
+  pending: number;
+}
+
+/**
+ * Result of the useLicenseVerification hook.
+ */
+export interface UseLicenseVerificationResult {
+  /** Verification result per license text, keyed by text path */
+  results: Map<string, LicenseTextVerification>;
+  /** Aggregate counts across all texts of all entries */
+  summary: LicenseVerificationSummary;
+}
+
+const PENDING: LicenseTextVerification = { status: "pending" };
+
+/**
+ * Hook to verify the license texts of every entry.
+ *
+ * @param directory - Reader for the registry directory (null while loading)
+ * @param entries - Entries whose texts to verify
+ */
+export function useLicenseVerification(
+  directory: DirectoryReader | null,
+  entries: LicenseEntry[]
+): UseLicenseVerificationResult {
+  const [results, setResults] = useState<Map<string, LicenseTextVerification>>(new Map());
+
+  useEffect(() => {
+    setResults(new Map());
+    if (!directory || entries.length === 0) return;
+
+    let cancelled = false;
+
+    (async () => {
+      for (const license of entries.flatMap(entry => getLicenseTexts(entry.license))) {
+        const result = await verifyLicenseText(directory, license);
+        if (cancelled) return;
+        setResults(prev => new Map(prev).set(license.text_path, result));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [directory, entries]);
+
+  const paths = entries.flatMap(entry => getLicenseTexts(entry.license).map(license => license.text_path));
+  const summary: LicenseVerificationSummary = {
+    total: paths.length,
+    verified: 0,
+    mismatch: 0,
+    noncanonical: 0,
+    unavailable: 0,
+    pending: 0,
+  };
+  for (const path of paths) {
+    summary[(results.get(path) ?? PENDING).status]++;
+  }
+
+  return {
+    results,
+    summary,
+  };
+}
@@ -2,96 +2,23 @@
  * useRegistry Hook
  * 
  * Fetches and manages the license registry state.
- * Resolves ENS name → contenthash → registry.json (which contains all entries inline)
+ * Resolves ENS name → contenthash (on-chain) → registry.json (which contains all entries inline)
+ * IPFS content is fetched as blocks and verified against the CID, so neither
+ * the ENS lookup nor the content depends on trusting a gateway.
  */
 
 import { useEffect, useState, useCallback } from "react";
 import type {
-  RegistryManifest,
   LicenseEntry,
   ContentReference,
+  RegistryProvenance,
   RegistryState,
 } from "~/types/license-registry";
-import { getIpfsGateway } from "~/lib/storage";
-import { getConfiguredEnsName } from "~/lib/ens";
-
-/**
- * Resolve ENS name via .limo gateway.
- * The .limo gateway handles ENS → IPFS resolution for us.
- */
-function getEnsGatewayUrl(ensName: string): string {
-  return `https://${ensName}.limo`;
-}
-
-/**
- * Fetch JSON from ENS gateway with CORS handling.
- */
-async function fetchFromEnsGateway<T>(ensName: string, path: string): Promise<T> {
-  const baseUrl = getEnsGatewayUrl(ensName);
-  const url = `${baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
-  
-  try {
-    const response = await fetch(url, {
-      mode: 'cors',
-      credentials: 'omit',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error(
-          `CORS blocked by ENS gateway. Set VITE_REGISTRY_CID to use direct IPFS access.`
-        );
-      }
-      throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
-    }
-    return response.json();
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error(
-        `Network error fetching from ENS gateway. Set VITE_REGISTRY_CID for direct IPFS access.`
-      );
-    }
-    throw error;
-  }
-}
-
-/**
- * Fetch text from ENS gateway with CORS handling.
- */
-export async function fetchTextFromEnsGateway(ensName: string, path: string): Promise<string> {
-  const baseUrl = getEnsGatewayUrl(ensName);
-  const url = `${baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
-  
-  try {
-    const response = await fetch(url, {
-      mode: 'cors',
-      credentials: 'omit',
-      headers: {
-        'Accept': 'text/plain, text/markdown, */*',
-      },
-    });
-    
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error(
-          `CORS blocked by ENS gateway. Set VITE_REGISTRY_CID to use direct IPFS access.`
-        );
-      }
-      throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
-    }
-    return response.text();
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error(
-        `Network error fetching from ENS gateway. Set VITE_REGISTRY_CID for direct IPFS access.`
-      );
-    }
-    throw error;
-  }
-}
+import type { DirectoryReader } from "~/lib/storage";
+import { openDirectory, parseContentUri, VerifiedDirectory } from "~/lib/storage";
+import { verifyEntryChain } from "~/lib/entry-chain";
+import { isHashLinkedSchema, normalizeRegistry, RegistrySchemaError } from "~/lib/registry-schema";
+import { decodeContenthash, getConfiguredEnsName, resolveEnsContenthash } from "~/lib/ens";
 
 /**
  * Result of the useRegistry hook.
@@ -107,6 +34,8 @@ export interface UseRegistryResult {
   ensName: string | null;
   /** The content reference (if resolved) */
   contentRef: ContentReference | null;
+  /** Reader for files in the registry directory (verified for IPFS) */
+  directory: DirectoryReader | null;
 }
 
 /**
@@ -123,6 +52,7 @@ export function useRegistry(
   const [state, setState] = useState<RegistryState>({ status: "loading" });
   const [entryChain, setEntryChain] = useState<LicenseEntry[]>([]);
   const [contentRef, setContentRef] = useState<ContentReference | null>(contentRefOverride ?? null);
+  const [directory, setDirectory] = useState<DirectoryReader | null>(null);
 
   const fetchRegistry = useCallback(async () => {
     // If no ENS name and no content ref, show not found
@@ -137,54 +67,73 @@ export function useRegistry(
     setState({ status: "loading" });
 
     try {
-      let manifest: RegistryManifest;
+      let provenance: Pick<RegistryProvenance, "mode" | "ensName" | "contenthash" | "contentRef">;
       
       // Check if we have a direct CID override (useful for development/testing)
       const directCid = import.meta.env.VITE_REGISTRY_CID;
       const useDirectCid = directCid && contentRefOverride === undefined;
       
       if (useDirectCid) {
-        // Use direct IPFS gateway with the provided CID
-        const ref: ContentReference = { protocol: "ipfs", hash: directCid };
-        setContentRef(ref);
-        
-        const ipfs = getIpfsGateway();
-        manifest = await ipfs.fetchFromDir<RegistryManifest>(ref.hash, "/registry.json");
+        // Accepts a bare IPFS CID or a content URI such as "bzz://<reference>"
+        const ref: ContentReference = parseContentUri(directCid) ?? { protocol: "ipfs", hash: directCid };
+        provenance = { mode: "direct", contentRef: ref };
       } else if (contentRefOverride) {
-        // Use provided content reference with IPFS gateway
-        setContentRef(contentRefOverride);
-        
-        const ipfs = getIpfsGateway();
-        manifest = await ipfs.fetchFromDir<RegistryManifest>(contentRefOverride.hash, "/registry.json");
+        provenance = { mode: "override", contentRef: contentRefOverride };
       } else if (ensName) {
-        // Use ENS gateway (.limo) to resolve and fetch
-        setContentRef({ protocol: "ens", hash: ensName });
-        manifest = await fetchFromEnsGateway<RegistryManifest>(ensName, "/registry.json");
+        // Read the DAO-controlled contenthash on-chain
+        const contenthash = await resolveEnsContenthash(ensName);
+        if (!contenthash) {
+          setState({ status: "not_found", ensName });
+          return;
+        }
+        const ref = decodeContenthash(contenthash);
+        if (!ref) {
+          throw new Error(`Unsupported contenthash for ${ensName}: ${contenthash}`);
+        }
+        provenance = { mode: "ens", ensName, contenthash, contentRef: ref };
       } else {
         setState({ status: "not_found", ensName: "unknown" });
         return;
       }
 
-      // Validate schema
-      if (manifest.schema !== "commonground-license-registry/v1") {
-        throw new Error(`Unknown registry schema: ${manifest.schema}`);
-      }
+      setContentRef(provenance.contentRef);
 
-      // Entries are now inline in the manifest
-      if (!manifest.entries || manifest.entries.length === 0) {
-        throw new Error("Registry has no entries");
-      }
+      // IPFS directories are read from verified blocks only
+      const source = openDirectory(provenance.contentRef);
+      const raw = await source.readJson<unknown>("/registry.json");
+      setDirectory(source);
+
+      // Validate against the published schema and upgrade to the latest one
+      const { manifest, sourceSchema } = await normalizeRegistry(raw);
 
       // Entries are sorted newest first
       const currentEntry = manifest.entries[0];
+
+      // Only a published chain can be verified; upgraded links are derived locally
+      const entryChainVerified = isHashLinkedSchema(sourceSchema)
+        ? (await verifyEntryChain(manifest)).valid
+        : undefined;
       
       setEntryChain(manifest.entries);
-      setState({ status: "loaded", manifest, currentEntry });
+      setState({
+        status: "loaded",
+        manifest,
+        currentEntry,
+        provenance: {
+          ...provenance,
+          schema: sourceSchema,
+          contentVerified: source.verified,
+          verifiedBlocks: source instanceof VerifiedDirectory ? source.blockCount : undefined,
+          entryChainVerified,
+        },
+      });
     } catch (error) {
       console.error("Failed to fetch registry:", error);
       
       if (error instanceof TypeError && error.message.includes("fetch")) {
         setState({ status: "not_found", ensName: ensName ?? "unknown" });
+      } else if (error instanceof RegistrySchemaError) {
+        setState({ status: "error", error: error.message, issues: error.issues });
       } else {
         setState({
           status: "error",
@@ -205,6 +154,7 @@ export function useRegistry(
     refresh: fetchRegistry,
     ensName,
     contentRef,
+    directory,
   };
 }
 
@@ -0,0 +1,74 @@
+/**
+ * Directory CID tests: packages must get the CID `ipfs add` gives them.
+ *
+ * Expected CIDs are Kubo's (`ipfs add -r --cid-version=1`); the directory
+ * block is written out by hand from the dag-pb and UnixFS specifications.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import { buildDirectoryDag, computeDirectoryCid, packDirectoryCar } from "./car";
+import { readVerifiedCar } from "./storage/trustless";
+
+/** Kubo's empty UnixFS directory */
+const EMPTY_DIRECTORY = "bafybeiczsscdsbs7ffqz55asqdf3smv6klcw3gofszvwlyarci47bgf354";
+
+/** "hello world" as a raw leaf */
+const HELLO_WORLD = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+
+/**
+ * A directory holding "hello world" as hello.txt: one link (hash, name,
+ * size 11) followed by UnixFS data of type directory.
+ */
+const HELLO_DIRECTORY_BLOCK =
+  "1233" +
+  "0a24" + "01551220b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9" +
+  "1209" + Buffer.from("hello.txt").toString("hex") +
+  "180b" +
+  "0a020801";
+
+describe("computeDirectoryCid", () => {
+  it("gives the empty directory Kubo's CID", async () => {
+    assert.equal(await computeDirectoryCid([]), EMPTY_DIRECTORY);
+  });
+
+  it("stores small files as raw leaves in a dag-pb directory", async () => {
+    const block = Buffer.from(HELLO_DIRECTORY_BLOCK, "hex");
+    const expected = CID.createV1(0x70, await sha256.digest(block)).toString();
+    const { blockstore } = await buildDirectoryDag([{ path: "hello.txt", content: "hello world" }]);
+
+    assert.deepEqual(blockstore.entries().map(entry => entry.cid.toString()), [HELLO_WORLD, expected]);
+    assert.equal(await computeDirectoryCid([{ path: "hello.txt", content: "hello world" }]), expected);
+  });
+
+  it("splits files into 256 KiB chunks", async () => {
+    const content = new Uint8Array(262144 + 1);
+    const { blockstore } = await buildDirectoryDag([{ path: "large.bin", content }]);
+    const leaves = blockstore.entries().filter(entry => entry.cid.code === 0x55);
+
+    assert.deepEqual(leaves.map(entry => entry.bytes.length), [262144, 1]);
+  });
+
+  it("does not depend on the order files are listed in", async () => {
+    const files = [
+      { path: "registry.json", content: "{}\n" },
+      { path: "licenses/v1.md", content: "MIT License\n" },
+    ];
+
+    assert.equal(await computeDirectoryCid(files), await computeDirectoryCid([...files].reverse()));
+  });
+});
+
+describe("packDirectoryCar", () => {
+  it("packs a CAR whose only root is the directory CID", async () => {
+    const files = [{ path: "hello.txt", content: "hello world" }];
+    const { cid, car } = await packDirectoryCar(files);
+    const { roots, blocks } = await readVerifiedCar(new Uint8Array(await car.arrayBuffer()));
+
+    assert.equal(cid, await computeDirectoryCid(files));
+    assert.deepEqual(roots.map(root => root.toString()), [cid]);
+    assert.equal(blocks.length, 2);
+  });
+});
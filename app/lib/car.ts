@@ -0,0 +1,170 @@
+/**
+ * IPFS CAR Utilities
+ *
+ * Builds a UnixFS directory DAG from in-memory files and exports it as a
+ * CARv1 archive. The root CID is computed locally, so it is known (and can be
+ * recomputed by anyone) before the package is uploaded anywhere.
+ */
+
+import { CarWriter } from "@ipld/car/writer";
+import { importer } from "ipfs-unixfs-importer";
+import { fixedSize } from "ipfs-unixfs-importer/chunker";
+import { balanced } from "ipfs-unixfs-importer/layout";
+import type { CID } from "multiformats/cid";
+
+/**
+ * A file to include in a UnixFS directory.
+ */
+export interface DirectoryFile {
+  /** Path relative to the directory root (e.g., "licenses/v1.md") */
+  path: string;
+  /** File content (strings are UTF-8 encoded) */
+  content: string | Uint8Array;
+}
+
+/**
+ * A single IPLD block.
+ */
+export interface CarBlock {
+  cid: CID;
+  bytes: Uint8Array;
+}
+
+/**
+ * Result of packing a directory into a CAR.
+ */
+export interface CarPackResult {
+  /** Root CID of the directory (CIDv1, base32) */
+  cid: string;
+  /** The CARv1 archive */
+  car: Blob;
+}
+
+/**
+ * Importer options matching `ipfs add --cid-version=1` defaults in Kubo
+ * (256 KiB fixed-size chunks, raw leaves, balanced layout with at most 174
+ * links per node). Set explicitly so CIDs do not change with the importer's
+ * own defaults.
+ */
+const IMPORTER_OPTIONS = {
+  cidVersion: 1,
+  rawLeaves: true,
+  wrapWithDirectory: true,
+  chunker: fixedSize({ chunkSize: 262144 }),
+  layout: balanced({ maxChildrenPerNode: 174 }),
+} as const;
+
+/**
+ * Minimal in-memory blockstore.
+ * Keeps blocks in insertion order so CAR output is deterministic.
+ */
+export class MemoryBlockstore {
+  private readonly blocks = new Map<string, CarBlock>();
+
+  async put(cid: CID, bytes: Uint8Array): Promise<CID> {
+    this.blocks.set(cid.toString(), { cid, bytes });
+    return cid;
+  }
+
+  async get(cid: CID): Promise<Uint8Array> {
+    const block = this.blocks.get(cid.toString());
+    if (!block) {
+      throw new Error(`Block not found: ${cid}`);
+    }
+    return block.bytes;
+  }
+
+  async has(cid: CID): Promise<boolean> {
+    return this.blocks.has(cid.toString());
+  }
+
+  /**
+   * All stored blocks in insertion order.
+   */
+  entries(): CarBlock[] {
+    return Array.from(this.blocks.values());
+  }
+}
+
+/**
+ * Build a UnixFS directory DAG from a list of files.
+ *
+ * @param files - Files to include (order does not affect the result)
+ * @returns The root CID and the blockstore holding all blocks
+ */
+export async function buildDirectoryDag(files: DirectoryFile[]): Promise<{
+  root: CID;
+  blockstore: MemoryBlockstore;
+}> {
+  const encoder = new TextEncoder();
+  const blockstore = new MemoryBlockstore();
+
+  // Sort by path so block insertion order is stable across callers
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  const source = sorted.map(file => ({
+    path: file.path.replace(/^\/+/, ""),
+    content: typeof file.content === "string" ? encoder.encode(file.content) : file.content,
+  }));
+
+  let root: CID | null = null;
+  for await (const entry of importer(source, blockstore, IMPORTER_OPTIONS)) {
+    // The wrapping directory is yielded last with an empty path
+    if (entry.path === "") {
+      root = entry.cid;
+    }
+  }
+
+  if (!root) {
+    throw new Error("Failed to build directory DAG: no root produced");
+  }
+
+  return { root, blockstore };
+}
+
+/**
+ * Compute the directory CID for a list of files without building a CAR.
+ */
+export async function computeDirectoryCid(files: DirectoryFile[]): Promise<string> {
+  const { root } = await buildDirectoryDag(files);
+  return root.toString();
+}
+
+/**
+ * Pack a list of files into a CARv1 archive.
+ *
+ * Uploading the CAR (rather than the extracted files) guarantees the
+ * pinning service ends up with exactly this root CID.
+ */
+export async function packDirectoryCar(files: DirectoryFile[]): Promise<CarPackResult> {
+  const { root, blockstore } = await buildDirectoryDag(files);
+  const { writer, out } = CarWriter.create([root]);
+
+  // Drain the output concurrently - writer.put() waits for the reader
+  const collected = collectChunks(out);
+
+  for (const block of blockstore.entries()) {
+    await writer.put(block);
+  }
+  await writer.close();
+
+  const chunks = await collected;
+  return {
+    cid: root.toString(),
+    car: new Blob(chunks as BlobPart[], { type: "application/vnd.ipld.car" }),
+  };
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Collect all chunks from an async iterable.
+ */
+async function collectChunks(source: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
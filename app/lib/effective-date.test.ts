@@ -0,0 +1,72 @@
+/**
+ * Effective date tests: which entry is in force, and when backdating preempts.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LicenseEntry } from "~/types/license-registry";
+import { getEntryStatuses, getLicenseAt, getPreemptedEntries, parseEffectiveDate } from "./effective-date";
+
+/**
+ * An entry with only the fields effective dates depend on.
+ */
+function entry(version: number, effective_date: string): LicenseEntry {
+  return {
+    version,
+    effective_date,
+    license: { spdx: "MIT", text_path: `/licenses/v${version}.md`, text_sha256: "0".repeat(64) },
+  };
+}
+
+describe("parseEffectiveDate", () => {
+  it("reads a date without a time as midnight UTC", () => {
+    assert.equal(parseEffectiveDate("2024-06-01"), Date.UTC(2024, 5, 1));
+    assert.equal(parseEffectiveDate("2024-06-01T12:00:00+02:00"), Date.UTC(2024, 5, 1, 10));
+  });
+
+  it("rejects dates that do not parse", () => {
+    assert.throws(() => parseEffectiveDate("2024-13-45"), /Invalid effective date/);
+  });
+});
+
+describe("getLicenseAt", () => {
+  const entries = [entry(1, "2024-01-01"), entry(2, "2024-06-01")];
+
+  it("gives the latest entry that has taken effect", () => {
+    assert.equal(getLicenseAt({ entries }, "2023-12-31"), null);
+    assert.equal(getLicenseAt({ entries }, "2024-01-01")?.version, 1);
+    assert.equal(getLicenseAt({ entries }, new Date("2024-05-31T23:59:59Z"))?.version, 1);
+    assert.equal(getLicenseAt({ entries }, "2024-06-01")?.version, 2);
+  });
+
+  it("lets a backdated later version win", () => {
+    const backdated = [...entries, entry(3, "2024-03-01")];
+    assert.equal(getLicenseAt({ entries: backdated }, "2024-07-01")?.version, 3);
+  });
+});
+
+describe("getEntryStatuses", () => {
+  it("marks current, superseded and scheduled entries", () => {
+    const entries = [entry(1, "2024-01-01"), entry(2, "2024-06-01"), entry(3, "2025-01-01")];
+    assert.deepEqual(
+      [...getEntryStatuses({ entries }, "2024-07-01")],
+      [[1, "superseded"], [2, "current"], [3, "scheduled"]]
+    );
+  });
+
+  it("marks entries overridden from their first day as preempted", () => {
+    const entries = [entry(1, "2024-01-01"), entry(2, "2024-06-01"), entry(3, "2024-06-01")];
+    assert.deepEqual(
+      [...getEntryStatuses({ entries }, "2024-07-01")],
+      [[1, "superseded"], [2, "preempted"], [3, "current"]]
+    );
+  });
+});
+
+describe("getPreemptedEntries", () => {
+  it("lists earlier versions taking effect on or after the new entry's date", () => {
+    const entries = [entry(1, "2024-01-01"), entry(2, "2024-06-01"), entry(3, "2024-09-01")];
+    const preempted = getPreemptedEntries(entries, entry(4, "2024-06-01"));
+    assert.deepEqual(preempted.map(other => other.version), [2, 3]);
+  });
+});
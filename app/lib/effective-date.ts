@@ -0,0 +1,106 @@
+/**
+ * Effective Date Resolution
+ *
+ * Which entry's license is in force at a given instant. An entry applies
+ * from its effective date until a later version takes effect; the later
+ * version wins even when its effective date is earlier (a backdated
+ * entry), because it is the more recent governance decision. Entries with
+ * a future date are scheduled until then.
+ *
+ * Dates without a time ("2024-06-01") take effect at 00:00 UTC.
+ */
+
+import type { LicenseEntry, RegistryManifest } from "~/types/license-registry";
+
+/**
+ * Status of an entry at a given instant.
+ * - "current": the entry in force
+ * - "scheduled": its effective date has not been reached yet
+ * - "superseded": it was in force, and a later version has taken over
+ * - "preempted": overridden by a later version that takes effect on or before its date,
+ *   so under the registry it never applies (even if it was in force before that version was published)
+ */
+export type EntryStatus = "current" | "scheduled" | "superseded" | "preempted";
+
+/**
+ * Parse an effective date to a timestamp (milliseconds since the epoch).
+ *
+ * @throws Error if the date cannot be parsed
+ */
+export function parseEffectiveDate(value: string): number {
+  const timestamp = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid effective date: ${value}`);
+  }
+  return timestamp;
+}
+
+/**
+ * Get the entry in force at an instant: the highest version whose
+ * effective date has been reached.
+ *
+ * @param manifest - The registry (only its entries are used)
+ * @param date - The instant, as a Date or ISO date string (e.g., "2024-06-01")
+ * @returns The entry, or null if no entry had taken effect yet
+ */
+export function getLicenseAt(
+  manifest: Pick<RegistryManifest, "entries">,
+  date: Date | string
+): LicenseEntry | null {
+  const at = typeof date === "string" ? parseEffectiveDate(date) : date.getTime();
+
+  let inForce: LicenseEntry | null = null;
+  for (const entry of manifest.entries) {
+    if (parseEffectiveDate(entry.effective_date) <= at && (!inForce || entry.version > inForce.version)) {
+      inForce = entry;
+    }
+  }
+  return inForce;
+}
+
+/**
+ * Get the status of every entry at an instant.
+ *
+ * @param manifest - The registry (only its entries are used)
+ * @param date - The instant (defaults to now)
+ * @returns Status keyed by version
+ */
+export function getEntryStatuses(
+  manifest: Pick<RegistryManifest, "entries">,
+  date: Date | string = new Date()
+): Map<number, EntryStatus> {
+  const at = typeof date === "string" ? parseEffectiveDate(date) : date.getTime();
+  const inForce = getLicenseAt(manifest, new Date(at));
+  const statuses = new Map<number, EntryStatus>();
+
+  for (const entry of manifest.entries) {
+    const effective = parseEffectiveDate(entry.effective_date);
+    const preempted = manifest.entries.some(other =>
+      other.version > entry.version && parseEffectiveDate(other.effective_date) <= effective
+    );
+
+    statuses.set(
+      entry.version,
+      preempted
+        ? "preempted"
+        : effective > at
+          ? "scheduled"
+          : entry.version === inForce?.version
+            ? "current"
+            : "superseded"
+    );
+  }
+
+  return statuses;
+}
+
+/**
+ * Find the entries a new entry preempts: earlier versions that take effect
+ * on or after its effective date, which it overrides from their first day.
+ */
+export function getPreemptedEntries(entries: LicenseEntry[], entry: LicenseEntry): LicenseEntry[] {
+  const effective = parseEffectiveDate(entry.effective_date);
+  return entries.filter(other =>
+    other.version < entry.version && parseEffectiveDate(other.effective_date) >= effective
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * ENS Contenthash History
+ *
+ * Reconstructs every contenthash an ENS name has pointed to from on-chain
+ * events: `NewResolver` on the ENS registry and `ContenthashChanged` on each
+ * resolver the name has used.
+ */
+
+import { BaseError, LimitExceededRpcError, parseAbiItem, zeroAddress, type Address, type Hex } from "viem";
+import { namehash, normalize } from "viem/ens";
+import type { ContentReference } from "~/types/license-registry";
+import { decodeContenthash, ENS_REGISTRY_ADDRESS, getEnsClient, getEnsNameResolver } from "~/lib/ens";
+
+/**
+ * Block the current ENS registry (with fallback) was deployed in.
+ * No name can have records before this block.
+ */
+const ENS_REGISTRY_DEPLOYMENT_BLOCK = 9380380n;
+
+/**
+ * Smallest block range we split a failing `eth_getLogs` request into.
+ */
+const MIN_LOG_RANGE = 1000n;
+
+/**
+ * Messages providers use when an `eth_getLogs` block range or result set
+ * is too large.
+ */
+const LOG_RANGE_ERROR_PATTERN =
+  /block range|range (is )?too (large|wide)|too many (results|logs|blocks)|query returned more than|response size|limit exceeded|exceeds? (the )?(max|limit)/i;
+
+const NEW_RESOLVER_EVENT = parseAbiItem(
+  "event NewResolver(bytes32 indexed node, address resolver)"
+);
+
+const CONTENTHASH_CHANGED_EVENT = parseAbiItem(
+  "event ContenthashChanged(bytes32 indexed node, bytes hash)"
+);
+
+/**
+ * A single contenthash change of an ENS name.
+ */
+export interface ContenthashHistoryEntry {
+  /** Block the change was included in */
+  blockNumber: bigint;
+  /** Block timestamp (unix seconds) */
+  timestamp: number;
+  /** Transaction that made the change */
+  transactionHash: Hex;
+  /** Position of the log within the block */
+  logIndex: number;
+  /** Resolver that emitted the change */
+  resolver: Address;
+  /** Raw contenthash bytes ("0x" when cleared) */
+  contenthash: Hex;
+  /** Decoded content reference, or null if cleared or undecodable */
+  contentRef: ContentReference | null;
+}
+
+/**
+ * Position of a log in the chain.
+ */
+interface LogPosition {
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+/**
+ * Period during which a resolver was set for the name.
+ */
+interface ResolverPeriod {
+  resolver: Address;
+  /** Exclusive start: the NewResolver log, or the position before the scan */
+  from: LogPosition;
+  /** Exclusive end: the next NewResolver log, or null if still active */
+  to: LogPosition | null;
+}
+
+/**
+ * Get the first block to scan from environment (VITE_ENS_HISTORY_FROM_BLOCK).
+ * Defaults to the ENS registry deployment block.
+ */
+export function getConfiguredHistoryFromBlock(): bigint {
+  if (typeof import.meta !== "undefined" && import.meta.env?.VITE_ENS_HISTORY_FROM_BLOCK) {
+    return BigInt(import.meta.env.VITE_ENS_HISTORY_FROM_BLOCK);
+  }
+  return ENS_REGISTRY_DEPLOYMENT_BLOCK;
+}
+
+/**
+ * Fetch the contenthash history of an ENS name, oldest first.
+ *
+ * Only changes made while a resolver was set on the name itself are
+ * included: wildcard (ENSIP-10) and offchain resolvers do not emit logs.
+ * Changes on a resolver after the name moved to another resolver are
+ * ignored, since they were never effective for the name. The resolver set
+ * when the scan starts is read as of that block, which needs an archive
+ * node when `fromBlock` is old.
+ *
+ * @param ensName - The ENS name
+ * @param fromBlock - First block to scan (defaults to the configured block)
+ * @returns All contenthash changes in chain order
+ */
+export async function fetchContenthashHistory(
+  ensName: string,
+  fromBlock: bigint = getConfiguredHistoryFromBlock()
+): Promise<ContenthashHistoryEntry[]> {
+  const client = getEnsClient();
+  const node = namehash(normalize(ensName));
+  const latestBlock = await client.getBlockNumber();
+
+  // 1. Which resolvers has the name used, and when?
+  const resolverLogs = await getLogsChunked(fromBlock, latestBlock, (from, to) =>
+    client.getLogs({
+      address: ENS_REGISTRY_ADDRESS,
+      event: NEW_RESOLVER_EVENT,
+      args: { node },
+      fromBlock: from,
+      toBlock: to,
+    })
+  );
+
+  // The resolver already set when the scan starts has no NewResolver log in
+  // range. The registry has no state before it was deployed.
+  const initialResolver = await getEnsNameResolver(
+    ensName,
+    fromBlock > ENS_REGISTRY_DEPLOYMENT_BLOCK ? fromBlock - 1n : ENS_REGISTRY_DEPLOYMENT_BLOCK
+  );
+  const switches = resolverLogs.map(log => {
+    // A log that does not decode would leave a gap in the history
+    if (!log.args.resolver) {
+      throw new Error(`Undecodable NewResolver event in transaction ${log.transactionHash}`);
+    }
+    return { resolver: log.args.resolver, position: { blockNumber: log.blockNumber, logIndex: log.logIndex } };
+  });
+  const periods: ResolverPeriod[] = [
+    { resolver: initialResolver ?? zeroAddress, position: { blockNumber: fromBlock, logIndex: -1 } },
+    ...switches,
+  ].map((period, index, all) => ({
+    resolver: period.resolver,
+    from: period.position,
+    to: all[index + 1]?.position ?? null,
+  }));
+
+  // 2. Contenthash changes on each resolver while it was active. Periods
+  // meet within a block, so logs are assigned by block and log index.
+  const entries: Omit<ContenthashHistoryEntry, "timestamp">[] = [];
+
+  for (const period of periods) {
+    if (period.resolver === zeroAddress) continue;
+
+    const logs = await getLogsChunked(period.from.blockNumber, period.to?.blockNumber ?? latestBlock, (from, to) =>
+      client.getLogs({
+        address: period.resolver,
+        event: CONTENTHASH_CHANGED_EVENT,
+        args: { node },
+        fromBlock: from,
+        toBlock: to,
+      })
+    );
+
+    for (const log of logs) {
+      if (comparePositions(log, period.from) <= 0) continue;
+      if (period.to && comparePositions(log, period.to) >= 0) continue;
+
+      const contenthash = log.args.hash ?? "0x";
+      entries.push({
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        resolver: period.resolver,
+        contenthash,
+        contentRef: contenthash === "0x" ? null : decodeContenthash(contenthash),
+      });
+    }
+  }
+
+  // 3. Attach block timestamps (requests are sent together in JSON-RPC batches)
+  const blockNumbers = [...new Set(entries.map(entry => entry.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map(blockNumber => client.getBlock({ blockNumber })));
+  const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp)]));
+
+  return entries
+    .map(entry => ({ ...entry, timestamp: timestamps.get(entry.blockNumber) ?? 0 }))
+    .sort(comparePositions);
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Order two logs by block, then by position within the block.
+ */
+function comparePositions(a: LogPosition, b: LogPosition): number {
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber < b.blockNumber ? -1 : 1;
+  }
+  return a.logIndex - b.logIndex;
+}
+
+/**
+ * Run a log query over a block range, splitting the range in half whenever
+ * the RPC rejects it as too large (most providers cap the range or result
+ * size). Any other error is thrown as is.
+ */
+async function getLogsChunked<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  query: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<T[]> {
+  try {
+    return await query(fromBlock, toBlock);
+  } catch (error) {
+    if (!isLogRangeError(error) || toBlock - fromBlock < MIN_LOG_RANGE) {
+      throw error;
+    }
+    const middle = fromBlock + (toBlock - fromBlock) / 2n;
+    const first = await getLogsChunked(fromBlock, middle, query);
+    const second = await getLogsChunked(middle + 1n, toBlock, query);
+    return [...first, ...second];
+  }
+}
+
+/**
+ * Check whether an RPC error means the log query covered too many blocks
+ * or returned too many logs.
+ */
+function isLogRangeError(error: unknown): boolean {
+  const causes = error instanceof BaseError ? [error, error.walk()] : [error];
+  return causes.some(cause =>
+    (cause as { code?: unknown }).code === LimitExceededRpcError.code ||
+    (cause instanceof Error && LOG_RANGE_ERROR_PATTERN.test(cause.message))
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Contenthash encoding tests (ENSIP-7).
+ *
+ * Expected bytes come from ENSIP-7's examples or were computed by hand
+ * from the multicodec table, not with the code under test.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ContentReference } from "~/types/license-registry";
+import { decodeContenthash, encodeContenthash } from "./ens";
+
+const IPFS_V0 = "QmRAQB6YaCyidP37UdDnjFY5vQuiBrcqdyoW1CuDgwxkD4";
+const IPFS_V1 = "bafybeibj6lixxzqtsb45ysdjnupvqkufgdvzqbnvmhw2kf7cfkesy7r7d4";
+const IPNS_KEY = "k51qzi5uqu5dlvj2baxnqndepeb86cbk3ng7n3i46uzyxzyqj2xjonzllnv0v8";
+const IPNS_PEER_ID = "12D3KooWRBy97UB99e3J6hiPesre1MZeuNQvfan4gBziswrRJsNK";
+const SWARM = "d1de9994b4d039f6548d191eb26786769f580809256b4685ef316805265ea162";
+const ARWEAVE = "ys32Pt8uC7TrVxHdOLByOspfPEq2LO63wREHQIM9SJQ";
+const ONION = "zqktlwi4fecvo6ri";
+const ONION3 = "p53lf57qovyuvwsc6xnrppyply3vtqm7l6pcobkmyqsiofyeznfu5uqd";
+
+/**
+ * Known vectors: reference, contenthash, and the reference it decodes to.
+ */
+const VECTORS: { name: string; ref: ContentReference; contenthash: string; decoded: ContentReference }[] = [
+  {
+    name: "ipfs-ns, CIDv0 (upgraded to CIDv1)",
+    ref: { protocol: "ipfs", hash: IPFS_V0 },
+    contenthash: "0xe3010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f",
+    decoded: { protocol: "ipfs", hash: IPFS_V1 },
+  },
+  {
+    name: "ipfs-ns, CIDv1",
+    ref: { protocol: "ipfs", hash: IPFS_V1 },
+    contenthash: "0xe3010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f",
+    decoded: { protocol: "ipfs", hash: IPFS_V1 },
+  },
+  {
+    name: "ipns-ns, k51 key",
+    ref: { protocol: "ipns", hash: IPNS_KEY },
+    contenthash: "0xe5010172002408011220e4680b2f8c8d21090e6aa327f1bb342ab8e7d9238f1e35831a54d6a8f5c91124",
+    decoded: { protocol: "ipns", hash: IPNS_KEY },
+  },
+  {
+    name: "ipns-ns, legacy peer ID (written as a k51 key)",
+    ref: { protocol: "ipns", hash: IPNS_PEER_ID },
+    contenthash: "0xe5010172002408011220e4680b2f8c8d21090e6aa327f1bb342ab8e7d9238f1e35831a54d6a8f5c91124",
+    decoded: { protocol: "ipns", hash: IPNS_KEY },
+  },
+  {
+    name: "swarm-ns",
+    ref: { protocol: "bzz", hash: SWARM },
+    contenthash: `0xe40101fa011b20${SWARM}`,
+    decoded: { protocol: "bzz", hash: SWARM },
+  },
+  {
+    name: "arweave-ns",
+    ref: { protocol: "ar", hash: ARWEAVE },
+    contenthash: "0x90b2ca05cacdf63edf2e0bb4eb5711dd38b0723aca5f3c4ab62ceeb7c1110740833d4894",
+    decoded: { protocol: "ar", hash: ARWEAVE },
+  },
+  {
+    name: "onion",
+    ref: { protocol: "onion", hash: `${ONION}.onion` },
+    contenthash: "0xbc037a716b746c776934666563766f367269",
+    decoded: { protocol: "onion", hash: ONION },
+  },
+  {
+    name: "onion3",
+    ref: { protocol: "onion", hash: ONION3 },
+    contenthash: "0xbd037035336c663537716f7679757677736336786e72707079706c79337674716d376c3670636f626b6d797173696f6679657a6e667535757164",
+    decoded: { protocol: "onion", hash: ONION3 },
+  },
+];
+
+describe("encodeContenthash", () => {
+  for (const vector of VECTORS) {
+    it(`encodes ${vector.name}`, () => {
+      assert.equal(encodeContenthash(vector.ref), vector.contenthash);
+    });
+  }
+
+  it("rejects malformed references", () => {
+    const invalid: ContentReference[] = [
+      { protocol: "ipfs", hash: "not-a-cid" },
+      { protocol: "ipns", hash: "k51-not-a-key" },
+      { protocol: "ipns", hash: IPFS_V1.replace("bafybei", "bafkrei") },
+      { protocol: "bzz", hash: SWARM.slice(2) },
+      { protocol: "bzz", hash: `${SWARM.slice(1)}g` },
+      { protocol: "ar", hash: ARWEAVE.slice(1) },
+      { protocol: "ar", hash: `${ARWEAVE.slice(1)}+` },
+      { protocol: "onion", hash: `${ONION}a` },
+      { protocol: "onion", hash: "zqktlwi4fecvo6r1" },
+      { protocol: "ftp" as ContentReference["protocol"], hash: "example" },
+    ];
+    for (const ref of invalid) {
+      assert.throws(() => encodeContenthash(ref), Error, `${ref.protocol}:${ref.hash}`);
+    }
+  });
+});
+
+describe("decodeContenthash", () => {
+  for (const vector of VECTORS) {
+    it(`decodes ${vector.name}`, () => {
+      assert.deepEqual(decodeContenthash(vector.contenthash), vector.decoded);
+    });
+
+    it(`round-trips ${vector.name}`, () => {
+      const decoded = decodeContenthash(vector.contenthash);
+      assert.ok(decoded);
+      assert.equal(encodeContenthash(decoded), vector.contenthash);
+    });
+  }
+
+  it("returns null for empty contenthashes", () => {
+    assert.equal(decodeContenthash(null), null);
+    assert.equal(decodeContenthash(""), null);
+    assert.equal(decodeContenthash("0x"), null);
+  });
+
+  it("returns null for malformed contenthashes", () => {
+    const invalid = [
+      // Unknown codec
+      "0x0101701220",
+      // Truncated CID
+      "0xe3010170122029f2d17be6",
+      // Not hex
+      "0xe301zz",
+      // IPNS name that is not a libp2p key (DNSLink-style, dag-pb)
+      "0xe5010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f",
+      // Swarm reference with a sha2-256 multihash instead of keccak-256
+      `0xe40101fa011220${SWARM}`,
+      // Arweave ID of 31 bytes
+      "0x90b2ca05cacdf63edf2e0bb4eb5711dd38b0723aca5f3c4ab62ceeb7c1110740833d48",
+      // Onion address of the wrong length
+      "0xbc037a716b746c7769346665",
+      // Onion address with characters outside base32
+      "0xbc037a716b746c776934666563766f367231",
+    ];
+    for (const contenthash of invalid) {
+      assert.equal(decodeContenthash(contenthash), null, contenthash);
+    }
+  });
+});
@@ -1,36 +1,130 @@
 /**
  * ENS Resolution Utilities
  * 
- * Resolve ENS names and decode contenthash to ContentReference.
- * Supports IPFS, IPNS, Swarm, and Arweave contenthash formats.
+ * Resolve ENS names and encode/decode contenthash values (ENSIP-7).
+ * Supports IPFS, IPNS, Swarm, Arweave, and Tor onion contenthash formats.
  */
 
-import { normalize } from "viem/ens";
-import { getPublicClient } from "@wagmi/core";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { namehash, normalize, packetToBytes } from "viem/ens";
 import { mainnet } from "wagmi/chains";
-import type { ContentReference, StorageProtocol } from "~/types/license-registry";
+import { varint } from "multiformats";
+import { base36 } from "multiformats/bases/base36";
+import { base58btc } from "multiformats/bases/base58";
+import { base64url } from "multiformats/bases/base64";
+import { CID } from "multiformats/cid";
+import * as Digest from "multiformats/hashes/digest";
+import type { ContentReference } from "~/types/license-registry";
+import { bytesToHex, hexToBytes } from "~/lib/hash";
 
-// Contenthash codec prefixes (from EIP-1577 / ENSIP-7)
-// These are the multicodec prefixes used in ENS contenthash
-const CONTENTHASH_CODECS = {
-  // IPFS uses 0xe3 (ipfs-ns) followed by the CID
+/**
+ * Contenthash protocol codes (multicodec table, ENSIP-7).
+ * The contenthash is `varint(code) || value`.
+ */
+export const CONTENTHASH_CODECS = {
+  /** IPFS: value is a CID (always written as CIDv1) */
   IPFS_NS: 0xe3,
-  // IPNS uses 0xe5 (ipns-ns) followed by the key
-  IPNS_NS: 0xe5,
-  // Swarm uses 0xe4 (swarm-ns) followed by the hash
+  /** Swarm: value is a CIDv1 (swarm-manifest, keccak-256) */
   SWARM_NS: 0xe4,
-  // Arweave doesn't have a standard codec yet, but some use 0x0a
+  /** IPNS: value is a CIDv1 with the libp2p-key codec */
+  IPNS_NS: 0xe5,
+  /** Tor onion v2: value is the 16-character address (UTF-8) */
+  ONION: 0x01bc,
+  /** Tor onion v3: value is the 56-character address (UTF-8) */
+  ONION3: 0x01bd,
+  /** Arweave: value is the 32-byte transaction ID */
+  ARWEAVE_NS: 0xb29910,
 } as const;
 
 /**
- * Decode a contenthash bytes to a ContentReference.
+ * Multicodec codes used inside contenthash values.
+ */
+const DAG_PB_CODEC = 0x70;
+const LIBP2P_KEY_CODEC = 0x72;
+const SWARM_MANIFEST_CODEC = 0xfa;
+const KECCAK_256_CODE = 0x1b;
+
+/**
+ * Encode a ContentReference as ENS contenthash bytes (ENSIP-7).
+ * The result is exactly what should be passed to `setContenthash`.
  * 
- * Contenthash format (simplified):
- * - First byte(s): multicodec prefix indicating the protocol
- * - Remaining bytes: the content address
+ * Examples:
+ * - ipfs  QmRAQB6YaCyidP37UdDnjFY5vQuiBrcqdyoW1CuDgwxkD4
+ *   → 0xe3010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f
+ * - bzz   d1de9994b4d039f6548d191eb26786769f580809256b4685ef316805265ea162
+ *   → 0xe40101fa011b20d1de9994b4d039f6548d191eb26786769f580809256b4685ef316805265ea162
+ * 
+ * @param ref - The content reference
+ * @returns The contenthash as a 0x-prefixed hex string
+ * @throws Error if the reference is invalid or cannot be stored in a contenthash
+ */
+export function encodeContenthash(ref: ContentReference): string {
+  switch (ref.protocol) {
+    case "ipfs": {
+      // ENSIP-7 recommends CIDv1; CIDv0 is upgraded (dag-pb, same multihash)
+      const cid = CID.parse(ref.hash).toV1();
+      return toHex(withCodec(CONTENTHASH_CODECS.IPFS_NS, cid.bytes));
+    }
+
+    case "ipns": {
+      const cid = parseIpnsName(ref.hash);
+      return toHex(withCodec(CONTENTHASH_CODECS.IPNS_NS, cid.bytes));
+    }
+
+    case "bzz": {
+      const hex = ref.hash.startsWith("0x") ? ref.hash.slice(2) : ref.hash;
+      if (!/^[a-fA-F0-9]{64}$/.test(hex)) {
+        throw new Error(`Invalid Swarm reference for contenthash (expected 32 bytes): ${ref.hash}`);
+      }
+      const digest = Digest.create(KECCAK_256_CODE, hexToBytes(hex));
+      const cid = CID.createV1(SWARM_MANIFEST_CODEC, digest);
+      return toHex(withCodec(CONTENTHASH_CODECS.SWARM_NS, cid.bytes));
+    }
+
+    case "ar": {
+      if (!/^[a-zA-Z0-9_-]{43}$/.test(ref.hash)) {
+        throw new Error(`Invalid Arweave transaction ID: ${ref.hash}`);
+      }
+      return toHex(withCodec(CONTENTHASH_CODECS.ARWEAVE_NS, base64url.baseDecode(ref.hash)));
+    }
+
+    case "onion": {
+      const address = ref.hash.replace(/\.onion$/, "").toLowerCase();
+      const encoded = new TextEncoder().encode(address);
+      if (/^[a-z2-7]{16}$/.test(address)) {
+        return toHex(withCodec(CONTENTHASH_CODECS.ONION, encoded));
+      }
+      if (/^[a-z2-7]{56}$/.test(address)) {
+        return toHex(withCodec(CONTENTHASH_CODECS.ONION3, encoded));
+      }
+      throw new Error(`Invalid onion address: ${ref.hash}`);
+    }
+
+    default:
+      throw new Error(`Unknown storage protocol: ${ref.protocol}`);
+  }
+}
+
+/**
+ * Decode ENS contenthash bytes to a ContentReference (ENSIP-7).
+ * 
+ * IPFS CIDs are returned as CIDv1 base32, IPNS keys as CIDv1 base36,
+ * Swarm references as 64-character hex, and Arweave transaction IDs
+ * as base64url.
  * 
  * @param contenthash - The raw contenthash bytes (hex string with 0x prefix)
- * @returns ContentReference or null if invalid/unsupported
+ * @returns ContentReference or null if empty, invalid or unsupported
  */
 export function decodeContenthash(contenthash: string | null): ContentReference | null {
   if (!contenthash || contenthash === "0x" || contenthash.length < 4) {
@@ -38,44 +132,48 @@ export function decodeContenthash(contenthash: string | null): ContentReference
   }
 
   try {
-    // Remove 0x prefix
-    const hex = contenthash.startsWith("0x") ? contenthash.slice(2) : contenthash;
-    const bytes = hexToBytes(hex);
-    
-    if (bytes.length < 2) {
-      return null;
-    }
-
-    // Read the multicodec prefix (varint encoded)
-    const { value: codec, bytesRead } = readVarint(bytes);
-    const contentBytes = bytes.slice(bytesRead);
+    const bytes = hexToBytes(contenthash);
+    const [codec, codecLength] = varint.decode(bytes);
+    const value = bytes.subarray(codecLength);
 
     switch (codec) {
       case CONTENTHASH_CODECS.IPFS_NS: {
-        // IPFS: the remaining bytes are a CID
-        const cid = decodeCid(contentBytes);
-        if (cid) {
-          return { protocol: "ipfs", hash: cid };
-        }
-        break;
+        const cid = CID.decode(value);
+        return { protocol: "ipfs", hash: cid.toV1().toString() };
       }
-      
+
       case CONTENTHASH_CODECS.IPNS_NS: {
-        // IPNS: the remaining bytes are a CID (usually a libp2p-key)
-        const key = decodeCid(contentBytes);
-        if (key) {
-          return { protocol: "ipns", hash: key };
+        const cid = CID.decode(value);
+        if (cid.code !== LIBP2P_KEY_CODEC) {
+          // DNSLink-style IPNS names are not allowed by ENSIP-7
+          return null;
         }
-        break;
+        return { protocol: "ipns", hash: cid.toString(base36) };
       }
-      
+
       case CONTENTHASH_CODECS.SWARM_NS: {
-        // Swarm: the remaining bytes are a 32-byte hash
-        if (contentBytes.length >= 32) {
-          const hash = bytesToHex(contentBytes.slice(0, 32));
-          return { protocol: "bzz", hash };
+        const cid = CID.decode(value);
+        if (cid.multihash.code !== KECCAK_256_CODE) {
+          return null;
+        }
+        return { protocol: "bzz", hash: bytesToHex(cid.multihash.digest) };
+      }
+
+      case CONTENTHASH_CODECS.ARWEAVE_NS: {
+        if (value.length !== 32) {
+          return null;
         }
-        break;
+        return { protocol: "ar", hash: base64url.baseEncode(value) };
+      }
+
+      case CONTENTHASH_CODECS.ONION:
+      case CONTENTHASH_CODECS.ONION3: {
+        const address = new TextDecoder().decode(value);
+        const expectedLength = codec === CONTENTHASH_CODECS.ONION ? 16 : 56;
+        if (address.length !== expectedLength || !/^[a-z2-7]+$/.test(address)) {
+          return null;
+        }
+        return { protocol: "onion", hash: address };
       }
     }
 
@@ -87,52 +185,28 @@ export function decodeContenthash(contenthash: string | null): ContentReference
 }
 
 /**
- * Decode CID bytes to a string representation.
- * Uses the multiformats library for proper CID handling.
+ * Parse an IPNS name into a libp2p-key CID.
+ * Accepts CID strings (e.g., base36 "k51...") and legacy base58btc
+ * peer IDs (e.g., "12D3Koo..." or "Qm...").
  */
-async function decodeCidAsync(bytes: Uint8Array): Promise<string | null> {
+function parseIpnsName(name: string): CID {
+  let cid: CID;
   try {
-    const { CID } = await import("multiformats/cid");
-    const cid = CID.decode(bytes);
-    // Return as CIDv1 base32 for consistency
-    return cid.toV1().toString();
+    cid = CID.parse(name, name.startsWith("k") ? base36 : undefined);
   } catch {
-    return null;
+    // Legacy peer ID: a bare base58btc multihash
+    const digest = Digest.decode(base58btc.baseDecode(name));
+    return CID.createV1(LIBP2P_KEY_CODEC, digest);
   }
-}
 
-/**
- * Synchronous CID decoding (simplified, for common cases).
- * For full CID support, use the async version.
- */
-function decodeCid(bytes: Uint8Array): string | null {
-  try {
-    // Import dynamically to avoid SSR issues
-    // This is a simplified decoder for common CID formats
-    // For full support, the async version with multiformats should be used
-    
-    if (bytes.length < 2) return null;
-    
-    // Check for CIDv0 (starts with 0x12 0x20 for sha2-256)
-    if (bytes[0] === 0x12 && bytes[1] === 0x20 && bytes.length === 34) {
-      // CIDv0 is just base58btc encoded multihash
-      return base58btcEncode(bytes);
-    }
-    
-    // CIDv1: version(1) + codec + multihash
-    // Read version
-    const { value: version, bytesRead: versionBytes } = readVarint(bytes);
-    
-    if (version === 1) {
-      // CIDv1 - encode as base32
-      return "b" + base32Encode(bytes);
-    }
-    
-    // Fallback: just hex encode (not ideal but works)
-    return bytesToHex(bytes);
-  } catch {
-    return null;
+  if (cid.version === 0) {
+    // A CIDv0-looking string is a peer ID multihash, not dag-pb content
+    return CID.createV1(LIBP2P_KEY_CODEC, cid.multihash);
   }
+  if (cid.code !== LIBP2P_KEY_CODEC && cid.code !== DAG_PB_CODEC) {
+    throw new Error(`Invalid IPNS name: ${name}`);
+  }
+  return CID.createV1(LIBP2P_KEY_CODEC, cid.multihash);
 }
 
 /**
@@ -146,184 +220,264 @@ export function getConfiguredEnsName(): string | null {
 }
 
 /**
- * Resolve an ENS name to its contenthash.
- * 
- * @param ensName - The ENS name (e.g., "license.commonground.eth")
- * @param chainId - Optional chain ID (defaults to mainnet)
- * @returns The contenthash as a hex string, or null if not set
+ * ENS registry address (same on mainnet and testnets).
  */
-export async function resolveEnsContenthash(
-  ensName: string,
-  chainId: number = mainnet.id
-): Promise<string | null> {
-  try {
-    // Normalize the ENS name
-    const normalizedName = normalize(ensName);
-    
-    // Get a public client for the chain
-    // Note: This requires wagmi to be configured with a provider
-    const client = getPublicClient({ chainId } as any);
-    
-    if (!client) {
-      throw new Error("No public client available. Ensure wagmi is configured.");
-    }
+export const ENS_REGISTRY_ADDRESS = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e" as const;
 
-    // Get the contenthash
-    const contenthash = await client.getEnsText({
-      name: normalizedName,
-      key: "contenthash",
-    });
+/**
+ * Get the configured Ethereum mainnet RPC URL for ENS lookups.
+ * Falls back to viem's default public RPC when unset.
+ */
+export function getConfiguredEnsRpcUrl(): string | undefined {
+  if (typeof import.meta !== "undefined" && import.meta.env?.VITE_ENS_RPC_URL) {
+    return import.meta.env.VITE_ENS_RPC_URL;
+  }
+  return undefined;
+}
 
-    // If contenthash is not available via text record, try the native contenthash
-    if (!contenthash) {
-      // Use viem's built-in contenthash resolution
-      const resolver = await client.getEnsResolver({ name: normalizedName });
-      if (resolver) {
-        // Read contenthash from resolver
-        const data = await client.readContract({
-          address: resolver,
-          abi: [{
-            name: "contenthash",
-            type: "function",
-            stateMutability: "view",
-            inputs: [{ name: "node", type: "bytes32" }],
-            outputs: [{ name: "", type: "bytes" }],
-          }],
-          functionName: "contenthash",
-          args: [normalizedName as any], // This should be the namehash
-        });
-        return data as string;
-      }
-    }
+/**
+ * Singleton public client for ENS lookups.
+ * Independent of the wagmi config so ENS always resolves against mainnet.
+ */
+let _ensClient: PublicClient | null = null;
 
-    return contenthash;
-  } catch (error) {
-    console.error("Failed to resolve ENS contenthash:", error);
-    return null;
+/**
+ * Get the public client used for ENS lookups.
+ */
+export function getEnsClient(): PublicClient {
+  if (!_ensClient) {
+    _ensClient = createPublicClient({
+      chain: mainnet,
+      // Batch concurrent calls (e.g., block lookups for the history) into one request
+      transport: http(getConfiguredEnsRpcUrl(), { batch: true }),
+    });
   }
+  return _ensClient;
 }
 
 /**
- * Resolve an ENS name to a ContentReference.
- * Combines ENS resolution with contenthash decoding.
- * 
+ * Get the resolver set in the ENS registry for exactly this name.
+ * Unlike wildcard resolution, this does not fall back to a parent's
+ * resolver - it is the contract that accepts `setContenthash` for the name.
+ *
  * @param ensName - The ENS name
- * @returns ContentReference or null if not found/invalid
+ * @param blockNumber - Read the resolver as of this block (defaults to the latest)
+ * @returns The resolver address, or null if none is set
  */
-export async function resolveEnsToContentReference(
-  ensName: string
-): Promise<ContentReference | null> {
-  const contenthash = await resolveEnsContenthash(ensName);
-  if (!contenthash) {
-    return null;
-  }
-  return decodeContenthash(contenthash);
+export async function getEnsNameResolver(ensName: string, blockNumber?: bigint): Promise<Address | null> {
+  const client = getEnsClient();
+  const resolver = await client.readContract({
+    address: ENS_REGISTRY_ADDRESS,
+    abi: [{
+      name: "resolver",
+      type: "function",
+      stateMutability: "view",
+      inputs: [{ name: "node", type: "bytes32" }],
+      outputs: [{ name: "", type: "address" }],
+    }],
+    functionName: "resolver",
+    args: [namehash(normalize(ensName))],
+    blockNumber,
+  });
+  return resolver === zeroAddress ? null : resolver;
 }
 
-// ============================================
-// Utility Functions
-// ============================================
-
 /**
- * Convert hex string to Uint8Array.
+ * Error raised when on-chain ENS resolution fails (RPC, resolver, or
+ * CCIP-read gateway errors). A name without a contenthash is not an error.
  */
-function hexToBytes(hex: string): Uint8Array {
-  const bytes = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < hex.length; i += 2) {
-    bytes[i / 2] = parseInt(hex.slice(i, i + 2), 16);
+export class EnsResolutionError extends Error {
+  constructor(
+    message: string,
+    public readonly ensName: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "EnsResolutionError";
   }
-  return bytes;
 }
 
 /**
- * Convert Uint8Array to hex string.
+ * ABI fragment for the ENS Universal Resolver (ENSIP-10 wildcard resolution
+ * with batched CCIP-read), including the errors it reverts with.
  */
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map(b => b.toString(16).padStart(2, "0"))
-    .join("");
-}
+const UNIVERSAL_RESOLVER_ABI = [
+  { name: "ResolverNotFound", type: "error", inputs: [{ name: "name", type: "bytes" }] },
+  {
+    name: "ResolverNotContract",
+    type: "error",
+    inputs: [{ name: "name", type: "bytes" }, { name: "resolver", type: "address" }],
+  },
+  {
+    name: "UnsupportedResolverProfile",
+    type: "error",
+    inputs: [{ name: "selector", type: "bytes4" }],
+  },
+  { name: "ResolverError", type: "error", inputs: [{ name: "errorData", type: "bytes" }] },
+  {
+    name: "HttpError",
+    type: "error",
+    inputs: [{ name: "status", type: "uint16" }, { name: "message", type: "string" }],
+  },
+  {
+    name: "resolveWithGateways",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "name", type: "bytes" },
+      { name: "data", type: "bytes" },
+      { name: "gateways", type: "string[]" },
+    ],
+    outputs: [
+      { name: "", type: "bytes" },
+      { name: "address", type: "address" },
+    ],
+  },
+] as const;
 
 /**
- * Read a varint from bytes.
- * Returns the value and number of bytes read.
+ * ABI fragment for the resolver profile `contenthash(bytes32)` (EIP-1577).
  */
-function readVarint(bytes: Uint8Array): { value: number; bytesRead: number } {
-  let value = 0;
-  let bytesRead = 0;
-  let shift = 0;
-
-  while (bytesRead < bytes.length) {
-    const byte = bytes[bytesRead];
-    value |= (byte & 0x7f) << shift;
-    bytesRead++;
-    if ((byte & 0x80) === 0) {
-      break;
-    }
-    shift += 7;
-  }
+const CONTENTHASH_RESOLVER_ABI = [{
+  name: "contenthash",
+  type: "function",
+  stateMutability: "view",
+  inputs: [{ name: "node", type: "bytes32" }],
+  outputs: [{ name: "", type: "bytes" }],
+}] as const;
 
-  return { value, bytesRead };
-}
+/**
+ * Batch gateway handled locally by viem, so CCIP-read requests go straight
+ * to the gateways named by the resolver instead of a hosted batch gateway.
+ */
+const LOCAL_BATCH_GATEWAY = "x-batch-gateway:true";
 
 /**
- * Base58btc alphabet.
+ * Universal Resolver errors that mean "no record" rather than a failure.
  */
-const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const NULL_RESULT_ERRORS = new Set([
+  "ResolverNotFound",
+  "ResolverNotContract",
+  "UnsupportedResolverProfile",
+]);
 
 /**
- * Simple base58btc encoding.
+ * Resolve an ENS name to its contenthash on-chain.
+ *
+ * The lookup goes through the ENS Universal Resolver on Ethereum mainnet
+ * using the configured RPC (VITE_ENS_RPC_URL). This covers resolvers set
+ * directly on the name, ENSIP-10 wildcard resolvers on a parent name, and
+ * offchain resolvers via CCIP-read (EIP-3668).
+ *
+ * @param ensName - The ENS name (e.g., "license.commonground.eth")
+ * @returns The contenthash as a hex string, or null if no contenthash is set
+ * @throws EnsResolutionError if the lookup itself fails
  */
-function base58btcEncode(bytes: Uint8Array): string {
-  // Count leading zeros
-  let zeros = 0;
-  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
-    zeros++;
+export async function resolveEnsContenthash(ensName: string): Promise<Hex | null> {
+  let normalizedName: string;
+  try {
+    normalizedName = normalize(ensName);
+  } catch (error) {
+    throw new EnsResolutionError(`Invalid ENS name: ${ensName}`, ensName, error);
   }
 
-  // Convert to big integer and encode
-  let value = BigInt(0);
-  for (const byte of bytes) {
-    value = value * BigInt(256) + BigInt(byte);
+  const client = getEnsClient();
+  const universalResolver = mainnet.contracts.ensUniversalResolver.address;
+
+  try {
+    const [data] = await client.readContract({
+      address: universalResolver,
+      abi: UNIVERSAL_RESOLVER_ABI,
+      functionName: "resolveWithGateways",
+      args: [
+        toHex(packetToBytes(normalizedName)),
+        encodeFunctionData({
+          abi: CONTENTHASH_RESOLVER_ABI,
+          functionName: "contenthash",
+          args: [namehash(normalizedName)],
+        }),
+        [LOCAL_BATCH_GATEWAY],
+      ],
+    });
+
+    if (data === "0x") return null;
+
+    const contenthash = decodeFunctionResult({
+      abi: CONTENTHASH_RESOLVER_ABI,
+      functionName: "contenthash",
+      data,
+    });
+    return contenthash === "0x" ? null : contenthash;
+  } catch (error) {
+    const revertName = getRevertErrorName(error);
+    if (revertName && NULL_RESULT_ERRORS.has(revertName)) {
+      return null;
+    }
+
+    const reason = revertName ?? (error instanceof BaseError ? error.shortMessage : String(error));
+    throw new EnsResolutionError(
+      `Failed to resolve contenthash for ${normalizedName}: ${reason}`,
+      normalizedName,
+      error
+    );
   }
+}
 
-  let result = "";
-  while (value > BigInt(0)) {
-    result = BASE58_ALPHABET[Number(value % BigInt(58))] + result;
-    value = value / BigInt(58);
+/**
+ * Resolve an ENS name to a ContentReference.
+ * Combines on-chain contenthash resolution with ENSIP-7 decoding.
+ *
+ * @param ensName - The ENS name
+ * @returns ContentReference or null if no contenthash is set
+ * @throws EnsResolutionError if the lookup fails or the contenthash cannot be decoded
+ */
+export async function resolveEnsToContentReference(
+  ensName: string
+): Promise<ContentReference | null> {
+  const contenthash = await resolveEnsContenthash(ensName);
+  if (!contenthash) {
+    return null;
   }
 
-  // Add leading '1's for leading zeros
-  return "1".repeat(zeros) + result;
+  const ref = decodeContenthash(contenthash);
+  if (!ref) {
+    throw new EnsResolutionError(
+      `Unsupported contenthash for ${ensName}: ${contenthash}`,
+      ensName
+    );
+  }
+  return ref;
 }
 
+// ============================================
+// Utility Functions
+// ============================================
+
 /**
- * Base32 lowercase alphabet (RFC 4648).
+ * Prefix a value with its varint-encoded contenthash codec.
  */
-const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+function withCodec(codec: number, value: Uint8Array): Uint8Array {
+  const codecLength = varint.encodingLength(codec);
+  const bytes = new Uint8Array(codecLength + value.length);
+  varint.encodeTo(codec, bytes);
+  bytes.set(value, codecLength);
+  return bytes;
+}
 
 /**
- * Simple base32 encoding.
+ * Format bytes as a 0x-prefixed hex string.
  */
-function base32Encode(bytes: Uint8Array): string {
-  let bits = 0;
-  let value = 0;
-  let result = "";
-
-  for (const byte of bytes) {
-    value = (value << 8) | byte;
-    bits += 8;
-
-    while (bits >= 5) {
-      result += BASE32_ALPHABET[(value >>> (bits - 5)) & 0x1f];
-      bits -= 5;
-    }
-  }
-
-  if (bits > 0) {
-    result += BASE32_ALPHABET[(value << (5 - bits)) & 0x1f];
-  }
-
-  return result;
+function toHex(bytes: Uint8Array): Hex {
+  return `0x${bytesToHex(bytes)}`;
 }
 
+/**
+ * Name of the custom error a contract call reverted with, if any.
+ */
+function getRevertErrorName(error: unknown): string | null {
+  if (!(error instanceof BaseError)) return null;
+  const revert = error.walk(e => e instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError
+    ? revert.data?.errorName ?? null
+    : null;
+}
@@ -0,0 +1,207 @@
+/**
+ * Entry Chain Utilities
+ *
+ * Hash-links registry entries (schema v2): each entry carries the SHA-256 of
+ * its predecessor's canonical JSON, and the manifest carries the digest of
+ * the newest entry. Changing any historical entry changes every digest after
+ * it, so tampering is evident from the head digest alone.
+ */
+
+import type {
+  LicenseEntry,
+  RegistryManifest,
+  VerificationCheck,
+} from "~/types/license-registry";
+import { REGISTRY_SCHEMA_V2 } from "~/types/license-registry";
+import { sha256 } from "~/lib/hash";
+
+/**
+ * Result of verifying a manifest's entry chain.
+ */
+export interface EntryChainVerification {
+  /** Whether every link and the head digest are valid */
+  valid: boolean;
+  /** Individual check results */
+  checks: VerificationCheck[];
+  /** Digest of each entry, keyed by version */
+  digests: Map<number, string>;
+}
+
+/**
+ * Serialize a value as canonical JSON (RFC 8785 for the JSON subset used in
+ * registry.json): object keys sorted, no whitespace, undefined members omitted.
+ *
+ * @param value - A JSON-compatible value
+ * @returns The canonical JSON string
+ * @throws Error for values that have no JSON representation
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value === "boolean" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(",")}]`;
+  }
+
+  if (typeof value === "object") {
+    const members = Object.entries(value as Record<string, unknown>)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, member]) => `${JSON.stringify(key)}:${canonicalJson(member)}`);
+    return `{${members.join(",")}}`;
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
+
+/**
+ * Compute the digest of an entry: SHA-256 of its canonical JSON.
+ * The entry's own `prev_entry_sha256` is included, which is what chains
+ * the digests together.
+ *
+ * @returns Hex-encoded SHA-256 digest
+ */
+export async function computeEntryDigest(entry: LicenseEntry): Promise<string> {
+  return sha256(canonicalJson(entry));
+}
+
+/**
+ * Check whether a manifest uses hash-linked entries.
+ */
+export function isHashLinked(manifest: RegistryManifest): boolean {
+  return manifest.schema === REGISTRY_SCHEMA_V2;
+}
+
+/**
+ * Link entries into a hash chain.
+ * Links are (re)computed from the oldest entry up, so existing links are
+ * replaced and entries without links (from v1 registries) gain them. Only
+ * for v1 upgrades and new registries: a published chain is extended with
+ * `appendEntry`, which keeps its links.
+ *
+ * @param entries - Entries in any order
+ * @returns Linked entries (newest first) and the head digest
+ */
+export async function linkEntries(entries: LicenseEntry[]): Promise<{
+  entries: LicenseEntry[];
+  headDigest: string;
+}> {
+  const oldestFirst = [...entries].sort((a, b) => a.version - b.version);
+  const linked: LicenseEntry[] = [];
+  let previousDigest: string | null = null;
+
+  for (const entry of oldestFirst) {
+    const linkedEntry: LicenseEntry = { ...entry, prev_entry_sha256: previousDigest };
+    linked.push(linkedEntry);
+    previousDigest = await computeEntryDigest(linkedEntry);
+  }
+
+  if (previousDigest === null) {
+    throw new Error("Cannot link an empty entry list");
+  }
+
+  return {
+    entries: linked.reverse(),
+    headDigest: previousDigest,
+  };
+}
+
+/**
+ * Append a new entry to a published chain. Existing entries are kept
+ * exactly as published; only the new entry is linked, to the head digest.
+ * Verify the chain first (`verifyEntryChain`): appending does not repair it.
+ *
+ * @param entries - The published entries (any order)
+ * @param headDigest - The published head digest
+ * @param entry - The new entry, with a version above every published one
+ * @returns All entries (newest first) and the new head digest
+ * @throws Error if the new entry's version is not the highest
+ */
+export async function appendEntry(
+  entries: LicenseEntry[],
+  headDigest: string,
+  entry: LicenseEntry
+): Promise<{
+  entries: LicenseEntry[];
+  headDigest: string;
+}> {
+  const newest = Math.max(...entries.map(existing => existing.version));
+  if (entry.version <= newest) {
+    throw new Error(`Cannot append v${entry.version}: the chain already has v${newest}`);
+  }
+
+  const linkedEntry: LicenseEntry = { ...entry, prev_entry_sha256: headDigest };
+  return {
+    entries: [linkedEntry, ...entries].sort((a, b) => b.version - a.version),
+    headDigest: await computeEntryDigest(linkedEntry),
+  };
+}
+
+/**
+ * Verify a v2 manifest's entry chain: every entry must link to the digest of
+ * the entry before it, the oldest entry must have a null link, and the
+ * manifest's head digest must match the newest entry.
+ *
+ * @param manifest - The manifest to verify (entries newest first)
+ */
+export async function verifyEntryChain(
+  manifest: Pick<RegistryManifest, "entries" | "head_sha256">
+): Promise<EntryChainVerification> {
+  const checks: VerificationCheck[] = [];
+  const digests = new Map<number, string>();
+  const oldestFirst = [...manifest.entries].sort((a, b) => a.version - b.version);
+  const brokenLinks: string[] = [];
+
+  let previousDigest: string | null = null;
+  for (const entry of oldestFirst) {
+    const expected = previousDigest;
+    const actual = entry.prev_entry_sha256 ?? null;
+
+    if (actual?.toLowerCase() !== expected?.toLowerCase()) {
+      brokenLinks.push(
+        expected === null
+          ? `v${entry.version} should be the first entry but links to ${actual}`
+          : `v${entry.version} does not link to the digest of its predecessor`
+      );
+    }
+
+    previousDigest = await computeEntryDigest(entry);
+    digests.set(entry.version, previousDigest);
+  }
+
+  checks.push({
+    id: "entry_chain",
+    description: "Each entry is hash-linked to its predecessor",
+    passed: brokenLinks.length === 0,
+    error: brokenLinks.length > 0 ? brokenLinks.join("; ") : undefined,
+    details: `${oldestFirst.length} ${oldestFirst.length === 1 ? "entry" : "entries"} checked`,
+  });
+
+  const headMatches = !!manifest.head_sha256 && !!previousDigest &&
+    manifest.head_sha256.toLowerCase() === previousDigest.toLowerCase();
+  checks.push({
+    id: "head_digest",
+    description: "Head digest matches the newest entry",
+    passed: headMatches,
+    error: !headMatches
+      ? manifest.head_sha256
+        ? "Head digest does not match the newest entry"
+        : "Manifest has no head digest"
+      : undefined,
+    details: previousDigest ? `sha256:${previousDigest}` : undefined,
+  });
+
+  return {
+    valid: checks.every(check => check.passed),
+    checks,
+    digests,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Governance Proposal Utilities
+ *
+ * Builds the ENS `setContenthash` transaction that makes a new registry
+ * version official, and exports it in formats accepted by common DAO tooling
+ * (Safe Transaction Builder, OpenZeppelin Governor `propose()`).
+ */
+
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import { namehash, normalize } from "viem/ens";
+import { mainnet } from "wagmi/chains";
+import type { ContentReference } from "~/types/license-registry";
+import { encodeContenthash, getEnsNameResolver } from "~/lib/ens";
+import { formatContentUri } from "~/lib/storage";
+
+/**
+ * ABI fragment for the public resolver's `setContenthash`.
+ */
+const SET_CONTENTHASH_ABI = [{
+  name: "setContenthash",
+  type: "function",
+  stateMutability: "nonpayable",
+  inputs: [
+    { name: "node", type: "bytes32" },
+    { name: "hash", type: "bytes" },
+  ],
+  outputs: [],
+}] as const;
+
+/**
+ * A fully specified contenthash update transaction.
+ */
+export interface ContenthashProposal {
+  /** Normalized ENS name */
+  ensName: string;
+  /** Namehash of the ENS name */
+  node: Hex;
+  /** Resolver contract that receives the call */
+  target: Address;
+  /** Chain the transaction must be executed on */
+  chainId: number;
+  /** The new content reference */
+  contentRef: ContentReference;
+  /** ENSIP-7 encoded contenthash bytes */
+  contenthash: Hex;
+  /** ABI-encoded `setContenthash(bytes32,bytes)` call */
+  calldata: Hex;
+}
+
+/**
+ * Safe Transaction Builder batch file (version 1.0).
+ */
+export interface SafeBatchFile {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+  };
+  transactions: {
+    to: Address;
+    value: string;
+    data: Hex;
+    contractMethod: null;
+    contractInputsValues: null;
+  }[];
+}
+
+/**
+ * Arguments for OpenZeppelin Governor `propose(address[],uint256[],bytes[],string)`.
+ */
+export interface GovernorProposeArgs {
+  targets: Address[];
+  values: string[];
+  calldatas: Hex[];
+  description: string;
+}
+
+/**
+ * Build the `setContenthash` proposal for an ENS name.
+ * Looks up the name's resolver on-chain; the resolver is the call target.
+ *
+ * @param ensName - The ENS name (e.g., "license.commonground.eth")
+ * @param contentRef - The new registry content reference
+ * @throws Error if the name has no resolver or the reference cannot be encoded
+ */
+export async function buildContenthashProposal(
+  ensName: string,
+  contentRef: ContentReference
+): Promise<ContenthashProposal> {
+  const normalizedName = normalize(ensName);
+  const node = namehash(normalizedName);
+  const contenthash = encodeContenthash(contentRef) as Hex;
+
+  const target = await getEnsNameResolver(normalizedName);
+  if (!target) {
+    throw new Error(`No resolver is set for ${normalizedName}`);
+  }
+
+  const calldata = encodeFunctionData({
+    abi: SET_CONTENTHASH_ABI,
+    functionName: "setContenthash",
+    args: [node, contenthash],
+  });
+
+  return {
+    ensName: normalizedName,
+    node,
+    target,
+    chainId: mainnet.id,
+    contentRef,
+    contenthash,
+    calldata,
+  };
+}
+
+/**
+ * Default human-readable proposal description.
+ */
+export function getDefaultProposalDescription(
+  proposal: ContenthashProposal,
+  version: number
+): string {
+  return `Update the ENS contenthash of ${proposal.ensName} to license registry v${version} (${formatContentUri(proposal.contentRef)})`;
+}
+
+/**
+ * Export a proposal as a Safe Transaction Builder batch file.
+ */
+export function toSafeTransactionBuilderJson(
+  proposal: ContenthashProposal,
+  description: string
+): SafeBatchFile {
+  return {
+    version: "1.0",
+    chainId: String(proposal.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: `Update ${proposal.ensName} contenthash`,
+      description,
+    },
+    transactions: [{
+      to: proposal.target,
+      value: "0",
+      data: proposal.calldata,
+      contractMethod: null,
+      contractInputsValues: null,
+    }],
+  };
+}
+
+/**
+ * Export a proposal as Governor `propose()` arguments.
+ */
+export function toGovernorProposeArgs(
+  proposal: ContenthashProposal,
+  description: string
+): GovernorProposeArgs {
+  return {
+    targets: [proposal.target],
+    values: ["0"],
+    calldatas: [proposal.calldata],
+    description,
+  };
+}
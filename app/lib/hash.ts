@@ -24,7 +24,8 @@ export async function sha256(text: string): Promise<string> {
  * @returns Hex-encoded SHA-256 hash
  */
 export async function sha256Bytes(data: ArrayBuffer | Uint8Array): Promise<string> {
-  const buffer = data instanceof Uint8Array ? data.buffer : data;
+  // A Uint8Array may be a view into a larger buffer; copy just its bytes
+  const buffer = data instanceof Uint8Array ? data.slice().buffer : data;
   const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
   return arrayBufferToHex(hashBuffer);
 }
@@ -0,0 +1,276 @@
+/**
+ * License Text Matching
+ *
+ * Identifies which SPDX license a text is by comparing it with the bundled
+ * license texts, following the SPDX matching guidelines: case, whitespace,
+ * punctuation, bullets, copyright notices and replaceable fields such as
+ * "<year>" are ignored, as is the optional part of a license after
+ * "END OF TERMS AND CONDITIONS". Texts are compared as sets of word pairs,
+ * which tolerates reflowed lines and small edits.
+ */
+
+import type { SpdxExpression } from "./spdx-expression";
+import { getExpressionLicenses, parseSpdxExpression } from "./spdx-expression";
+import { getSpdxLicense, loadSpdxLicenseTexts } from "./spdx-licenses";
+
+/**
+ * How closely a text matches one license on the SPDX list.
+ */
+export interface LicenseMatch {
+  id: string;
+  name: string;
+  /** Similarity between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Result of matching a text against the SPDX list and a declared expression.
+ */
+export interface LicenseTextMatch {
+  /** Closest licenses on the SPDX list, best first */
+  matches: LicenseMatch[];
+  /**
+   * How much of the declared license text the text contains (between 0
+   * and 1), or null if the expression has no license with an SPDX text
+   * (e.g., only LicenseRef- identifiers)
+   */
+  declaredConfidence: number | null;
+  /** Whether the text matches the declared expression, or null if it cannot be checked */
+  matchesDeclared: boolean | null;
+}
+
+/**
+ * Confidence from which a text is taken to be a license.
+ */
+export const LICENSE_MATCH_THRESHOLD = 0.9;
+
+/**
+ * Number of closest licenses reported.
+ */
+const MAX_MATCHES = 3;
+
+/**
+ * Words with several accepted spellings (SPDX equivalent words list, abridged).
+ */
+const EQUIVALENT_WORDS: Record<string, string> = {
+  licence: "license",
+  licences: "licenses",
+  licencor: "licensor",
+  licenced: "licensed",
+  licencee: "licensee",
+  acknowledgement: "acknowledgment",
+  analogue: "analog",
+  authorisation: "authorization",
+  authorised: "authorized",
+  behaviour: "behavior",
+  centre: "center",
+  favour: "favor",
+  favourite: "favorite",
+  initialise: "initialize",
+  labelled: "labeled",
+  organisation: "organization",
+  organise: "organize",
+  practise: "practice",
+  recognise: "recognize",
+  sublicence: "sublicense",
+  "non-commercial": "noncommercial",
+};
+
+type Template = { id: string; pairs: Set<string> };
+
+let templates: Promise<Template[]> | null = null;
+
+/**
+ * Match a license text against the SPDX list and, optionally, the license
+ * expression it was declared as. For the declared expression, AND requires
+ * every license to be present in the text and OR requires one of them;
+ * exceptions after WITH are not compared.
+ *
+ * @param text - The license text (e.g., an uploaded LICENSE file)
+ * @param declared - The declared SPDX expression (e.g., "MIT")
+ */
+export async function matchLicenseText(text: string, declared?: string): Promise<LicenseTextMatch> {
+  const pairs = toWordPairs(text);
+  const all = await loadTemplates();
+
+  const matches = all
+    .map(template => ({
+      id: template.id,
+      confidence: dice(pairs, template.pairs),
+      license: getSpdxLicense(template.id),
+    }))
+    // Deprecated identifiers share their texts with current ones; prefer the current id
+    .sort((a, b) =>
+      b.confidence - a.confidence || Number(a.license?.deprecated) - Number(b.license?.deprecated)
+    )
+    .slice(0, MAX_MATCHES)
+    .filter(match => match.confidence > 0)
+    .map(({ id, confidence, license }) => ({ id, name: license?.name ?? id, confidence }));
+
+  let declaredConfidence: number | null = null;
+  if (declared) {
+    let expression: SpdxExpression | null = null;
+    try {
+      expression = parseSpdxExpression(declared);
+    } catch {
+      // Invalid expressions are reported by validation, not here
+    }
+    if (expression) {
+      const byId = new Map(all.map(template => [template.id, template]));
+      declaredConfidence = scoreExpression(expression, pairs, byId);
+    }
+  }
+
+  return {
+    matches,
+    declaredConfidence,
+    matchesDeclared: declaredConfidence === null ? null : declaredConfidence >= LICENSE_MATCH_THRESHOLD,
+  };
+}
+
+/**
+ * Describe a mismatch between a text and its declared expression, naming
+ * the license the text looks like.
+ *
+ * @returns A message, or null if the text matches or cannot be checked
+ */
+export function describeLicenseMismatch(result: LicenseTextMatch, declared: string): string | null {
+  if (result.matchesDeclared !== false) return null;
+
+  const declaredPercent = formatConfidence(result.declaredConfidence ?? 0);
+  const best = result.matches[0];
+  const declaredIds = getDeclaredIds(declared);
+  return best && best.confidence >= LICENSE_MATCH_THRESHOLD && !declaredIds.has(best.id)
+    ? `The text looks like ${best.id} (${formatConfidence(best.confidence)} match), not ${declared} (${declaredPercent})`
+    : `The text does not match ${declared} (${declaredPercent} of its SPDX text found)`;
+}
+
+/**
+ * Format a confidence as a whole percentage.
+ */
+export function formatConfidence(confidence: number): string {
+  return `${Math.floor(confidence * 100)}%`;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Listed identifiers of the licenses in an expression.
+ */
+function getDeclaredIds(declared: string): Set<string> {
+  try {
+    return new Set(
+      getExpressionLicenses(parseSpdxExpression(declared)).map(node => getSpdxLicense(node.id)?.id ?? node.id)
+    );
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Load and prepare the SPDX texts once.
+ */
+function loadTemplates(): Promise<Template[]> {
+  templates ??= loadSpdxLicenseTexts()
+    .then(texts => [...texts].map(([id, text]) => ({ id, pairs: toWordPairs(text, true) })))
+    .catch(error => {
+      templates = null;
+      throw error;
+    });
+  return templates;
+}
+
+/**
+ * Score a declared expression: the share of each license's word pairs
+ * found in the text, combined with min for AND and max for OR.
+ * Licenses without an SPDX text are skipped.
+ */
+function scoreExpression(
+  expression: SpdxExpression,
+  pairs: Set<string>,
+  byId: Map<string, Template>
+): number | null {
+  if (expression.type === "license") {
+    const license = getSpdxLicense(expression.id);
+    const template = license && byId.get(license.id);
+    return template ? containment(template.pairs, pairs) : null;
+  }
+
+  const left = scoreExpression(expression.left, pairs, byId);
+  const right = scoreExpression(expression.right, pairs, byId);
+  if (left === null) return right;
+  if (right === null) return left;
+  return expression.type === "and" ? Math.min(left, right) : Math.max(left, right);
+}
+
+/**
+ * Reduce a text to the set of adjacent word pairs that matching compares.
+ *
+ * @param isTemplate - Cut the optional part after "END OF TERMS AND CONDITIONS"
+ */
+function toWordPairs(text: string, isTemplate = false): Set<string> {
+  let words = text
+    .split(/\r\n|\r|\n/)
+    .filter(line => !isCopyrightLine(line))
+    .join("\n")
+    // Replaceable fields (e.g., "<year>", "<copyright holders>")
+    .replace(/<[^<>\n]{1,80}>/g, " ")
+    .toLowerCase()
+    .replace(/[‘’“”`'"]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/(^|\s)(\(?[a-z0-9]{1,3}[.)]|[-*•])(?=\s)/gm, " ")
+    .split(/[^\p{L}\p{N}-]+/u)
+    .map(word => word.replace(/^-+|-+$/g, ""))
+    .filter(Boolean)
+    .map(word => EQUIVALENT_WORDS[word] ?? word);
+
+  if (isTemplate) {
+    const end = words.findIndex((word, index) =>
+      word === "end" && words.slice(index + 1, index + 5).join(" ") === "of terms and conditions"
+    );
+    if (end > 0) words = words.slice(0, end + 5);
+  }
+
+  const pairs = new Set<string>();
+  for (let i = 0; i + 1 < words.length; i++) {
+    pairs.add(`${words[i]} ${words[i + 1]}`);
+  }
+  if (words.length === 1) pairs.add(words[0]);
+  return pairs;
+}
+
+/**
+ * Check whether a line is a copyright notice, which licenses do not share.
+ */
+function isCopyrightLine(line: string): boolean {
+  return /^\W*(copyright|\(c\)|©)/i.test(line.trim());
+}
+
+/**
+ * Similarity of two sets (Sørensen-Dice coefficient).
+ */
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  return (2 * intersectionSize(a, b)) / (a.size + b.size);
+}
+
+/**
+ * Share of `part` found in `whole`.
+ */
+function containment(part: Set<string>, whole: Set<string>): number {
+  return part.size === 0 ? 0 : intersectionSize(part, whole) / part.size;
+}
+
+/**
+ * Number of elements two sets share.
+ */
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let count = 0;
+  for (const item of small) {
+    if (large.has(item)) count++;
+  }
+  return count;
+}
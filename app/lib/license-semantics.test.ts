@@ -0,0 +1,72 @@
+/**
+ * License semantics tests: traits of expressions and how license changes are classified.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LicenseEntry } from "~/types/license-registry";
+import { classifyLicenseChange, getLicenseTraits } from "./license-semantics";
+
+/**
+ * An entry under `spdx` whose text hashes to `hash`.
+ */
+function entry(version: number, spdx: string, hash = "a"): LicenseEntry {
+  return {
+    version,
+    effective_date: "2024-01-01",
+    license: { spdx, text_path: `/licenses/v${version}.md`, text_sha256: hash.repeat(64) },
+  };
+}
+
+describe("getLicenseTraits", () => {
+  it("looks up single licenses, including -only and -or-later forms", () => {
+    assert.equal(getLicenseTraits("MIT")?.category, "permissive");
+    assert.equal(getLicenseTraits("GPL-3.0-or-later")?.category, "strong-copyleft");
+    assert.equal(getLicenseTraits("AGPL-3.0-only")?.networkClause, true);
+  });
+
+  it("takes the least restrictive choice of OR and combines the terms of AND", () => {
+    assert.equal(getLicenseTraits("MIT OR GPL-3.0-only")?.category, "permissive");
+    assert.deepEqual(getLicenseTraits("CC0-1.0 AND Apache-2.0"), {
+      category: "permissive",
+      networkClause: false,
+      patentGrant: true,
+      attribution: true,
+    });
+  });
+
+  it("gives null for unknown licenses and invalid expressions", () => {
+    assert.equal(getLicenseTraits("LicenseRef-Custom"), null);
+    assert.equal(getLicenseTraits("MIT OR LicenseRef-Custom"), null);
+    assert.equal(getLicenseTraits("MIT OR"), null);
+  });
+});
+
+describe("classifyLicenseChange", () => {
+  const kind = (from: LicenseEntry | null, to: LicenseEntry) => classifyLicenseChange(from, to).kind;
+
+  it("classifies each kind of change", () => {
+    assert.equal(kind(null, entry(1, "MIT")), "initial");
+    assert.equal(kind(entry(1, "MIT"), entry(2, "mit")), "unchanged");
+    assert.equal(kind(entry(1, "MIT"), entry(2, "MIT", "b")), "text-update");
+    assert.equal(kind(entry(1, "GPL-2.0-only"), entry(2, "GPL-3.0-only")), "version-change");
+    assert.equal(kind(entry(1, "MIT"), entry(2, "BSD-3-Clause")), "lateral");
+    assert.equal(kind(entry(1, "MIT"), entry(2, "AGPL-3.0-only")), "more-restrictive");
+    assert.equal(kind(entry(1, "GPL-3.0-only"), entry(2, "Apache-2.0")), "more-permissive");
+    assert.equal(kind(entry(1, "MIT"), entry(2, "LicenseRef-Custom")), "unknown");
+  });
+
+  it("describes the obligations that change", () => {
+    const change = classifyLicenseChange(entry(1, "MIT"), entry(2, "AGPL-3.0-only"));
+    assert.equal(change.label, "Permissive → Network copyleft");
+    assert.deepEqual(change.notes, [
+      "Adds a network clause: source must be offered to users over a network",
+      "Adds an explicit patent grant",
+    ]);
+  });
+
+  it("names the licenses missing from the knowledge base", () => {
+    const change = classifyLicenseChange(entry(1, "MIT"), entry(2, "LicenseRef-Custom"));
+    assert.deepEqual(change.notes, ["Not in the license knowledge base: LicenseRef-Custom"]);
+  });
+});
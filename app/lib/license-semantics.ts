@@ -0,0 +1,312 @@
+/**
+ * License Change Semantics
+ *
+ * What a license requires, for the licenses registries commonly use, and
+ * what changes between two registry versions: whether the project moved to
+ * a more permissive or more restrictive regime, to another version of the
+ * same license, or only updated the text of the same license.
+ */
+
+import type { LicenseEntry } from "~/types/license-registry";
+import type { SpdxExpression } from "./spdx-expression";
+import { formatSpdxExpression, getExpressionLicenses, parseSpdxExpression } from "./spdx-expression";
+import { getLicenseTexts } from "./license-text";
+import { getSpdxLicense } from "./spdx-licenses";
+
+/**
+ * How strongly a license requires derived work to stay under it, from
+ * least to most restrictive.
+ * - "public-domain": no conditions at all
+ * - "permissive": conditions such as attribution, but no copyleft
+ * - "weak-copyleft": modified files or the library stay open; larger works may use other terms
+ * - "strong-copyleft": derived works as a whole stay under the license
+ * - "network-copyleft": strong copyleft that also applies to use over a network
+ */
+export type LicenseCategory =
+  | "public-domain"
+  | "permissive"
+  | "weak-copyleft"
+  | "strong-copyleft"
+  | "network-copyleft";
+
+/**
+ * What a license or license expression requires and grants.
+ */
+export interface LicenseTraits {
+  category: LicenseCategory;
+  /** Source must be offered to users interacting over a network */
+  networkClause: boolean;
+  /** Contributors grant an explicit patent license */
+  patentGrant: boolean;
+  /** Copyright and license notices must be kept */
+  attribution: boolean;
+}
+
+/**
+ * Kind of license change between consecutive versions.
+ * - "initial": first entry, nothing to compare with
+ * - "unchanged": same license and texts
+ * - "text-update": same license expression with a new text
+ * - "version-change": another version of the same license (e.g., GPL-2.0-only → GPL-3.0-only)
+ * - "more-permissive" / "more-restrictive": moved to a less or more restrictive category
+ * - "lateral": another license in the same category (e.g., MIT → BSD-3-Clause)
+ * - "unknown": a license is not in the knowledge base (e.g., LicenseRef-)
+ */
+export type LicenseChangeKind =
+  | "initial"
+  | "unchanged"
+  | "text-update"
+  | "version-change"
+  | "more-permissive"
+  | "more-restrictive"
+  | "lateral"
+  | "unknown";
+
+/**
+ * Classified change from one entry's license to the next.
+ */
+export interface LicenseChange {
+  kind: LicenseChangeKind;
+  /** Version the change is from, or null for the first entry */
+  fromVersion: number | null;
+  toVersion: number;
+  /** Traits before the change, or null if unknown */
+  from: LicenseTraits | null;
+  /** Traits after the change, or null if unknown */
+  to: LicenseTraits | null;
+  /** Short description (e.g., "Permissive → Strong copyleft") */
+  label: string;
+  /** What changed in detail (e.g., "Adds a network clause") */
+  notes: string[];
+}
+
+/**
+ * Display labels for license categories.
+ */
+export const LICENSE_CATEGORY_LABELS: Record<LicenseCategory, string> = {
+  "public-domain": "Public domain",
+  permissive: "Permissive",
+  "weak-copyleft": "Weak copyleft",
+  "strong-copyleft": "Strong copyleft",
+  "network-copyleft": "Network copyleft",
+};
+
+const CATEGORY_ORDER: LicenseCategory[] = [
+  "public-domain",
+  "permissive",
+  "weak-copyleft",
+  "strong-copyleft",
+  "network-copyleft",
+];
+
+/**
+ * Knowledge base entry: the license family (shared across versions) and
+ * its traits.
+ */
+type KnownLicense = LicenseTraits & { family: string };
+
+const known = (
+  family: string,
+  category: LicenseCategory,
+  { networkClause = false, patentGrant = false, attribution = true } = {}
+): KnownLicense => ({ family, category, networkClause, patentGrant, attribution });
+
+/**
+ * Traits of well-known licenses, by SPDX identifier. GNU licenses are
+ * listed once for their "-only" and "-or-later" forms.
+ */
+const KNOWN_LICENSES: Record<string, KnownLicense> = {
+  "CC0-1.0": known("CC0", "public-domain", { attribution: false }),
+  "Unlicense": known("Unlicense", "public-domain", { attribution: false }),
+  "WTFPL": known("WTFPL", "public-domain", { attribution: false }),
+  "0BSD": known("0BSD", "public-domain", { attribution: false }),
+  "MIT-0": known("MIT-0", "public-domain", { attribution: false }),
+
+  "MIT": known("MIT", "permissive"),
+  "X11": known("X11", "permissive"),
+  "ISC": known("ISC", "permissive"),
+  "BSD-2-Clause": known("BSD-2-Clause", "permissive"),
+  "BSD-3-Clause": known("BSD-3-Clause", "permissive"),
+  "BSD-2-Clause-Patent": known("BSD-2-Clause-Patent", "permissive", { patentGrant: true }),
+  "Apache-1.1": known("Apache", "permissive"),
+  "Apache-2.0": known("Apache", "permissive", { patentGrant: true }),
+  "Zlib": known("Zlib", "permissive"),
+  "BSL-1.0": known("BSL", "permissive"),
+  "PostgreSQL": known("PostgreSQL", "permissive"),
+  "NCSA": known("NCSA", "permissive"),
+  "Python-2.0": known("Python", "permissive"),
+  "UPL-1.0": known("UPL", "permissive", { patentGrant: true }),
+  "BlueOak-1.0.0": known("BlueOak", "permissive", { patentGrant: true }),
+  "CC-BY-3.0": known("CC-BY", "permissive"),
+  "CC-BY-4.0": known("CC-BY", "permissive"),
+
+  "MPL-1.1": known("MPL", "weak-copyleft", { patentGrant: true }),
+  "MPL-2.0": known("MPL", "weak-copyleft", { patentGrant: true }),
+  "LGPL-2.1": known("LGPL", "weak-copyleft"),
+  "LGPL-3.0": known("LGPL", "weak-copyleft", { patentGrant: true }),
+  "EPL-1.0": known("EPL", "weak-copyleft", { patentGrant: true }),
+  "EPL-2.0": known("EPL", "weak-copyleft", { patentGrant: true }),
+  "CDDL-1.0": known("CDDL", "weak-copyleft", { patentGrant: true }),
+  "MS-RL": known("MS-RL", "weak-copyleft", { patentGrant: true }),
+
+  "GPL-2.0": known("GPL", "strong-copyleft"),
+  "GPL-3.0": known("GPL", "strong-copyleft", { patentGrant: true }),
+  "CC-BY-SA-3.0": known("CC-BY-SA", "strong-copyleft"),
+  "CC-BY-SA-4.0": known("CC-BY-SA", "strong-copyleft"),
+
+  "AGPL-3.0": known("AGPL", "network-copyleft", { networkClause: true, patentGrant: true }),
+  "OSL-3.0": known("OSL", "network-copyleft", { networkClause: true, patentGrant: true }),
+};
+
+/**
+ * Traits of a license expression. With OR the licensee may choose, so the
+ * least restrictive option applies; with AND every license applies, so
+ * the most restrictive category and every obligation apply. Exceptions
+ * after WITH are not taken into account.
+ *
+ * @returns The traits, or null if the expression is invalid or uses a license not in the knowledge base
+ */
+export function getLicenseTraits(expression: string | SpdxExpression): LicenseTraits | null {
+  let parsed: SpdxExpression;
+  try {
+    parsed = typeof expression === "string" ? parseSpdxExpression(expression) : expression;
+  } catch {
+    return null;
+  }
+
+  if (parsed.type === "license") {
+    const license = getKnownLicense(parsed.id);
+    if (!license) return null;
+    const { family: _family, ...traits } = license;
+    return traits;
+  }
+
+  const left = getLicenseTraits(parsed.left);
+  const right = getLicenseTraits(parsed.right);
+  if (!left || !right) return null;
+
+  if (parsed.type === "or") {
+    return categoryRank(left.category) <= categoryRank(right.category) ? left : right;
+  }
+  return {
+    category: categoryRank(left.category) >= categoryRank(right.category) ? left.category : right.category,
+    networkClause: left.networkClause || right.networkClause,
+    patentGrant: left.patentGrant || right.patentGrant,
+    attribution: left.attribution || right.attribution,
+  };
+}
+
+/**
+ * Classify the license change from one entry to the next.
+ *
+ * @param previous - The entry being superseded, or null for the first entry
+ * @param entry - The new entry
+ */
+export function classifyLicenseChange(previous: LicenseEntry | null, entry: LicenseEntry): LicenseChange {
+  const to = getLicenseTraits(entry.license.spdx);
+  const base = { fromVersion: previous?.version ?? null, toVersion: entry.version, to };
+
+  if (!previous) {
+    return {
+      ...base,
+      kind: "initial",
+      from: null,
+      label: to ? `Initial license: ${LICENSE_CATEGORY_LABELS[to.category]}` : "Initial license",
+      notes: [],
+    };
+  }
+
+  const from = getLicenseTraits(previous.license.spdx);
+  const result = (kind: LicenseChangeKind, label: string, notes: string[] = []): LicenseChange =>
+    ({ ...base, kind, from, label, notes });
+
+  if (canonicalExpression(previous.license.spdx) === canonicalExpression(entry.license.spdx)) {
+    const oldHashes = getLicenseTexts(previous.license).map(text => text.text_sha256.toLowerCase());
+    const newHashes = getLicenseTexts(entry.license).map(text => text.text_sha256.toLowerCase());
+    return oldHashes.join() === newHashes.join()
+      ? result("unchanged", "Same license and text")
+      : result("text-update", "Same license, new text", ["The license identifier is unchanged; only the text differs"]);
+  }
+
+  if (!from || !to) {
+    const unknown = [previous.license.spdx, entry.license.spdx]
+      .filter((spdx, index) => !(index === 0 ? from : to));
+    return result(
+      "unknown",
+      `${previous.license.spdx} → ${entry.license.spdx}`,
+      [`Not in the license knowledge base: ${unknown.join(", ")}`]
+    );
+  }
+
+  const notes = describeTraitChanges(from, to);
+  const rankChange = categoryRank(to.category) - categoryRank(from.category);
+  const categories = `${LICENSE_CATEGORY_LABELS[from.category]} → ${LICENSE_CATEGORY_LABELS[to.category]}`;
+
+  if (rankChange > 0) return result("more-restrictive", categories, notes);
+  if (rankChange < 0) return result("more-permissive", categories, notes);
+
+  const families = (spdx: string) => new Set(
+    getExpressionLicenses(parseSpdxExpression(spdx)).map(node => getKnownLicense(node.id)?.family)
+  );
+  const oldFamilies = families(previous.license.spdx);
+  const newFamilies = families(entry.license.spdx);
+  const sameFamilies = oldFamilies.size === newFamilies.size && [...oldFamilies].every(f => newFamilies.has(f));
+
+  return sameFamilies
+    ? result("version-change", `${previous.license.spdx} → ${entry.license.spdx}`, notes)
+    : result("lateral", `${previous.license.spdx} → ${entry.license.spdx} (both ${LICENSE_CATEGORY_LABELS[to.category].toLowerCase()})`, notes);
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Look up a single license identifier in the knowledge base.
+ */
+function getKnownLicense(id: string): KnownLicense | undefined {
+  const listed = getSpdxLicense(id)?.id ?? id;
+  return KNOWN_LICENSES[listed] ?? KNOWN_LICENSES[listed.replace(/-(only|or-later)$/, "")];
+}
+
+/**
+ * Position of a category from least to most restrictive.
+ */
+function categoryRank(category: LicenseCategory): number {
+  return CATEGORY_ORDER.indexOf(category);
+}
+
+/**
+ * Expression in canonical form for comparison, or the input if it does
+ * not parse. Identifiers are compared case-insensitively, as SPDX specifies.
+ */
+function canonicalExpression(spdx: string): string {
+  try {
+    return formatSpdxExpression(parseSpdxExpression(spdx)).toLowerCase();
+  } catch {
+    return spdx.toLowerCase();
+  }
+}
+
+/**
+ * Describe the obligations and grants that differ between two sets of traits.
+ */
+function describeTraitChanges(from: LicenseTraits, to: LicenseTraits): string[] {
+  const notes: string[] = [];
+  const change = (before: boolean, after: boolean, added: string, removed: string) => {
+    if (!before && after) notes.push(added);
+    if (before && !after) notes.push(removed);
+  };
+
+  change(from.networkClause, to.networkClause,
+    "Adds a network clause: source must be offered to users over a network",
+    "Removes the network clause");
+  change(from.patentGrant, to.patentGrant,
+    "Adds an explicit patent grant",
+    "Drops the explicit patent grant");
+  change(from.attribution, to.attribution,
+    "Requires keeping copyright and license notices",
+    "No longer requires attribution");
+
+  return notes;
+}
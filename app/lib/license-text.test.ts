@@ -0,0 +1,68 @@
+/**
+ * License text tests: stored files are checked as stored.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { hashLicenseText, verifyStoredLicenseText } from "./license-text";
+
+const TEXT = "MIT License\n\nPermission is hereby granted\n";
+
+/**
+ * UTF-8 bytes of a string.
+ */
+function bytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+describe("verifyStoredLicenseText", () => {
+  it("verifies a canonical file", async () => {
+    const text_sha256 = await hashLicenseText(TEXT, "lf");
+    const { verification, text } = await verifyStoredLicenseText(bytes(TEXT), { text_sha256, normalization: "lf" });
+
+    assert.equal(verification.status, "verified");
+    assert.equal(verification.actualSha256, text_sha256);
+    assert.equal(text, TEXT);
+  });
+
+  it("reports a hash mismatch", async () => {
+    const text_sha256 = await hashLicenseText(TEXT, "lf");
+    const { verification } = await verifyStoredLicenseText(bytes(`${TEXT}More\n`), { text_sha256, normalization: "lf" });
+
+    assert.equal(verification.status, "mismatch");
+  });
+
+  it("does not normalize files with CRLF line endings or a byte order mark", async () => {
+    const text_sha256 = await hashLicenseText(TEXT, "lf");
+    for (const stored of [TEXT.replace(/\n/g, "\r\n"), TEXT.replace(/\n/g, "\r"), `\uFEFF${TEXT}`]) {
+      const { verification } = await verifyStoredLicenseText(bytes(stored), { text_sha256, normalization: "lf" });
+      assert.equal(verification.status, "noncanonical", JSON.stringify(stored));
+    }
+  });
+
+  it("rejects invalid UTF-8 instead of replacing it", async () => {
+    const invalid = new Uint8Array([...bytes("MIT License "), 0xff, 0x0a]);
+    const text_sha256 = await hashLicenseText(new TextDecoder().decode(invalid), "none");
+    const { verification, text } = await verifyStoredLicenseText(invalid, { text_sha256, normalization: "none" });
+
+    assert.equal(verification.status, "noncanonical");
+    assert.equal(text, null);
+  });
+
+  it("hashes files of entries without normalization as stored", async () => {
+    const stored = `\uFEFF${TEXT.replace(/\n/g, "\r\n")}`;
+    const text_sha256 = await hashLicenseText(stored, "none");
+    const { verification } = await verifyStoredLicenseText(bytes(stored), { text_sha256 });
+
+    assert.equal(verification.status, "verified");
+  });
+
+  it("hashes only the bytes of a view into a larger buffer", async () => {
+    const text_sha256 = await hashLicenseText(TEXT, "lf");
+    const padded = bytes(`xx${TEXT}yy`);
+    const view = padded.subarray(2, padded.length - 2);
+    const { verification } = await verifyStoredLicenseText(view, { text_sha256, normalization: "lf" });
+
+    assert.equal(verification.status, "verified");
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * License Text Canonicalization
+ *
+ * License texts are hashed in a canonical form so that the same text hashes
+ * the same regardless of the editor or OS it came from. The mode is recorded
+ * per entry (`text_encoding`, `normalization`) and applied identically when
+ * creating entries, packaging the registry and verifying it. An entry can
+ * carry several texts (a main text and scoped additional texts); every one
+ * is canonicalized and hashed on its own.
+ */
+
+import type {
+  LicenseInfo,
+  LicenseTextEncoding,
+  LicenseTextVerification,
+  ScopedLicenseText,
+  TextNormalization,
+} from "~/types/license-registry";
+import { sha256, sha256Bytes } from "~/lib/hash";
+
+/**
+ * Encoding new license texts are stored in.
+ */
+export const LICENSE_TEXT_ENCODING: LicenseTextEncoding = "utf-8";
+
+/**
+ * Normalization applied to new license texts.
+ */
+export const DEFAULT_TEXT_NORMALIZATION: TextNormalization = "lf";
+
+/**
+ * One license text of an entry: the main text (whose scope is optional) or
+ * one of the additional texts.
+ */
+export type EntryLicenseText = Omit<ScopedLicenseText, "scope"> & { scope?: string };
+
+/**
+ * Get every license text of an entry, main text first.
+ */
+export function getLicenseTexts(license: LicenseInfo): EntryLicenseText[] {
+  return [
+    {
+      scope: license.scope,
+      spdx: license.spdx,
+      text_path: license.text_path,
+      text_sha256: license.text_sha256,
+      text_encoding: license.text_encoding,
+      normalization: license.normalization,
+    },
+    ...(license.additional_texts ?? []),
+  ];
+}
+
+/**
+ * Properties of raw license text bytes that the canonical form changes
+ * or cannot represent.
+ */
+export interface LicenseTextFindings {
+  /** Starts with a UTF-8 byte order mark */
+  hasBom: boolean;
+  /** Contains CRLF line endings */
+  hasCrlf: boolean;
+  /** Contains CR line endings not followed by LF */
+  hasLoneCr: boolean;
+  /** Bytes are not valid UTF-8 (invalid sequences were replaced with U+FFFD) */
+  invalidUtf8: boolean;
+}
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+/**
+ * Decode uploaded license text bytes as UTF-8 and report anything the
+ * canonical form will change. The byte order mark is kept in the returned
+ * text so normalization can decide what to do with it.
+ *
+ * @param bytes - Raw file content
+ */
+export function decodeLicenseText(bytes: ArrayBuffer | Uint8Array): {
+  text: string;
+  findings: LicenseTextFindings;
+} {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+
+  let text: string;
+  let invalidUtf8 = false;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(data);
+  } catch {
+    invalidUtf8 = true;
+    text = new TextDecoder("utf-8", { ignoreBOM: true }).decode(data);
+  }
+
+  return {
+    text,
+    findings: {
+      hasBom: UTF8_BOM.every((byte, index) => data[index] === byte),
+      ...findLineEndings(text),
+      invalidUtf8,
+    },
+  };
+}
+
+/**
+ * Describe findings as user-facing warnings.
+ *
+ * @returns One message per finding (empty if the text is already canonical)
+ */
+export function describeLicenseTextFindings(findings: LicenseTextFindings): string[] {
+  const warnings: string[] = [];
+  if (findings.invalidUtf8) {
+    warnings.push("The file is not valid UTF-8. Invalid bytes were replaced with �; re-save the file as UTF-8.");
+  }
+  if (findings.hasBom) {
+    warnings.push("The file starts with a byte order mark. It will be removed before hashing.");
+  }
+  if (findings.hasCrlf || findings.hasLoneCr) {
+    warnings.push("The file uses Windows (CRLF) or classic Mac (CR) line endings. They will be converted to LF before hashing.");
+  }
+  return warnings;
+}
+
+/**
+ * Apply a normalization mode to license text.
+ *
+ * @param text - Decoded license text
+ * @param normalization - The mode recorded in the entry
+ */
+export function normalizeLicenseText(text: string, normalization: TextNormalization): string {
+  switch (normalization) {
+    case "none":
+      return text;
+    case "lf":
+      return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  }
+}
+
+/**
+ * Check whether decoded license text is already in the canonical form of a
+ * normalization mode.
+ */
+export function isCanonicalLicenseText(text: string, normalization: TextNormalization): boolean {
+  return normalizeLicenseText(text, normalization) === text;
+}
+
+/**
+ * Describe the canonical form of a normalization mode, for messages.
+ */
+export function describeCanonicalForm(normalization: TextNormalization): string {
+  switch (normalization) {
+    case "none":
+      return "valid UTF-8";
+    case "lf":
+      return "UTF-8 without a byte order mark, with LF line endings";
+  }
+}
+
+/**
+ * Get the normalization a license text was hashed with.
+ * Entries written before normalization was recorded use "none".
+ */
+export function getTextNormalization(text: Pick<LicenseInfo, "normalization">): TextNormalization {
+  return text.normalization ?? "none";
+}
+
+/**
+ * Hash license text in its canonical form.
+ *
+ * @param text - Decoded license text
+ * @param normalization - The mode recorded in the entry
+ * @returns Hex-encoded SHA-256 of the canonical UTF-8 bytes
+ */
+export async function hashLicenseText(text: string, normalization: TextNormalization): Promise<string> {
+  return sha256(normalizeLicenseText(text, normalization));
+}
+
+/**
+ * Check a stored license text file against the hash its entry records.
+ *
+ * The bytes are hashed as stored. A file that is not valid UTF-8 or not in
+ * the canonical form of its entry's normalization is reported as
+ * "noncanonical", even if its normalized form would match: canonicalization
+ * happens when an entry is created, never when it is verified.
+ *
+ * @param bytes - Raw file content
+ * @param license - The text's entry fields
+ * @returns The result, and the decoded text if the bytes are valid UTF-8
+ */
+export async function verifyStoredLicenseText(
+  bytes: Uint8Array,
+  license: Pick<EntryLicenseText, "text_sha256" | "normalization">
+): Promise<{ verification: LicenseTextVerification; text: string | null }> {
+  const actualSha256 = await sha256Bytes(bytes);
+  const { text, findings } = decodeLicenseText(bytes);
+
+  if (findings.invalidUtf8) {
+    return { verification: { status: "noncanonical", actualSha256 }, text: null };
+  }
+  if (!isCanonicalLicenseText(text, getTextNormalization(license))) {
+    return { verification: { status: "noncanonical", actualSha256 }, text };
+  }
+
+  return {
+    verification: {
+      status: actualSha256.toLowerCase() === license.text_sha256.toLowerCase() ? "verified" : "mismatch",
+      actualSha256,
+    },
+    text,
+  };
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Find non-LF line endings in text.
+ */
+function findLineEndings(text: string): Pick<LicenseTextFindings, "hasCrlf" | "hasLoneCr"> {
+  return {
+    hasCrlf: text.includes("\r\n"),
+    hasLoneCr: /\r(?!\n)/.test(text),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Registry package tests: building on an existing entry chain.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LicenseEntry, RegistryManifest } from "~/types/license-registry";
+import { REGISTRY_SCHEMA_V1 } from "~/types/license-registry";
+import { computeEntryDigest, verifyEntryChain } from "./entry-chain";
+import { hashLicenseText } from "./license-text";
+import type { RegistryPackageData } from "./publisher";
+import {
+  buildRegistryFiles,
+  computeRegistryCid,
+  PackageValidationError,
+  previewRegistryPackage,
+  validateEntryFiles,
+} from "./publisher";
+import { normalizeRegistry } from "./registry-schema";
+
+const TEXTS = ["MIT License text\n", "Apache License text\n", "GPL text\n"];
+
+/**
+ * An unlinked entry for version `n` (1-based) with text `TEXTS[n - 1]`.
+ */
+async function makeEntry(version: number): Promise<LicenseEntry> {
+  return {
+    version,
+    effective_date: `2024-0${version}-01`,
+    license: {
+      spdx: "MIT",
+      text_path: `/licenses/v${version}.md`,
+      text_sha256: await hashLicenseText(TEXTS[version - 1], "lf"),
+      text_encoding: "utf-8",
+      normalization: "lf",
+    },
+  };
+}
+
+/**
+ * Package data for a new version built on a manifest.
+ */
+async function buildOn(manifest: RegistryManifest): Promise<RegistryPackageData> {
+  const newEntry = await makeEntry(manifest.current_version + 1);
+  return {
+    name: manifest.name,
+    newEntry,
+    licenseText: TEXTS[newEntry.version - 1],
+    previousEntries: manifest.entries,
+    previousHeadSha256: manifest.head_sha256,
+    previousLicenses: new Map(manifest.entries.map(entry => [entry.license.text_path, TEXTS[entry.version - 1]])),
+  };
+}
+
+/**
+ * A published two-entry v2 registry.
+ */
+async function publishTwoVersions(): Promise<RegistryManifest> {
+  const genesis = await buildRegistryFiles({ name: "Test", newEntry: await makeEntry(1), licenseText: TEXTS[0] });
+  return (await buildRegistryFiles(await buildOn(genesis.manifest))).manifest;
+}
+
+describe("buildRegistryFiles", () => {
+  it("keeps published links and links the new entry to the head digest", async () => {
+    const base = await publishTwoVersions();
+    const { manifest } = await buildRegistryFiles(await buildOn(base));
+
+    assert.deepEqual(manifest.entries.slice(1), base.entries);
+    assert.equal(manifest.entries[0].prev_entry_sha256, base.head_sha256);
+    assert.equal(manifest.head_sha256, await computeEntryDigest(manifest.entries[0]));
+    assert.equal((await verifyEntryChain(manifest)).valid, true);
+  });
+
+  it("refuses a base whose chain was tampered with", async () => {
+    const base = await publishTwoVersions();
+    const tampered: RegistryManifest = {
+      ...base,
+      entries: base.entries.map(entry => entry.version === 1 ? { ...entry, effective_date: "2023-01-01" } : entry),
+    };
+    const data = await buildOn(tampered);
+
+    const validation = await validateEntryFiles(data);
+    assert.equal(validation.valid, false);
+    assert.match(validation.errors.join("\n"), /v2 does not link to the digest of its predecessor/);
+    await assert.rejects(buildRegistryFiles(data), PackageValidationError);
+  });
+
+  it("refuses a base whose head digest does not match", async () => {
+    const base = await publishTwoVersions();
+    const data = await buildOn({ ...base, head_sha256: "0".repeat(64) });
+
+    await assert.rejects(buildRegistryFiles(data), PackageValidationError);
+    await assert.rejects(buildRegistryFiles({ ...data, previousHeadSha256: undefined }), PackageValidationError);
+  });
+
+  it("refuses previous texts that are not stored canonically", async () => {
+    const base = await publishTwoVersions();
+    const data = await buildOn(base);
+    data.previousLicenses?.set("/licenses/v1.md", TEXTS[0].replace("\n", "\r\n"));
+
+    const validation = await validateEntryFiles(data);
+    assert.equal(validation.valid, false);
+    assert.match(validation.errors.join("\n"), /v1: \/licenses\/v1\.md is not stored canonically/);
+  });
+
+  it("upgrades a v1 base with links derived on load", async () => {
+    const v1 = {
+      schema: REGISTRY_SCHEMA_V1,
+      name: "Test",
+      current_version: 2,
+      entries: [await makeEntry(2), await makeEntry(1)],
+    };
+    const { manifest: upgraded } = await normalizeRegistry(v1);
+    const { manifest } = await buildRegistryFiles(await buildOn(upgraded));
+
+    assert.equal(manifest.entries[0].prev_entry_sha256, upgraded.head_sha256);
+    assert.equal(manifest.entries[2].prev_entry_sha256, null);
+    assert.equal((await verifyEntryChain(manifest)).valid, true);
+  });
+
+  it("refuses to republish a v1 license id that is not an SPDX expression", async () => {
+    const genesis = await makeEntry(1);
+    const v1 = {
+      schema: REGISTRY_SCHEMA_V1,
+      name: "Test",
+      current_version: 1,
+      entries: [{ ...genesis, license: { ...genesis.license, spdx: "Custom license" } }],
+    };
+    const { manifest: upgraded } = await normalizeRegistry(v1);
+    const data = await buildOn(upgraded);
+
+    const validation = await validateEntryFiles(data);
+    assert.equal(validation.valid, false);
+    assert.match(validation.errors.join("\n"), /v1: "Custom license" is not an SPDX license expression/);
+  });
+});
+
+describe("previewRegistryPackage", () => {
+  it("shows the linked entry and the package CID", async () => {
+    const base = await publishTwoVersions();
+    const data = await buildOn(base);
+    const preview = await previewRegistryPackage(data);
+
+    assert.equal(preview.validation.valid, true);
+    assert.equal(preview.manifest?.entries[0].prev_entry_sha256, base.head_sha256);
+    assert.equal(preview.cid, await computeRegistryCid(data));
+  });
+
+  it("builds nothing for an invalid package", async () => {
+    const base = await publishTwoVersions();
+    const preview = await previewRegistryPackage(await buildOn({ ...base, head_sha256: "0".repeat(64) }));
+
+    assert.equal(preview.validation.valid, false);
+    assert.equal(preview.manifest, null);
+    assert.equal(preview.cid, null);
+  });
+});
@@ -1,11 +1,32 @@
 /**
  * Publisher Utilities
  * 
- * Creates ZIP packages for publishing license registries to IPFS.
+ * Creates ZIP and CAR packages for publishing license registries to IPFS.
  */
 
 import JSZip from "jszip";
-import type { LicenseEntry, RegistryManifest } from "~/types/license-registry";
+import type {
+  LicenseEntry,
+  LicenseTextVerification,
+  RegistryManifest,
+} from "~/types/license-registry";
+import { LATEST_REGISTRY_SCHEMA, normalizeRegistry } from "~/lib/registry-schema";
+import type { EntryChainVerification } from "~/lib/entry-chain";
+import { appendEntry, linkEntries, verifyEntryChain } from "~/lib/entry-chain";
+import type { EntryLicenseText } from "~/lib/license-text";
+import {
+  describeCanonicalForm,
+  getLicenseTexts,
+  getTextNormalization,
+  isCanonicalLicenseText,
+  verifyStoredLicenseText,
+} from "~/lib/license-text";
+import { sha256 } from "~/lib/hash";
+import { parseSpdxExpression } from "~/lib/spdx-expression";
+import { computeDirectoryCid, packDirectoryCar } from "~/lib/car";
+import type { CarPackResult, DirectoryFile } from "~/lib/car";
+import { buildArweaveManifest } from "~/lib/storage";
+import type { ArweaveManifest, DirectoryReader } from "~/lib/storage";
 
 /**
  * Data needed to create a registry package.
@@ -19,83 +40,285 @@ export interface RegistryPackageData {
   newEntry: LicenseEntry;
   /** License text content for the new entry */
   licenseText: string;
-  /** Previous entries (for including history) */
+  /** Content of the new entry's additional texts, in the order of `license.additional_texts` */
+  additionalLicenseTexts?: string[];
+  /** Previous entries (for including history), written exactly as given */
   previousEntries?: LicenseEntry[];
-  /** Previous license texts (keyed by version number) */
-  previousLicenses?: Map<number, string>;
+  /** Head digest of the registry the previous entries come from (required with them) */
+  previousHeadSha256?: string;
+  /** Previous license texts (keyed by text path, e.g., "/licenses/v1.md") */
+  previousLicenses?: Map<string, string>;
+  /**
+   * Build the package even if previous license texts are missing.
+   * The package README is marked as partial and lists what is missing.
+   */
+  partial?: boolean;
+}
+
+/**
+ * Result of checking a registry package before it is built.
+ */
+export interface PackageValidation {
+  /** Whether the package can be built */
+  valid: boolean;
+  /** One message per problem (missing texts are left out in partial mode) */
+  errors: string[];
+  /** Text paths of missing license texts (oldest version first) */
+  missing: string[];
+}
+
+/**
+ * A registry package validated and, if valid, built, for showing before
+ * it is downloaded.
+ */
+export interface RegistryPackagePreview {
+  validation: PackageValidation;
+  /** The manifest as written to registry.json, or null if the package is invalid */
+  manifest: RegistryManifest | null;
+  /** The package files, or null if the package is invalid */
+  files: DirectoryFile[] | null;
+  /** IPFS directory CID of the package, or null if the package is invalid */
+  cid: string | null;
+}
+
+/**
+ * Error thrown when a registry package fails validation.
+ */
+export class PackageValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[]
+  ) {
+    super(message);
+    this.name = "PackageValidationError";
+  }
+}
+
+/**
+ * An existing registry that a new version is built on.
+ */
+export interface RegistryBase {
+  /** The registry manifest (upgraded to the latest schema) */
+  manifest: RegistryManifest;
+  /** License texts whose hash matches their entry, keyed by text path */
+  licenses: Map<string, string>;
+  /** Hash check result for every license text, keyed by text path */
+  verification: Map<string, LicenseTextVerification>;
+  /** Text paths without a verified license text (oldest version first) */
+  missing: string[];
+}
+
+/**
+ * Load the entries and license texts of an existing registry package so a
+ * new version can be built on it. Every text is checked against its entry's
+ * hash; texts that cannot be read or do not match are left out and listed
+ * in `missing`. The new version keeps the published entry links, so a
+ * registry whose chain is broken is refused rather than relinked.
+ *
+ * @param source - The registry directory (published, or an imported ZIP/CAR)
+ * @param manifest - The already-loaded manifest; read from `source` if omitted
+ * @throws RegistrySchemaError if registry.json is invalid
+ * @throws Error if the entry chain or head digest does not verify
+ */
+export async function loadRegistryBase(
+  source: DirectoryReader,
+  manifest?: RegistryManifest
+): Promise<RegistryBase> {
+  const baseManifest = manifest
+    ?? (await normalizeRegistry(await source.readJson<unknown>("/registry.json"))).manifest;
+
+  // v1 registries were linked when upgraded; v2 links are checked as published
+  const chain = await verifyEntryChain(baseManifest);
+  if (!chain.valid) {
+    throw new Error(`Cannot build on this registry: ${describeChainFailure(chain)}`);
+  }
+
+  const licenses = new Map<string, string>();
+  const verification = new Map<string, LicenseTextVerification>();
+
+  for (const license of baseManifest.entries.flatMap(entry => getLicenseTexts(entry.license))) {
+    let bytes: Uint8Array;
+    try {
+      bytes = await source.readFile(license.text_path);
+    } catch (error) {
+      verification.set(license.text_path, {
+        status: "unavailable",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const { verification: result, text } = await verifyStoredLicenseText(bytes, license);
+    verification.set(license.text_path, result);
+    if (result.status === "verified" && text !== null) {
+      licenses.set(license.text_path, text);
+    }
+  }
+
+  return {
+    manifest: baseManifest,
+    licenses,
+    verification,
+    missing: findMissingLicenseTexts(baseManifest.entries, licenses),
+  };
+}
+
+/**
+ * List the text paths of license texts that are not available.
+ *
+ * @returns Missing text paths, oldest version first
+ */
+export function findMissingLicenseTexts(
+  entries: LicenseEntry[],
+  licenses: Map<string, string> | undefined
+): string[] {
+  return [...entries]
+    .sort((a, b) => a.version - b.version)
+    .flatMap(entry => getLicenseTexts(entry.license))
+    .map(license => license.text_path)
+    .filter(path => !licenses?.has(path));
 }
 
 /**
  * Generate the license file path for a given version.
  * Uses versioned naming to avoid conflicts: /licenses/v1.md, /licenses/v2.md, etc.
+ * Additional texts of an entry are numbered from 2: /licenses/v3-2.md, ...
+ *
+ * @param version - The entry version
+ * @param index - Position of the text in the entry (0 = main text)
  */
-export function getLicenseFilePath(version: number): string {
-  return `/licenses/v${version}.md`;
+export function getLicenseFilePath(version: number, index = 0): string {
+  return index === 0 ? `/licenses/v${version}.md` : `/licenses/v${version}-${index + 1}.md`;
 }
 
 /**
- * Create a complete registry ZIP package.
+ * Collect the package's license files.
+ * Texts are written as given; validation has checked that each is already
+ * in the canonical form its entry was hashed in, so the stored bytes are
+ * exactly the hashed bytes.
+ */
+function collectLicenseFiles(data: RegistryPackageData): DirectoryFile[] {
+  const licenseFiles: DirectoryFile[] = [];
+
+  // Add the new entry's licenses at the paths its entry points to
+  const newTexts = getNewEntryTexts(data);
+  for (const license of getLicenseTexts(data.newEntry.license)) {
+    licenseFiles.push({
+      path: toPackagePath(license.text_path),
+      content: newTexts.get(license.text_path) ?? "",
+    });
+  }
+
+  // Add previous licenses if available
+  for (const entry of data.previousEntries ?? []) {
+    for (const license of getLicenseTexts(entry.license)) {
+      const text = data.previousLicenses?.get(license.text_path);
+      if (text !== undefined) {
+        licenseFiles.push({
+          path: toPackagePath(license.text_path),
+          content: text,
+        });
+      }
+    }
+  }
+
+  return licenseFiles;
+}
+
+/**
+ * Build the files that make up a registry package.
+ * The ZIP and CAR outputs are both generated from this list, so they always
+ * contain identical bytes.
+ * 
+ * Entries are hash-linked (schema v2). Previous entries keep their links and
+ * the new entry is linked to the previous head digest; a v1 base was linked
+ * when it was upgraded on load, so building on it upgrades it to v2.
  * 
  * Structure:
  * /registry.json       - Manifest with all entries inline
  * /licenses/v1.md      - License text for version 1
  * /licenses/v2.md      - License text for version 2
- * ...
+ * /README.md           - Human-readable overview
+ * 
+ * @throws PackageValidationError if a license text is missing or does not
+ *         match its hash (missing texts are allowed in partial mode), or the
+ *         previous entries do not form a valid chain
  */
-export async function createRegistryPackage(data: RegistryPackageData): Promise<Blob> {
-  const zip = new JSZip();
-  
-  // Create licenses folder
-  const licensesFolder = zip.folder("licenses");
-
-  if (!licensesFolder) {
-    throw new Error("Failed to create ZIP folders");
+export async function buildRegistryFiles(data: RegistryPackageData): Promise<{
+  manifest: RegistryManifest;
+  files: DirectoryFile[];
+}> {
+  const validation = await validateEntryFiles(data);
+  if (!validation.valid) {
+    throw new PackageValidationError(
+      `Registry package is incomplete: ${validation.errors.length} ${validation.errors.length === 1 ? "problem" : "problems"} found`,
+      validation.errors
+    );
   }
 
-  // Add the new entry's license with versioned filename
-  const licenseFileName = `v${data.newEntry.version}.md`;
-  licensesFolder.file(licenseFileName, data.licenseText);
-
-  // Build entries array (newest first)
-  const allEntries: LicenseEntry[] = [data.newEntry];
-
-  // Add previous entries and their licenses if provided
-  if (data.previousEntries) {
-    for (const entry of data.previousEntries) {
-      // Add to entries array
-      allEntries.push(entry);
-      
-      // Add previous license if available
-      if (data.previousLicenses?.has(entry.version)) {
-        const prevLicenseFileName = `v${entry.version}.md`;
-        licensesFolder.file(prevLicenseFileName, data.previousLicenses.get(entry.version)!);
-      }
-    }
+  return writeRegistryFiles(data, validation);
+}
+
+/**
+ * Validate a registry package and, if it is valid, build its files and
+ * compute its directory CID, all from a single build.
+ */
+export async function previewRegistryPackage(data: RegistryPackageData): Promise<RegistryPackagePreview> {
+  const validation = await validateEntryFiles(data);
+  if (!validation.valid) {
+    return { validation, manifest: null, files: null, cid: null };
   }
 
-  // Sort entries by version (newest first)
-  allEntries.sort((a, b) => b.version - a.version);
+  const { manifest, files } = await writeRegistryFiles(data, validation);
+  return { validation, manifest, files, cid: await computeDirectoryCid(files) };
+}
+
+/**
+ * Write the files of a validated registry package.
+ */
+async function writeRegistryFiles(data: RegistryPackageData, validation: PackageValidation): Promise<{
+  manifest: RegistryManifest;
+  files: DirectoryFile[];
+}> {
+  const files = collectLicenseFiles(data);
+  const { entries: allEntries, headDigest } = data.previousEntries?.length
+    ? await appendEntry(data.previousEntries, data.previousHeadSha256 ?? "", data.newEntry)
+    : await linkEntries([data.newEntry]);
 
   // Create manifest with all entries inline
   const manifest: RegistryManifest = {
-    schema: "commonground-license-registry/v1",
+    schema: LATEST_REGISTRY_SCHEMA,
     name: data.name,
     description: data.description,
     current_version: data.newEntry.version,
+    head_sha256: headDigest,
     entries: allEntries,
   };
 
-  zip.file("registry.json", JSON.stringify(manifest, null, 2));
+  files.push({ path: "registry.json", content: JSON.stringify(manifest, null, 2) });
+
+  // Partial packages must say so before anything else
+  const partialNotice = validation.missing.length > 0
+    ? `
+> **PARTIAL PACKAGE - NOT A COMPLETE REGISTRY**
+>
+> This package was built in partial mode and does not include the license
+> texts ${validation.missing.join(", ")}.
+> \`registry.json\` still lists those entries, so their hashes cannot be
+> checked from this package and verifiers will report the missing files.
+> Do not publish it as the official registry.
+`
+    : "";
 
   // Add a README for human readers
   const readme = `# License Registry
 
 This package contains the license registry for ${data.name}.
-
+${partialNotice}
 ## Structure
 
 - \`registry.json\` - Registry manifest with all entries inline
-- \`licenses/\` - License text files (v1.md, v2.md, ...)
+- \`licenses/\` - License text files (v1.md, v2.md, ...; further texts of an entry as v3-2.md, ...)
 
 ## Current Version
 
@@ -104,18 +327,36 @@ Effective: ${data.newEntry.effective_date}
 
 ## All Versions
 
-${allEntries.map(e => `- v${e.version}: ${e.license.spdx} (effective ${e.effective_date})`).join('\n')}
-
+${allEntries.map(e => [
+  `- v${e.version}: ${e.license.spdx} (effective ${e.effective_date})`,
+  ...(e.license.additional_texts?.length
+    ? getLicenseTexts(e.license).map(t => `  - ${t.scope ?? "Main"}: ${t.spdx} (${t.text_path})`)
+    : []),
+].join('\n')).join('\n')}
+${formatChangelog(allEntries)}
 ## Verification
 
-Each entry contains SHA-256 hashes of the license text for integrity verification.
+Each entry contains SHA-256 hashes of its license texts for integrity verification.
+Licenses are SPDX license expressions (e.g., \`MIT OR Apache-2.0\`); an entry can have
+additional texts, each labelled with the scope it covers.
+Texts are UTF-8. Entries with \`normalization: "lf"\` were hashed after removing a
+leading byte order mark and converting CRLF/CR line endings to LF; the files in
+/licenses/ are stored in that form.
+Entries are hash-linked: each one records the SHA-256 of the previous entry's
+canonical JSON (\`prev_entry_sha256\`), and \`head_sha256\` in the manifest is the
+digest of the newest entry. Changing any past entry breaks every link after it.
+
+Head digest: \`${headDigest}\`
+
 Trust is established through the DAO governance vote that updates the ENS contenthash.
 
 ## Publishing
 
 To publish this registry:
-1. Upload this entire folder to IPFS (e.g., via web3.storage, Pinata, or ipfs add -r)
-2. Note the resulting CID
+1. Upload the CAR file produced alongside this package to IPFS (e.g., via web3.storage,
+   Pinata, or \`ipfs dag import\`). Uploading the CAR preserves the precomputed CID;
+   re-adding the extracted folder may produce a different CID depending on the tool.
+2. Check that the resulting CID matches the one shown by the publisher
 3. Propose a DAO governance vote to update the ENS contenthash
 4. Once approved and executed, the registry becomes official
 
@@ -126,14 +367,83 @@ To verify/fetch this registry:
 2. Fetch \`/registry.json\` from that CID
 3. All entries are inline in the manifest
 4. Verify license text SHA-256 hashes match the files in /licenses/
+5. Verify the entry hash chain up to \`head_sha256\`
 `;
 
-  zip.file("README.md", readme);
+  files.push({ path: "README.md", content: readme });
+
+  return { manifest, files };
+}
+
+/**
+ * Create a complete registry ZIP package.
+ */
+export async function createRegistryPackage(data: RegistryPackageData): Promise<Blob> {
+  const zip = new JSZip();
+  const { files } = await buildRegistryFiles(data);
+
+  for (const file of files) {
+    zip.file(file.path, file.content);
+  }
 
   // Generate the ZIP
   return zip.generateAsync({ type: "blob" });
 }
 
+/**
+ * Create a CARv1 archive of the registry package.
+ * The returned CID is the IPFS directory CID the package will have once
+ * the CAR is uploaded, and is what goes into the governance proposal.
+ */
+export async function createRegistryCar(data: RegistryPackageData): Promise<CarPackResult> {
+  const { files } = await buildRegistryFiles(data);
+  return packDirectoryCar(files);
+}
+
+/**
+ * Compute the IPFS directory CID of the registry package without
+ * generating the CAR bytes.
+ */
+export async function computeRegistryCid(data: RegistryPackageData): Promise<string> {
+  const { files } = await buildRegistryFiles(data);
+  return computeDirectoryCid(files);
+}
+
+/**
+ * List the file paths of a registry package (relative, no leading slash).
+ */
+export function getRegistryFilePaths(data: RegistryPackageData): string[] {
+  return [...collectLicenseFiles(data).map(file => file.path), "registry.json", "README.md"].sort();
+}
+
+/**
+ * Build an Arweave path manifest for the registry package.
+ * 
+ * Arweave has no directory upload: each package file is uploaded as its own
+ * transaction, and the manifest maps package paths to those transactions.
+ * The manifest's own transaction ID is the registry reference ("ar://...").
+ * 
+ * @param data - The package data
+ * @param txIds - Transaction ID for each package path
+ * @throws Error if any package file has no transaction ID
+ */
+export function createArweaveManifest(
+  data: RegistryPackageData,
+  txIds: Record<string, string>
+): ArweaveManifest {
+  const paths = getRegistryFilePaths(data);
+  const missing = paths.filter(path => !txIds[path]);
+
+  if (missing.length > 0) {
+    throw new Error(`Missing Arweave transaction IDs for: ${missing.join(", ")}`);
+  }
+
+  return buildArweaveManifest(
+    Object.fromEntries(paths.map(path => [path, txIds[path]])),
+    "registry.json"
+  );
+}
+
 /**
  * Download a blob as a file.
  */
@@ -151,26 +461,180 @@ export function downloadBlob(blob: Blob, filename: string): void {
 /**
  * Generate a filename for the registry package.
  */
-export function generatePackageFilename(name: string, version: number): string {
+export function generatePackageFilename(
+  name: string,
+  version: number,
+  extension: "zip" | "car" | "arweave.json" = "zip"
+): string {
   const safeName = name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
   const timestamp = new Date().toISOString().split("T")[0];
-  return `${safeName}-registry-v${version}-${timestamp}.zip`;
+  return `${safeName}-registry-v${version}-${timestamp}.${extension}`;
 }
 
 /**
- * Validate that all required files are present.
+ * Check a registry package before it is built: every entry in the manifest
+ * needs its license text, and every text must be in canonical form and
+ * match its entry's `text_sha256`. Missing texts are only accepted in
+ * partial mode.
  */
-export function validateEntryFiles(files: {
-  licenseText?: string;
-}): { valid: boolean; errors: string[] } {
+export async function validateEntryFiles(data: RegistryPackageData): Promise<PackageValidation> {
   const errors: string[] = [];
+  const missing: { version: number; path: string }[] = [];
+
+  const check = async (entry: LicenseEntry, license: EntryLicenseText, text: string | undefined) => {
+    const path = license.text_path;
+    const label = `v${entry.version}${license.scope ? ` (${license.scope})` : ""}`;
+    if (!text) {
+      missing.push({ version: entry.version, path });
+      if (!data.partial) {
+        errors.push(`${label}: license text ${path} is missing`);
+      }
+      return;
+    }
+
+    // Texts are stored as given, so they must already be canonical
+    const normalization = getTextNormalization(license);
+    if (!isCanonicalLicenseText(text, normalization)) {
+      errors.push(`${label}: ${path} is not stored canonically (expected ${describeCanonicalForm(normalization)})`);
+      return;
+    }
+
+    const actualSha256 = await sha256(text);
+    if (actualSha256.toLowerCase() !== license.text_sha256.toLowerCase()) {
+      errors.push(
+        `${label}: ${path} does not match text_sha256 ` +
+        `(expected ${license.text_sha256}, got ${actualSha256})`
+      );
+    }
+  };
+
+  const newTexts = getNewEntryTexts(data);
+  for (const license of getLicenseTexts(data.newEntry.license)) {
+    const text = newTexts.get(license.text_path);
+    if (!text) {
+      errors.push(`v${data.newEntry.version}${license.scope ? ` (${license.scope})` : ""}: License text is required`);
+    } else {
+      await check(data.newEntry, license, text);
+    }
+  }
 
-  if (!files.licenseText) {
-    errors.push("License text is required");
+  for (const entry of data.previousEntries ?? []) {
+    for (const license of getLicenseTexts(entry.license)) {
+      await check(entry, license, data.previousLicenses?.get(license.text_path));
+
+      // registry.json is written in the latest schema, which only accepts
+      // SPDX expressions; v1 entries may carry free text
+      try {
+        parseSpdxExpression(license.spdx);
+      } catch {
+        errors.push(
+          `v${entry.version}${license.scope ? ` (${license.scope})` : ""}: ` +
+          `"${license.spdx}" is not an SPDX license expression and cannot be republished as ${LATEST_REGISTRY_SCHEMA}`
+        );
+      }
+    }
   }
 
+  // Published links are kept, so the history must already be a valid chain
+  if (data.previousEntries?.length) {
+    const chain = await verifyEntryChain({
+      entries: data.previousEntries,
+      head_sha256: data.previousHeadSha256,
+    });
+    if (!chain.valid) {
+      errors.push(`Previous entries: ${describeChainFailure(chain)}`);
+    }
+  }
+
+  // Two texts written to the same file would overwrite each other
+  const paths = new Map<string, number>();
+  for (const entry of [data.newEntry, ...(data.previousEntries ?? [])]) {
+    for (const license of getLicenseTexts(entry.license)) {
+      const path = toPackagePath(license.text_path);
+      const other = paths.get(path);
+      if (other !== undefined) {
+        errors.push(
+          `v${entry.version}: ${license.text_path} is also used by ` +
+          `${other === entry.version ? "another text of this entry" : `v${other}`}`
+        );
+      }
+      paths.set(path, entry.version);
+    }
+  }
+
+  missing.sort((a, b) => a.version - b.version);
+
   return {
     valid: errors.length === 0,
     errors,
+    missing: missing.map(text => text.path),
   };
 }
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Map the new entry's text paths to their content.
+ */
+function getNewEntryTexts(data: RegistryPackageData): Map<string, string> {
+  const [main, ...additional] = getLicenseTexts(data.newEntry.license);
+  const texts = new Map([[main.text_path, data.licenseText]]);
+  additional.forEach((license, index) => {
+    const text = data.additionalLicenseTexts?.[index];
+    if (text !== undefined) texts.set(license.text_path, text);
+  });
+  return texts;
+}
+
+/**
+ * Summarize why an entry chain failed to verify.
+ */
+function describeChainFailure(chain: EntryChainVerification): string {
+  return chain.checks
+    .filter(check => !check.passed)
+    .map(check => check.error ?? check.description)
+    .join("; ");
+}
+
+/**
+ * Build the README's changelog section from the entries' metadata
+ * (changelog, governance reference, Safe transaction, authors).
+ * Empty if no entry has any.
+ */
+function formatChangelog(entries: LicenseEntry[]): string {
+  const sections = entries.flatMap(entry => {
+    const lines: string[] = [];
+    const governance = entry.governance;
+    if (governance?.snapshot_id) {
+      lines.push(`- Snapshot proposal: \`${governance.snapshot_id}\``);
+    }
+    if (governance?.governor_proposal_id) {
+      lines.push(`- Governor proposal: \`${governance.governor_proposal_id}\` (chain ${governance.chain_id})`);
+    }
+    if (entry.safe_tx_hash) {
+      lines.push(`- Safe transaction: \`${entry.safe_tx_hash}\``);
+    }
+    if (entry.authors?.length) {
+      lines.push(`- Authors: ${entry.authors.map(a => a.address ? `${a.name} (\`${a.address}\`)` : a.name).join(", ")}`);
+    }
+    if (!entry.changelog && lines.length === 0) return [];
+
+    return [[
+      `### v${entry.version}`,
+      ...(entry.changelog ? ["", entry.changelog.trim()] : []),
+      ...(lines.length > 0 ? ["", ...lines] : []),
+    ].join("\n")];
+  });
+
+  return sections.length > 0 ? `\n## Changelog\n\n${sections.join("\n\n")}\n` : "";
+}
+
+/**
+ * Convert an entry's text path ("/licenses/v1.md") to a package file path
+ * ("licenses/v1.md").
+ */
+function toPackagePath(textPath: string): string {
+  return textPath.replace(/^\/+/, "");
+}
@@ -0,0 +1,63 @@
+/**
+ * Registry schema tests: license identifiers per schema version.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { REGISTRY_SCHEMA_V1, REGISTRY_SCHEMA_V2 } from "~/types/license-registry";
+import { normalizeRegistry, RegistrySchemaError, validateRegistryManifest } from "./registry-schema";
+
+const TEXT_SHA256 = "a".repeat(64);
+
+/**
+ * A v1 registry.json whose only entry has a free-text license id, as
+ * written before identifiers were checked.
+ */
+const V1_FREE_TEXT = {
+  schema: REGISTRY_SCHEMA_V1,
+  name: "Test",
+  current_version: 1,
+  entries: [
+    {
+      version: 1,
+      effective_date: "2024-01-01",
+      license: {
+        spdx: "Custom license",
+        text_path: "/licenses/v1.md",
+        text_sha256: TEXT_SHA256,
+      },
+    },
+  ],
+};
+
+describe("normalizeRegistry", () => {
+  it("loads a v1 registry with a license id that is not an SPDX expression", async () => {
+    const { manifest, sourceSchema, upgraded } = await normalizeRegistry(V1_FREE_TEXT);
+
+    assert.equal(sourceSchema, REGISTRY_SCHEMA_V1);
+    assert.equal(upgraded, true);
+    assert.equal(manifest.entries[0].license.spdx, "Custom license");
+  });
+
+  it("rejects a license id that is not an SPDX expression from v2 on", async () => {
+    const v2 = {
+      ...V1_FREE_TEXT,
+      schema: REGISTRY_SCHEMA_V2,
+      head_sha256: TEXT_SHA256,
+      entries: V1_FREE_TEXT.entries.map(entry => ({ ...entry, prev_entry_sha256: null })),
+    };
+
+    const issues = validateRegistryManifest(v2);
+    assert.deepEqual(issues.map(issue => issue.path), ["/entries/0/license/spdx"]);
+    await assert.rejects(normalizeRegistry(v2), RegistrySchemaError);
+  });
+
+  it("still requires a string license id in v1", () => {
+    const invalid = {
+      ...V1_FREE_TEXT,
+      entries: [{ ...V1_FREE_TEXT.entries[0], license: { ...V1_FREE_TEXT.entries[0].license, spdx: 42 } }],
+    };
+
+    assert.deepEqual(validateRegistryManifest(invalid).map(issue => issue.path), ["/entries/0/license/spdx"]);
+  });
+});
@@ -0,0 +1,569 @@
+/**
+ * Registry Schema Registry
+ *
+ * Validators for each published registry.json schema, upgrade functions
+ * between schemas, and normalization into the in-memory model used by the
+ * viewer, creator and verifier. Old CIDs stay readable as the format evolves.
+ *
+ * Validation is strict: beyond field types, versions must be unique,
+ * contiguous and ordered newest first, dates must be ISO 8601, licenses must
+ * be SPDX expressions, and license paths must stay inside /licenses/.
+ * Every issue is addressed by JSON pointer.
+ */
+
+import type {
+  LicenseTextEncoding,
+  NormalizedRegistry,
+  RegistryManifest,
+  RegistrySchema,
+  SchemaIssue,
+  TextNormalization,
+} from "~/types/license-registry";
+import { REGISTRY_SCHEMA_V1, REGISTRY_SCHEMA_V2 } from "~/types/license-registry";
+import { linkEntries } from "~/lib/entry-chain";
+import { isAddress, isHash } from "viem";
+import { isValidSha256 } from "~/lib/hash";
+import { parseSpdxExpression, SpdxExpressionError } from "~/lib/spdx-expression";
+
+/**
+ * Schema that new registries are written in and that all manifests are
+ * upgraded to in memory.
+ */
+export const LATEST_REGISTRY_SCHEMA: RegistrySchema = REGISTRY_SCHEMA_V2;
+
+/**
+ * Directory that license texts must live in.
+ */
+const LICENSE_DIRECTORY = "/licenses/";
+
+/**
+ * Accepted values of `license.text_encoding` and `license.normalization`.
+ */
+const TEXT_ENCODINGS: string[] = ["utf-8"] satisfies LicenseTextEncoding[];
+const TEXT_NORMALIZATIONS: string[] = ["none", "lf"] satisfies TextNormalization[];
+
+/**
+ * Definition of one registry schema version.
+ */
+export interface SchemaDefinition {
+  /** Schema identifier as written in registry.json */
+  id: RegistrySchema;
+  /** Ordinal version (1, 2, ...) */
+  version: number;
+  /** Whether entries are hash-linked */
+  hashLinked: boolean;
+  /** Whether license ids must parse as SPDX license expressions */
+  strictSpdx: boolean;
+  /** Validate a parsed registry.json against this schema */
+  validate: (value: unknown) => SchemaIssue[];
+  /** Upgrade a valid manifest of this schema to the next schema */
+  upgrade?: (manifest: RegistryManifest) => Promise<RegistryManifest>;
+}
+
+/**
+ * Error raised when registry.json does not match its declared schema.
+ */
+export class RegistrySchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = "RegistrySchemaError";
+  }
+}
+
+/**
+ * Schema properties that change how entries are validated.
+ */
+type SchemaRules = Pick<SchemaDefinition, "hashLinked" | "strictSpdx">;
+
+/**
+ * Known schemas, oldest first.
+ */
+const SCHEMAS: SchemaDefinition[] = [
+  {
+    id: REGISTRY_SCHEMA_V1,
+    version: 1,
+    hashLinked: false,
+    strictSpdx: false,
+    validate: value => validateManifest(value, { hashLinked: false, strictSpdx: false }),
+    upgrade: upgradeV1ToV2,
+  },
+  {
+    id: REGISTRY_SCHEMA_V2,
+    version: 2,
+    hashLinked: true,
+    strictSpdx: true,
+    validate: value => validateManifest(value, { hashLinked: true, strictSpdx: true }),
+  },
+];
+
+/**
+ * Get the definition of a schema.
+ *
+ * @returns The definition, or null if the schema is unknown
+ */
+export function getSchemaDefinition(schema: string): SchemaDefinition | null {
+  return SCHEMAS.find(definition => definition.id === schema) ?? null;
+}
+
+/**
+ * Validate a parsed registry.json against its declared schema.
+ *
+ * @param value - The parsed JSON
+ * @returns All issues found (empty if valid)
+ */
+export function validateRegistryManifest(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) {
+    return [{ path: "", message: "Registry must be a JSON object" }];
+  }
+
+  const definition = typeof value.schema === "string"
+    ? getSchemaDefinition(value.schema)
+    : null;
+  if (!definition) {
+    return [{ path: "/schema", message: `Unknown registry schema: ${String(value.schema)}` }];
+  }
+
+  return definition.validate(value);
+}
+
+/**
+ * Upgrade a valid manifest to the latest schema.
+ * Each step is applied in order, so v1 → v2 → ... → latest.
+ */
+export async function upgradeManifest(manifest: RegistryManifest): Promise<RegistryManifest> {
+  let current = manifest;
+  let definition = getSchemaDefinition(current.schema);
+
+  while (definition && definition.id !== LATEST_REGISTRY_SCHEMA) {
+    if (!definition.upgrade) {
+      throw new Error(`No upgrade path from ${definition.id}`);
+    }
+    current = await definition.upgrade(current);
+    definition = getSchemaDefinition(current.schema);
+  }
+
+  return current;
+}
+
+/**
+ * Validate a parsed registry.json and normalize it into the in-memory model.
+ *
+ * @param value - The parsed JSON
+ * @throws RegistrySchemaError if the registry is invalid for its schema
+ */
+export async function normalizeRegistry(value: unknown): Promise<NormalizedRegistry> {
+  const issues = validateRegistryManifest(value);
+  if (issues.length > 0) {
+    throw new RegistrySchemaError(`Invalid registry.json: ${formatSchemaIssues(issues)}`, issues);
+  }
+
+  const published = value as RegistryManifest;
+  const manifest = await upgradeManifest(published);
+
+  return {
+    manifest,
+    sourceSchema: published.schema,
+    upgraded: manifest !== published,
+  };
+}
+
+/**
+ * Format issues as "<pointer> <message>" pairs for display.
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(formatSchemaIssue).join("; ");
+}
+
+/**
+ * Format a single issue as "<pointer> <message>".
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path || "/"} ${issue.message}`;
+}
+
+/**
+ * Check whether a schema hash-links its entries.
+ */
+export function isHashLinkedSchema(schema: RegistrySchema): boolean {
+  return getSchemaDefinition(schema)?.hashLinked ?? false;
+}
+
+/**
+ * Compare two schemas by version.
+ *
+ * @returns Negative if `a` is older, positive if newer, 0 if equal
+ */
+export function compareSchemas(a: RegistrySchema, b: RegistrySchema): number {
+  return (getSchemaDefinition(a)?.version ?? 0) - (getSchemaDefinition(b)?.version ?? 0);
+}
+
+// ============================================
+// Upgrades
+// ============================================
+
+/**
+ * v1 → v2: compute entry links and the head digest.
+ * The links are derived locally; they match what the creator writes when
+ * the registry is next published, so the upgrade is reproducible.
+ */
+async function upgradeV1ToV2(manifest: RegistryManifest): Promise<RegistryManifest> {
+  const { entries, headDigest } = await linkEntries(manifest.entries);
+  return {
+    ...manifest,
+    schema: REGISTRY_SCHEMA_V2,
+    head_sha256: headDigest,
+    entries,
+  };
+}
+
+// ============================================
+// Validators
+// ============================================
+
+/**
+ * Structural validation shared by all schemas.
+ */
+function validateManifest(value: unknown, rules: SchemaRules): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (!isObject(value)) {
+    return [{ path: "", message: "Registry must be a JSON object" }];
+  }
+
+  if (typeof value.name !== "string") {
+    issues.push({ path: "/name", message: "must be a string" });
+  } else if (value.name.trim() === "") {
+    issues.push({ path: "/name", message: "must not be empty" });
+  }
+  if (value.description !== undefined && typeof value.description !== "string") {
+    issues.push({ path: "/description", message: "must be a string" });
+  }
+  if (!Number.isInteger(value.current_version)) {
+    issues.push({ path: "/current_version", message: "must be an integer" });
+  }
+
+  if (rules.hashLinked) {
+    if (typeof value.head_sha256 !== "string" || !isValidSha256(value.head_sha256)) {
+      issues.push({ path: "/head_sha256", message: "must be a SHA-256 hex digest" });
+    }
+  } else if (value.head_sha256 !== undefined) {
+    issues.push({ path: "/head_sha256", message: "is not part of this schema" });
+  }
+
+  if (!Array.isArray(value.entries)) {
+    issues.push({ path: "/entries", message: "must be an array" });
+    return issues;
+  }
+  if (value.entries.length === 0) {
+    issues.push({ path: "/entries", message: "must contain at least one entry" });
+  }
+
+  value.entries.forEach((entry, index) => {
+    issues.push(...validateEntry(entry, `/entries/${index}`, rules));
+  });
+
+  issues.push(...validateVersions(value.entries, value.current_version));
+
+  return issues;
+}
+
+/**
+ * Check that entry versions are unique, contiguous, ordered newest first,
+ * and that `current_version` names the newest entry.
+ * Entries whose version is not an integer are already reported and skipped.
+ */
+function validateVersions(entries: unknown[], currentVersion: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const versions = entries.map(entry =>
+    isObject(entry) && Number.isInteger(entry.version) ? entry.version as number : null
+  );
+
+  const firstIndex = new Map<number, number>();
+  versions.forEach((version, index) => {
+    if (version === null) return;
+
+    if (version < 1) {
+      issues.push({ path: `/entries/${index}/version`, message: "must be at least 1" });
+    }
+
+    const duplicateOf = firstIndex.get(version);
+    if (duplicateOf !== undefined) {
+      issues.push({
+        path: `/entries/${index}/version`,
+        message: `duplicates version ${version} at /entries/${duplicateOf}`,
+      });
+    } else {
+      firstIndex.set(version, index);
+    }
+
+    const previous = index > 0 ? versions[index - 1] : null;
+    if (previous !== null && version > previous) {
+      issues.push({
+        path: `/entries/${index}/version`,
+        message: `must be lower than the preceding entry (v${previous}); entries are ordered newest first`,
+      });
+    }
+  });
+
+  const present = [...firstIndex.keys()].sort((a, b) => a - b);
+  const gaps: string[] = [];
+  for (let i = 1; i < present.length; i++) {
+    const from = present[i - 1] + 1;
+    const to = present[i] - 1;
+    if (from === to) {
+      gaps.push(`v${from}`);
+    } else if (from < to) {
+      gaps.push(`v${from}-v${to}`);
+    }
+  }
+  if (gaps.length > 0) {
+    issues.push({
+      path: "/entries",
+      message: `versions must be contiguous; missing ${gaps.join(", ")}`,
+    });
+  }
+
+  const newest = versions[0];
+  if (Number.isInteger(currentVersion) && newest !== null && newest !== undefined && currentVersion !== newest) {
+    issues.push({
+      path: "/current_version",
+      message: `must equal the newest entry's version (${newest}), got ${currentVersion}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Structural validation of a single entry.
+ */
+function validateEntry(value: unknown, path: string, rules: SchemaRules): SchemaIssue[] {
+  if (!isObject(value)) {
+    return [{ path, message: "must be an object" }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (!Number.isInteger(value.version)) {
+    issues.push({ path: `${path}/version`, message: "must be an integer" });
+  }
+  if (typeof value.effective_date !== "string") {
+    issues.push({ path: `${path}/effective_date`, message: "must be a string" });
+  } else if (!isIsoDate(value.effective_date)) {
+    issues.push({
+      path: `${path}/effective_date`,
+      message: `must be an ISO 8601 date (YYYY-MM-DD or date-time), got "${value.effective_date}"`,
+    });
+  }
+
+  if (!isObject(value.license)) {
+    issues.push({ path: `${path}/license`, message: "must be an object" });
+  } else {
+    const license = value.license;
+    issues.push(...validateLicenseText(license, `${path}/license`, rules.strictSpdx));
+
+    if (license.scope !== undefined && (typeof license.scope !== "string" || license.scope.trim() === "")) {
+      issues.push({ path: `${path}/license/scope`, message: "must be a non-empty string" });
+    }
+
+    if (license.additional_texts !== undefined) {
+      if (!Array.isArray(license.additional_texts)) {
+        issues.push({ path: `${path}/license/additional_texts`, message: "must be an array" });
+      } else {
+        const textPaths = new Set([license.text_path]);
+        license.additional_texts.forEach((text: unknown, index) => {
+          const textPath = `${path}/license/additional_texts/${index}`;
+          if (!isObject(text)) {
+            issues.push({ path: textPath, message: "must be an object" });
+            return;
+          }
+          if (typeof text.scope !== "string" || text.scope.trim() === "") {
+            issues.push({ path: `${textPath}/scope`, message: "must be a non-empty string" });
+          }
+          issues.push(...validateLicenseText(text, textPath, rules.strictSpdx));
+          if (textPaths.has(text.text_path)) {
+            issues.push({ path: `${textPath}/text_path`, message: `"${text.text_path}" is used by another text of this entry` });
+          }
+          textPaths.add(text.text_path);
+        });
+      }
+    }
+  }
+
+  const link = value.prev_entry_sha256;
+  if (rules.hashLinked) {
+    if (link !== null && (typeof link !== "string" || !isValidSha256(link))) {
+      issues.push({ path: `${path}/prev_entry_sha256`, message: "must be a SHA-256 hex digest or null" });
+    }
+  } else if (link !== undefined) {
+    issues.push({ path: `${path}/prev_entry_sha256`, message: "is not part of this schema" });
+  }
+
+  issues.push(...validateEntryMetadata(value, path));
+
+  return issues;
+}
+
+/**
+ * Validate the fields shared by an entry's main license text and its
+ * additional texts.
+ *
+ * v1 registries were written before identifiers were checked and may
+ * carry free text (e.g., "Custom license"), so `spdx` only has to parse
+ * as an SPDX expression in schemas with `strictSpdx`.
+ */
+function validateLicenseText(text: Record<string, unknown>, path: string, strictSpdx: boolean): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  for (const key of ["spdx", "text_path", "text_sha256"] as const) {
+    if (typeof text[key] !== "string") {
+      issues.push({ path: `${path}/${key}`, message: "must be a string" });
+    }
+  }
+
+  if (strictSpdx && typeof text.spdx === "string") {
+    try {
+      parseSpdxExpression(text.spdx);
+    } catch (error) {
+      issues.push({
+        path: `${path}/spdx`,
+        message: error instanceof SpdxExpressionError
+          ? `must be an SPDX license expression: ${error.message}`
+          : "must be an SPDX license expression",
+      });
+    }
+  }
+  if (typeof text.text_path === "string" && !isLicensePath(text.text_path)) {
+    issues.push({
+      path: `${path}/text_path`,
+      message: `must be a file inside ${LICENSE_DIRECTORY}, got "${text.text_path}"`,
+    });
+  }
+  if (typeof text.text_sha256 === "string" && !isValidSha256(text.text_sha256)) {
+    issues.push({ path: `${path}/text_sha256`, message: "must be a SHA-256 hex digest" });
+  }
+  if (text.text_encoding !== undefined && !TEXT_ENCODINGS.includes(text.text_encoding as string)) {
+    issues.push({
+      path: `${path}/text_encoding`,
+      message: `must be one of ${TEXT_ENCODINGS.join(", ")}`,
+    });
+  }
+  if (text.normalization !== undefined && !TEXT_NORMALIZATIONS.includes(text.normalization as string)) {
+    issues.push({
+      path: `${path}/normalization`,
+      message: `must be one of ${TEXT_NORMALIZATIONS.join(", ")}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the optional fields that describe why an entry exists:
+ * changelog, governance reference, Safe transaction and authors.
+ */
+function validateEntryMetadata(entry: Record<string, unknown>, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (entry.changelog !== undefined && (typeof entry.changelog !== "string" || entry.changelog.trim() === "")) {
+    issues.push({ path: `${path}/changelog`, message: "must be a non-empty string" });
+  }
+
+  if (entry.governance !== undefined) {
+    const governance = entry.governance;
+    const governancePath = `${path}/governance`;
+    if (!isObject(governance)) {
+      issues.push({ path: governancePath, message: "must be an object" });
+    } else {
+      const { snapshot_id, governor_proposal_id, chain_id } = governance;
+      if (snapshot_id === undefined && governor_proposal_id === undefined) {
+        issues.push({ path: governancePath, message: "must have a snapshot_id or governor_proposal_id" });
+      }
+      if (snapshot_id !== undefined && (typeof snapshot_id !== "string" || snapshot_id.trim() === "")) {
+        issues.push({ path: `${governancePath}/snapshot_id`, message: "must be a non-empty string" });
+      }
+      if (governor_proposal_id !== undefined) {
+        if (typeof governor_proposal_id !== "string" || !/^\d+$/.test(governor_proposal_id)) {
+          issues.push({ path: `${governancePath}/governor_proposal_id`, message: "must be a decimal string" });
+        }
+        if (chain_id === undefined) {
+          issues.push({ path: `${governancePath}/chain_id`, message: "is required with governor_proposal_id" });
+        }
+      }
+      if (chain_id !== undefined && (!Number.isInteger(chain_id) || (chain_id as number) <= 0)) {
+        issues.push({ path: `${governancePath}/chain_id`, message: "must be a positive integer" });
+      }
+    }
+  }
+
+  if (entry.safe_tx_hash !== undefined && (typeof entry.safe_tx_hash !== "string" || !isHash(entry.safe_tx_hash))) {
+    issues.push({ path: `${path}/safe_tx_hash`, message: "must be a 0x-prefixed 32-byte hex string" });
+  }
+
+  if (entry.authors !== undefined) {
+    if (!Array.isArray(entry.authors)) {
+      issues.push({ path: `${path}/authors`, message: "must be an array" });
+    } else {
+      entry.authors.forEach((author: unknown, index) => {
+        const authorPath = `${path}/authors/${index}`;
+        if (!isObject(author)) {
+          issues.push({ path: authorPath, message: "must be an object" });
+          return;
+        }
+        if (typeof author.name !== "string" || author.name.trim() === "") {
+          issues.push({ path: `${authorPath}/name`, message: "must be a non-empty string" });
+        }
+        if (author.address !== undefined && (typeof author.address !== "string" || !isAddress(author.address, { strict: false }))) {
+          issues.push({ path: `${authorPath}/address`, message: "must be an Ethereum address" });
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Check whether a string is an ISO 8601 calendar date or date-time that
+ * names a real point in time (e.g., rejects "2024-02-30").
+ */
+function isIsoDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/.exec(value);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return false;
+  }
+
+  return !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Check whether a text path names a file inside the licenses directory
+ * without escaping it.
+ */
+function isLicensePath(path: string): boolean {
+  if (!path.startsWith(LICENSE_DIRECTORY) || path.includes("\\")) return false;
+
+  const segments = path.slice(LICENSE_DIRECTORY.length).split("/");
+  return segments.every(segment => segment !== "" && segment !== "." && segment !== "..");
+}
+
+/**
+ * Check whether a value is a plain JSON object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
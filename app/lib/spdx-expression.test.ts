@@ -0,0 +1,151 @@
+/**
+ * SPDX license expression tests: parsing, precedence and formatting.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SpdxExpression } from "./spdx-expression";
+import {
+  formatSpdxExpression,
+  getExpressionLicenses,
+  isValidSpdxExpression,
+  parseSpdxExpression,
+  SpdxExpressionError,
+} from "./spdx-expression";
+
+/**
+ * A license node without "+" or an exception.
+ */
+function license(id: string): SpdxExpression {
+  return { type: "license", id, orLater: false };
+}
+
+describe("parseSpdxExpression", () => {
+  it("parses a single license", () => {
+    assert.deepEqual(parseSpdxExpression("MIT"), license("MIT"));
+    assert.deepEqual(parseSpdxExpression("  Apache-2.0 "), license("Apache-2.0"));
+  });
+
+  it("parses \"+\" and WITH on a license", () => {
+    assert.deepEqual(parseSpdxExpression("GPL-2.0+ WITH Classpath-exception-2.0"), {
+      type: "license",
+      id: "GPL-2.0",
+      orLater: true,
+      exception: "Classpath-exception-2.0",
+    });
+  });
+
+  it("binds AND tighter than OR", () => {
+    assert.deepEqual(parseSpdxExpression("MIT OR Apache-2.0 AND CC-BY-4.0"), {
+      type: "or",
+      left: license("MIT"),
+      right: { type: "and", left: license("Apache-2.0"), right: license("CC-BY-4.0") },
+    });
+  });
+
+  it("binds WITH tighter than AND", () => {
+    assert.deepEqual(parseSpdxExpression("MIT AND GPL-3.0-only WITH GCC-exception-3.1"), {
+      type: "and",
+      left: license("MIT"),
+      right: { type: "license", id: "GPL-3.0-only", orLater: false, exception: "GCC-exception-3.1" },
+    });
+  });
+
+  it("groups with parentheses", () => {
+    assert.deepEqual(parseSpdxExpression("(MIT OR Apache-2.0) AND CC-BY-4.0"), {
+      type: "and",
+      left: { type: "or", left: license("MIT"), right: license("Apache-2.0") },
+      right: license("CC-BY-4.0"),
+    });
+  });
+
+  it("accepts operators in upper or lower case only", () => {
+    assert.deepEqual(parseSpdxExpression("MIT or Apache-2.0"), parseSpdxExpression("MIT OR Apache-2.0"));
+    assert.deepEqual(
+      parseSpdxExpression("GPL-2.0-only with Classpath-exception-2.0"),
+      parseSpdxExpression("GPL-2.0-only WITH Classpath-exception-2.0")
+    );
+    assert.throws(() => parseSpdxExpression("MIT Or Apache-2.0"), SpdxExpressionError);
+  });
+
+  it("keeps the case of identifiers", () => {
+    assert.deepEqual(parseSpdxExpression("mit"), license("mit"));
+  });
+
+  it("accepts LicenseRef- and DocumentRef- identifiers", () => {
+    assert.deepEqual(parseSpdxExpression("LicenseRef-Custom-1.0"), license("LicenseRef-Custom-1.0"));
+    assert.deepEqual(
+      parseSpdxExpression("DocumentRef-spdx-tool-1.2:LicenseRef-MIT-Style-2"),
+      license("DocumentRef-spdx-tool-1.2:LicenseRef-MIT-Style-2")
+    );
+  });
+
+  it("rejects malformed expressions", () => {
+    const invalid = [
+      "",
+      "   ",
+      "Custom license",
+      "MIT OR",
+      "AND MIT",
+      "MIT AND AND Apache-2.0",
+      "(MIT OR Apache-2.0",
+      "MIT OR Apache-2.0)",
+      "()",
+      "(MIT OR Apache-2.0) WITH Classpath-exception-2.0",
+      "GPL-2.0-only WITH",
+      "GPL-2.0-only WITH (Classpath-exception-2.0)",
+      "MIT_License",
+      "LicenseRef-",
+      "LicenseRef-Custom+",
+      "DocumentRef-doc:MIT",
+      "DocumentRef-doc:LicenseRef-a:LicenseRef-b",
+      "Document-doc:LicenseRef-a",
+    ];
+    for (const expression of invalid) {
+      assert.throws(() => parseSpdxExpression(expression), SpdxExpressionError, JSON.stringify(expression));
+      assert.equal(isValidSpdxExpression(expression), false, JSON.stringify(expression));
+    }
+  });
+
+  it("reports the position of the problem", () => {
+    assert.throws(
+      () => parseSpdxExpression("MIT OR OR Apache-2.0"),
+      (error: unknown) => error instanceof SpdxExpressionError && error.position === 7
+    );
+    assert.throws(
+      () => parseSpdxExpression("(MIT"),
+      (error: unknown) => error instanceof SpdxExpressionError && error.position === 4
+    );
+  });
+});
+
+describe("formatSpdxExpression", () => {
+  const cases: [input: string, formatted: string][] = [
+    ["MIT", "MIT"],
+    ["mit  or   Apache-2.0", "mit OR Apache-2.0"],
+    ["GPL-2.0+ with Classpath-exception-2.0", "GPL-2.0+ WITH Classpath-exception-2.0"],
+    ["((MIT))", "MIT"],
+    ["(MIT AND Apache-2.0) OR CC0-1.0", "MIT AND Apache-2.0 OR CC0-1.0"],
+    ["(MIT OR Apache-2.0) AND CC-BY-4.0", "(MIT OR Apache-2.0) AND CC-BY-4.0"],
+    ["CC-BY-4.0 AND (MIT OR Apache-2.0)", "CC-BY-4.0 AND (MIT OR Apache-2.0)"],
+    ["MIT OR (Apache-2.0 OR ISC)", "MIT OR Apache-2.0 OR ISC"],
+  ];
+
+  for (const [input, formatted] of cases) {
+    it(`formats ${JSON.stringify(input)}`, () => {
+      assert.equal(formatSpdxExpression(parseSpdxExpression(input)), formatted);
+    });
+
+    it(`round-trips ${JSON.stringify(input)}`, () => {
+      const once = formatSpdxExpression(parseSpdxExpression(input));
+      assert.equal(formatSpdxExpression(parseSpdxExpression(once)), once);
+    });
+  }
+});
+
+describe("getExpressionLicenses", () => {
+  it("lists licenses in order without duplicates", () => {
+    const licenses = getExpressionLicenses(parseSpdxExpression("(MIT OR Apache-2.0) AND MIT AND GPL-2.0+"));
+    assert.deepEqual(licenses.map(node => formatSpdxExpression(node)), ["MIT", "Apache-2.0", "GPL-2.0+"]);
+  });
+});
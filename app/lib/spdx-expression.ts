@@ -0,0 +1,287 @@
+/**
+ * SPDX License Expressions
+ *
+ * Parser for SPDX license expressions (SPDX specification, Annex D), such as
+ * "MIT", "GPL-2.0-or-later WITH Classpath-exception-2.0" or
+ * "(MIT OR Apache-2.0) AND CC-BY-4.0". Only the syntax is checked here;
+ * whether an identifier is on the SPDX license list is checked by
+ * checkSpdxIdentifiers in spdx-licenses.
+ *
+ * Precedence, from tightest to loosest: "+", WITH, AND, OR. Operators are
+ * accepted in upper or lower case and written in upper case when formatted.
+ */
+
+/**
+ * A single license, optionally "or later" and with an exception.
+ */
+export interface SpdxLicenseNode {
+  type: "license";
+  /** License identifier, LicenseRef-... or DocumentRef-...:LicenseRef-... */
+  id: string;
+  /** Written with a trailing "+" */
+  orLater: boolean;
+  /** Exception identifier after WITH */
+  exception?: string;
+}
+
+/**
+ * Two expressions joined by AND or OR.
+ */
+export interface SpdxCompoundNode {
+  type: "and" | "or";
+  left: SpdxExpression;
+  right: SpdxExpression;
+}
+
+/**
+ * Parsed SPDX license expression.
+ */
+export type SpdxExpression = SpdxLicenseNode | SpdxCompoundNode;
+
+/**
+ * Error thrown when a license expression is not valid SPDX syntax.
+ */
+export class SpdxExpressionError extends Error {
+  constructor(
+    message: string,
+    /** Character offset of the problem in the input */
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = "SpdxExpressionError";
+  }
+}
+
+/**
+ * Identifier characters allowed by the specification (idstring).
+ */
+const ID_PATTERN = /^[A-Za-z0-9.-]+$/;
+
+/**
+ * Prefix of user-defined license identifiers.
+ */
+export const LICENSE_REF_PREFIX = "LicenseRef-";
+
+type Token =
+  | { type: "id"; value: string; position: number }
+  | { type: "and" | "or" | "with" | "plus" | "open" | "close"; position: number };
+
+/**
+ * Parse an SPDX license expression.
+ *
+ * @param input - The expression (e.g., "MIT OR Apache-2.0")
+ * @throws SpdxExpressionError if the expression is empty or malformed
+ */
+export function parseSpdxExpression(input: string): SpdxExpression {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw new SpdxExpressionError("License expression is empty", 0);
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const end = () => input.length;
+
+  const parseOr = (): SpdxExpression => {
+    let left = parseAnd();
+    while (peek()?.type === "or") {
+      index++;
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): SpdxExpression => {
+    let left = parseWith();
+    while (peek()?.type === "and") {
+      index++;
+      left = { type: "and", left, right: parseWith() };
+    }
+    return left;
+  };
+
+  const parseWith = (): SpdxExpression => {
+    const token = peek();
+    if (!token) {
+      throw new SpdxExpressionError("Expression ends where a license was expected", end());
+    }
+
+    if (token.type === "open") {
+      index++;
+      const inner = parseOr();
+      const close = peek();
+      if (close?.type !== "close") {
+        throw new SpdxExpressionError("Missing closing parenthesis", close?.position ?? end());
+      }
+      index++;
+      if (peek()?.type === "with") {
+        throw new SpdxExpressionError("WITH must follow a single license, not a group", peek()!.position);
+      }
+      return inner;
+    }
+
+    if (token.type !== "id") {
+      throw new SpdxExpressionError(`Expected a license, found ${describeToken(token)}`, token.position);
+    }
+    index++;
+    checkLicenseId(token.value, token.position);
+
+    const node: SpdxLicenseNode = { type: "license", id: token.value, orLater: false };
+    if (peek()?.type === "plus") {
+      if (token.value.includes(LICENSE_REF_PREFIX)) {
+        throw new SpdxExpressionError(`"+" cannot be applied to ${token.value}`, peek()!.position);
+      }
+      node.orLater = true;
+      index++;
+    }
+
+    if (peek()?.type === "with") {
+      index++;
+      const exception = peek();
+      if (exception?.type !== "id") {
+        throw new SpdxExpressionError(
+          exception ? `Expected an exception after WITH, found ${describeToken(exception)}` : "Expression ends after WITH",
+          exception?.position ?? end()
+        );
+      }
+      if (!ID_PATTERN.test(exception.value)) {
+        throw new SpdxExpressionError(`Invalid exception identifier "${exception.value}"`, exception.position);
+      }
+      node.exception = exception.value;
+      index++;
+    }
+
+    return node;
+  };
+
+  const expression = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new SpdxExpressionError(
+      rest.type === "close" ? "Unmatched closing parenthesis" : `Unexpected ${describeToken(rest)}`,
+      rest.position
+    );
+  }
+  return expression;
+}
+
+/**
+ * Check whether a string is a valid SPDX license expression.
+ */
+export function isValidSpdxExpression(input: string): boolean {
+  try {
+    parseSpdxExpression(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format an expression with upper-case operators, single spaces and only
+ * the parentheses its structure needs.
+ */
+export function formatSpdxExpression(expression: SpdxExpression): string {
+  if (expression.type === "license") {
+    return `${expression.id}${expression.orLater ? "+" : ""}${expression.exception ? ` WITH ${expression.exception}` : ""}`;
+  }
+
+  const operand = (child: SpdxExpression) =>
+    expression.type === "and" && child.type === "or"
+      ? `(${formatSpdxExpression(child)})`
+      : formatSpdxExpression(child);
+  return `${operand(expression.left)} ${expression.type.toUpperCase()} ${operand(expression.right)}`;
+}
+
+/**
+ * List the licenses in an expression, in order of appearance, without
+ * duplicates.
+ */
+export function getExpressionLicenses(expression: SpdxExpression): SpdxLicenseNode[] {
+  if (expression.type === "license") return [expression];
+
+  const licenses = [...getExpressionLicenses(expression.left), ...getExpressionLicenses(expression.right)];
+  return licenses.filter((license, index) =>
+    licenses.findIndex(other =>
+      other.id === license.id && other.orLater === license.orLater && other.exception === license.exception
+    ) === index
+  );
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Split an expression into tokens.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s+|\(|\)|\+|[^\s()+]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const text = match[0];
+    const position = match.index;
+    if (/^\s+$/.test(text)) continue;
+
+    if (text === "(") tokens.push({ type: "open", position });
+    else if (text === ")") tokens.push({ type: "close", position });
+    else if (text === "+") tokens.push({ type: "plus", position });
+    else if (text === "AND" || text === "and") tokens.push({ type: "and", position });
+    else if (text === "OR" || text === "or") tokens.push({ type: "or", position });
+    else if (text === "WITH" || text === "with") tokens.push({ type: "with", position });
+    else tokens.push({ type: "id", value: text, position });
+  }
+
+  return tokens;
+}
+
+/**
+ * Check the syntax of a license identifier, including LicenseRef- and
+ * DocumentRef-...:LicenseRef- forms.
+ */
+function checkLicenseId(id: string, position: number): void {
+  const [document, license, ...rest] = id.split(":");
+
+  if (license !== undefined) {
+    if (
+      rest.length > 0 ||
+      !document.startsWith("DocumentRef-") ||
+      !ID_PATTERN.test(document.slice("DocumentRef-".length)) ||
+      !license.startsWith(LICENSE_REF_PREFIX) ||
+      !ID_PATTERN.test(license.slice(LICENSE_REF_PREFIX.length))
+    ) {
+      throw new SpdxExpressionError(
+        `Invalid license reference "${id}" (expected DocumentRef-<id>:LicenseRef-<id>)`,
+        position
+      );
+    }
+    return;
+  }
+
+  if (!ID_PATTERN.test(id)) {
+    throw new SpdxExpressionError(`Invalid license identifier "${id}"`, position);
+  }
+  if (id.startsWith(LICENSE_REF_PREFIX) && id.length === LICENSE_REF_PREFIX.length) {
+    throw new SpdxExpressionError(`"${LICENSE_REF_PREFIX}" must be followed by an identifier`, position);
+  }
+}
+
+/**
+ * Describe a token for error messages.
+ */
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case "id":
+      return `"${token.value}"`;
+    case "open":
+      return '"("';
+    case "close":
+      return '")"';
+    case "plus":
+      return '"+"';
+    default:
+      return token.type.toUpperCase();
+  }
+}
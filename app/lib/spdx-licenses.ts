@@ -0,0 +1,243 @@
+/**
+ * SPDX License List
+ *
+ * The SPDX license and exception lists, bundled so the creator works
+ * offline: identifiers, names, deprecation and OSI approval, a search for
+ * the license selector and the canonical license texts used as templates.
+ * Texts are loaded on demand because they are several megabytes.
+ *
+ * FSF free license status is not shown: the bundled list data does not
+ * carry it, and a hand-kept list would go stale.
+ */
+
+import licenseList from "spdx-license-list/spdx.json";
+import licenseIds from "spdx-license-ids/index.json";
+import deprecatedLicenseIds from "spdx-license-ids/deprecated.json";
+import exceptionIds from "spdx-exceptions/index.json";
+import deprecatedExceptionIds from "spdx-exceptions/deprecated.json";
+import type { SpdxExpression } from "./spdx-expression";
+import { getExpressionLicenses, LICENSE_REF_PREFIX } from "./spdx-expression";
+
+/**
+ * A license on the SPDX license list.
+ */
+export interface SpdxLicense {
+  id: string;
+  name: string;
+  /** Listed as deprecated; SPDX recommends a replacement identifier */
+  deprecated: boolean;
+  /** Approved by the Open Source Initiative */
+  osiApproved: boolean;
+  /** Where the license is published */
+  url?: string;
+}
+
+/**
+ * An exception on the SPDX exception list (used after WITH).
+ */
+export interface SpdxException {
+  id: string;
+  deprecated: boolean;
+}
+
+/**
+ * Problems with the identifiers used in an expression.
+ */
+export interface SpdxIdentifierCheck {
+  /** Identifiers that are neither on the list nor LicenseRef- */
+  errors: string[];
+  /** Deprecated identifiers */
+  warnings: string[];
+}
+
+/**
+ * Licenses listed first when nothing has been searched yet.
+ */
+export const COMMON_SPDX_LICENSE_IDS = [
+  "MIT",
+  "Apache-2.0",
+  "GPL-3.0-only",
+  "GPL-3.0-or-later",
+  "AGPL-3.0-only",
+  "AGPL-3.0-or-later",
+  "LGPL-3.0-only",
+  "BSD-2-Clause",
+  "BSD-3-Clause",
+  "MPL-2.0",
+  "ISC",
+  "Unlicense",
+  "CC0-1.0",
+  "CC-BY-4.0",
+  "CC-BY-SA-4.0",
+] as const;
+
+/**
+ * Every license on the SPDX list, sorted by identifier.
+ */
+export const SPDX_LICENSES: readonly SpdxLicense[] = buildLicenseList();
+
+/**
+ * Every exception on the SPDX exception list, sorted by identifier.
+ */
+export const SPDX_EXCEPTIONS: readonly SpdxException[] = [
+  ...exceptionIds.map(id => ({ id, deprecated: false })),
+  ...deprecatedExceptionIds.map(id => ({ id, deprecated: true })),
+].sort((a, b) => a.id.localeCompare(b.id));
+
+// SPDX identifiers are matched case-insensitively
+const licensesById = new Map(SPDX_LICENSES.map(license => [license.id.toLowerCase(), license]));
+const exceptionsById = new Map(SPDX_EXCEPTIONS.map(exception => [exception.id.toLowerCase(), exception]));
+
+/**
+ * Look up a license on the SPDX list (case-insensitive).
+ */
+export function getSpdxLicense(id: string): SpdxLicense | undefined {
+  return licensesById.get(id.toLowerCase());
+}
+
+/**
+ * Look up an exception on the SPDX exception list (case-insensitive).
+ */
+export function getSpdxException(id: string): SpdxException | undefined {
+  return exceptionsById.get(id.toLowerCase());
+}
+
+/**
+ * Search licenses by identifier and name.
+ * Exact identifiers rank first, then identifier prefixes, then other
+ * matches; deprecated licenses rank after current ones. An empty query
+ * returns the common licenses.
+ *
+ * @param query - Text to search for (e.g., "gpl 3")
+ * @param limit - Maximum number of results
+ */
+export function searchSpdxLicenses(query: string, limit = 50): SpdxLicense[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return COMMON_SPDX_LICENSE_IDS.map(id => getSpdxLicense(id)).filter(license => license !== undefined);
+  }
+
+  const whole = terms.join(" ");
+  const rank = (license: SpdxLicense): number => {
+    const id = license.id.toLowerCase();
+    const text = `${id} ${license.name.toLowerCase()}`;
+    if (!terms.every(term => text.includes(term))) return -1;
+
+    const score = id === whole ? 0 : id.startsWith(whole) ? 1 : id.includes(whole) ? 2 : 3;
+    return score + (license.deprecated ? 4 : 0);
+  };
+
+  return SPDX_LICENSES
+    .map(license => ({ license, score: rank(license) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.license.id.length - b.license.id.length)
+    .slice(0, limit)
+    .map(({ license }) => license);
+}
+
+/**
+ * Load the canonical text of a license from the SPDX list.
+ *
+ * @returns The license text, or null if the license has no bundled text
+ */
+export async function loadSpdxLicenseText(id: string): Promise<string | null> {
+  const license = getSpdxLicense(id);
+  if (!license) return null;
+  return (await loadSpdxLicenseTexts()).get(license.id) ?? null;
+}
+
+let licenseTexts: Promise<Map<string, string>> | null = null;
+
+/**
+ * Load the canonical texts of every license on the SPDX list, keyed by
+ * identifier. The texts are loaded once and shared.
+ * Entries of the text data that are not license identifiers (e.g.,
+ * "GPL-2.0+") are left out.
+ */
+export function loadSpdxLicenseTexts(): Promise<Map<string, string>> {
+  licenseTexts ??= import("spdx-license-list/spdx-full.json")
+    .then(({ default: texts }) => new Map(
+      Object.entries(texts as Record<string, { licenseText?: string }>)
+        .filter((entry): entry is [string, { licenseText: string }] =>
+          !!entry[1].licenseText && licensesById.get(entry[0].toLowerCase())?.id === entry[0]
+        )
+        .map(([id, { licenseText }]) => [id, licenseText])
+    ))
+    .catch(error => {
+      licenseTexts = null;
+      throw error;
+    });
+  return licenseTexts;
+}
+
+/**
+ * Check the identifiers in an expression against the SPDX lists.
+ * LicenseRef- and DocumentRef- identifiers are user-defined and always
+ * accepted. Identifiers in the wrong case are reported with the listed
+ * spelling.
+ */
+export function checkSpdxIdentifiers(expression: SpdxExpression): SpdxIdentifierCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const node of getExpressionLicenses(expression)) {
+    if (!isUserDefinedLicense(node.id)) {
+      const license = getSpdxLicense(node.id);
+      if (!license) {
+        errors.push(
+          getSpdxException(node.id)
+            ? `"${node.id}" is an exception and must follow WITH`
+            : `"${node.id}" is not on the SPDX license list (use ${LICENSE_REF_PREFIX}${node.id} for other licenses)`
+        );
+      } else if (license.id !== node.id) {
+        errors.push(`"${node.id}" should be written "${license.id}"`);
+      } else if (license.deprecated) {
+        warnings.push(`${license.id} is deprecated on the SPDX license list`);
+      }
+    }
+
+    if (node.exception) {
+      const exception = getSpdxException(node.exception);
+      if (!exception) {
+        errors.push(`"${node.exception}" is not on the SPDX exception list`);
+      } else if (exception.id !== node.exception) {
+        errors.push(`"${node.exception}" should be written "${exception.id}"`);
+      } else if (exception.deprecated) {
+        warnings.push(`${exception.id} is deprecated on the SPDX exception list`);
+      }
+    }
+  }
+
+  return { errors: [...new Set(errors)], warnings: [...new Set(warnings)] };
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Merge the license list data with the current and deprecated identifier
+ * lists. Identifiers newer than the list data are named by their id.
+ */
+function buildLicenseList(): SpdxLicense[] {
+  const details = licenseList as Record<string, { name: string; url?: string; osiApproved: boolean }>;
+  const deprecated = new Set(deprecatedLicenseIds);
+
+  return [...licenseIds, ...deprecatedLicenseIds]
+    .map(id => ({
+      id,
+      name: details[id]?.name ?? id,
+      deprecated: deprecated.has(id),
+      osiApproved: details[id]?.osiApproved ?? false,
+      ...(details[id]?.url && { url: details[id].url }),
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Check whether a license identifier is user-defined (LicenseRef-... or
+ * DocumentRef-...:LicenseRef-...).
+ */
+function isUserDefinedLicense(id: string): boolean {
+  return id.startsWith(LICENSE_REF_PREFIX) || id.startsWith("DocumentRef-");
+}
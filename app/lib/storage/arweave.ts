@@ -0,0 +1,315 @@
+/**
+ * Arweave Gateway Implementation
+ *
+ * Multi-gateway Arweave fetcher with fallback support.
+ * Directories are represented as Arweave path manifests, which are resolved
+ * client-side so that "/registry.json" and "/licenses/vN.md" work the same
+ * way as in the IPFS directory layout.
+ */
+
+import type { StorageGateway, FetchOptions } from "./types";
+import { GatewayError } from "./types";
+
+/**
+ * Default Arweave gateways in fallback order.
+ */
+const DEFAULT_ARWEAVE_GATEWAYS = [
+  "https://arweave.net",
+  "https://ar-io.net",
+];
+
+/**
+ * Default timeout for gateway requests (30 seconds).
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Arweave transaction IDs are 32 bytes, base64url-encoded without padding.
+ */
+const ARWEAVE_TX_ID_PATTERN = /^[a-zA-Z0-9_-]{43}$/;
+
+/**
+ * Content type that marks a transaction as a path manifest.
+ */
+export const ARWEAVE_MANIFEST_CONTENT_TYPE = "application/x.arweave-manifest+json";
+
+/**
+ * Arweave path manifest (arweave/paths v0.2.0).
+ * See https://github.com/ArweaveTeam/arweave/wiki/Path-Manifests
+ */
+export interface ArweaveManifest {
+  manifest: "arweave/paths";
+  version: "0.1.0" | "0.2.0";
+  /** Default document served for the bare manifest ID */
+  index?: { path: string };
+  /** Document served for paths not in the manifest (v0.2.0) */
+  fallback?: { id: string };
+  /** Map of relative path (no leading slash) to transaction ID */
+  paths: Record<string, { id: string }>;
+}
+
+/**
+ * Parse gateway URLs from environment variable.
+ */
+function getGatewaysFromEnv(): string[] {
+  if (typeof import.meta !== "undefined" && import.meta.env?.VITE_ARWEAVE_GATEWAYS) {
+    return import.meta.env.VITE_ARWEAVE_GATEWAYS.split(",").map((g: string) => g.trim());
+  }
+  return DEFAULT_ARWEAVE_GATEWAYS;
+}
+
+/**
+ * Arweave Storage Gateway implementation.
+ */
+export class ArweaveGateway implements StorageGateway {
+  readonly protocol = "ar" as const;
+  readonly gateways: string[];
+  private readonly timeout: number;
+  /**
+   * Manifests keyed by gateway and transaction ID. Gateway responses are not
+   * verified against the transaction, so a manifest served by one gateway
+   * is never used to resolve paths on another.
+   */
+  private readonly manifests = new Map<string, ArweaveManifest>();
+
+  constructor(gateways?: string[], timeout?: number) {
+    this.gateways = gateways ?? getGatewaysFromEnv();
+    this.timeout = timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Validate an Arweave transaction ID.
+   */
+  isValidHash(hash: string): boolean {
+    return isValidArweaveTxId(hash);
+  }
+
+  /**
+   * Get the primary gateway URL for a transaction.
+   * Gateways resolve path manifests natively, so appending a path works.
+   */
+  getGatewayUrl(hash: string): string {
+    const gateway = this.gateways[0];
+    return `${gateway}/${hash}`;
+  }
+
+  /**
+   * Fetch content from Arweave with multi-gateway fallback.
+   * If a path is given, `hash` must be a path manifest and the path is
+   * resolved through it before fetching the target transaction.
+   */
+  async fetch(hash: string, path?: string, options?: FetchOptions): Promise<Response> {
+    const timeout = options?.timeout ?? this.timeout;
+    const errors: Error[] = [];
+
+    for (const gateway of this.gateways) {
+      try {
+        const txId = path
+          ? await this.resolvePath(gateway, hash, path, timeout)
+          : hash;
+        return await this.request(`${gateway}/${txId}`, timeout);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        errors.push(err);
+        console.warn(`Arweave gateway ${gateway} failed for ${hash}:`, err.message);
+        // Continue to next gateway
+      }
+    }
+
+    throw new GatewayError(
+      `All Arweave gateways failed for transaction: ${hash}`,
+      "ar",
+      hash,
+      this.gateways,
+      errors
+    );
+  }
+
+  /**
+   * Fetch and parse JSON from Arweave.
+   */
+  async fetchJson<T = unknown>(hash: string, path?: string): Promise<T> {
+    const response = await this.fetch(hash, path);
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Fetch text content from Arweave.
+   */
+  async fetchText(hash: string, path?: string): Promise<string> {
+    const response = await this.fetch(hash, path);
+    return response.text();
+  }
+
+  /**
+   * Fetch a file from within an Arweave path manifest.
+   *
+   * @param dirHash - The transaction ID of the path manifest
+   * @param filePath - Path to the file within the manifest (e.g., "/registry.json")
+   */
+  async fetchFromDir<T = unknown>(dirHash: string, filePath: string): Promise<T> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    return this.fetchJson<T>(dirHash, normalizedPath);
+  }
+
+  /**
+   * Fetch text file from within an Arweave path manifest.
+   */
+  async fetchTextFromDir(dirHash: string, filePath: string): Promise<string> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    return this.fetchText(dirHash, normalizedPath);
+  }
+
+  /**
+   * Fetch a file from within an Arweave path manifest as raw bytes.
+   */
+  async fetchBytesFromDir(dirHash: string, filePath: string): Promise<Uint8Array> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    const response = await this.fetch(dirHash, normalizedPath);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Resolve a path through a manifest fetched from the given gateway.
+   */
+  private async resolvePath(
+    gateway: string,
+    manifestId: string,
+    path: string,
+    timeout: number
+  ): Promise<string> {
+    const cacheKey = `${gateway}/${manifestId}`;
+    let manifest = this.manifests.get(cacheKey);
+
+    if (!manifest) {
+      // The /raw/ endpoint returns the manifest itself instead of its index
+      const response = await this.request(`${gateway}/raw/${manifestId}`, timeout);
+      const data: unknown = await response.json();
+      if (!isArweaveManifest(data)) {
+        throw new Error(`Transaction ${manifestId} is not an Arweave path manifest`);
+      }
+      manifest = data;
+      this.manifests.set(cacheKey, manifest);
+    }
+
+    const txId = resolveManifestPath(manifest, path);
+    if (!txId) {
+      throw new Error(`Path not found in Arweave manifest: ${path}`);
+    }
+    return txId;
+  }
+
+  /**
+   * Perform a single gateway request with timeout.
+   */
+  private async request(url: string, timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: {
+          "Accept": "application/json, text/plain, */*",
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Singleton Arweave gateway instance.
+ */
+let _arweaveGateway: ArweaveGateway | null = null;
+
+/**
+ * Get the Arweave gateway instance.
+ */
+export function getArweaveGateway(): ArweaveGateway {
+  if (!_arweaveGateway) {
+    _arweaveGateway = new ArweaveGateway();
+  }
+  return _arweaveGateway;
+}
+
+/**
+ * Validate an Arweave transaction ID (43-character base64url).
+ */
+export function isValidArweaveTxId(hash: string): boolean {
+  return ARWEAVE_TX_ID_PATTERN.test(hash);
+}
+
+/**
+ * Check whether a value is a well-formed Arweave path manifest.
+ */
+export function isArweaveManifest(value: unknown): value is ArweaveManifest {
+  if (!value || typeof value !== "object") return false;
+  const manifest = value as Partial<ArweaveManifest>;
+
+  if (manifest.manifest !== "arweave/paths") return false;
+  if (!manifest.paths || typeof manifest.paths !== "object") return false;
+
+  return Object.values(manifest.paths).every(
+    entry => !!entry && typeof entry.id === "string" && isValidArweaveTxId(entry.id)
+  );
+}
+
+/**
+ * Resolve a path to a transaction ID using a path manifest.
+ *
+ * @param manifest - The path manifest
+ * @param path - Path with or without leading slash ("" or "/" resolves the index)
+ * @returns The transaction ID, or null if the path is not in the manifest
+ */
+export function resolveManifestPath(manifest: ArweaveManifest, path: string): string | null {
+  const relativePath = path.replace(/^\/+/, "");
+
+  if (relativePath === "") {
+    const indexPath = manifest.index?.path;
+    return indexPath ? manifest.paths[indexPath]?.id ?? null : null;
+  }
+
+  return manifest.paths[relativePath]?.id ?? manifest.fallback?.id ?? null;
+}
+
+/**
+ * Build an Arweave path manifest from a map of relative paths to
+ * transaction IDs.
+ *
+ * @param paths - Relative file paths (e.g., "licenses/v1.md") to transaction IDs
+ * @param indexPath - Optional default document (e.g., "README.md")
+ */
+export function buildArweaveManifest(
+  paths: Record<string, string>,
+  indexPath?: string
+): ArweaveManifest {
+  const entries: Record<string, { id: string }> = {};
+
+  // Sort paths so the manifest is byte-for-byte reproducible
+  for (const path of Object.keys(paths).sort()) {
+    const txId = paths[path];
+    if (!isValidArweaveTxId(txId)) {
+      throw new Error(`Invalid Arweave transaction ID for ${path}: ${txId}`);
+    }
+    entries[path.replace(/^\/+/, "")] = { id: txId };
+  }
+
+  if (indexPath && !entries[indexPath]) {
+    throw new Error(`Index path is not part of the manifest: ${indexPath}`);
+  }
+
+  return {
+    manifest: "arweave/paths",
+    version: "0.2.0",
+    ...(indexPath ? { index: { path: indexPath } } : {}),
+    paths: entries,
+  };
+}
@@ -2,17 +2,33 @@
  * Storage Module
  * 
  * Factory and utilities for working with decentralized storage.
- * Currently supports IPFS, with Swarm support planned.
+ * Currently supports IPFS, Swarm, and Arweave.
  */
 
 import type { ContentReference, StorageProtocol } from "~/types/license-registry";
-import type { StorageGateway } from "./types";
-import { GatewayError } from "./types";
-import { getIpfsGateway, IpfsGateway } from "./ipfs";
+import type { DirectoryReader, StorageGateway } from "./types";
+import { GatewayError, parseContentUri } from "./types";
+import { getIpfsGateway, IpfsGateway, isValidCid } from "./ipfs";
+import { getSwarmGateway, isValidSwarmReference, normalizeSwarmReference } from "./swarm";
+import { getArweaveGateway, isValidArweaveTxId } from "./arweave";
+import { VerifiedDirectory } from "./trustless";
 
 // Re-export types and utilities
 export * from "./types";
 export { IpfsGateway, getIpfsGateway, isValidCid, normalizeCid } from "./ipfs";
+export { SwarmGateway, getSwarmGateway, isValidSwarmReference, normalizeSwarmReference } from "./swarm";
+export {
+  ArweaveGateway,
+  getArweaveGateway,
+  isValidArweaveTxId,
+  isArweaveManifest,
+  resolveManifestPath,
+  buildArweaveManifest,
+  ARWEAVE_MANIFEST_CONTENT_TYPE,
+} from "./arweave";
+export type { ArweaveManifest } from "./arweave";
+export { VerifiedDirectory, verifyBlock, readVerifiedCar } from "./trustless";
+export { LocalDirectory, openPackageArchive } from "./local";
 
 /**
  * Get a storage gateway for the given protocol.
@@ -28,18 +44,15 @@ export function getGateway(protocol: StorageProtocol): StorageGateway {
       // IPNS uses the same gateways as IPFS
       return getIpfsGateway();
     
-    case "ens":
-      // ENS uses .limo gateway for resolution
-      // This is a special case - not a real storage gateway
-      throw new Error("ENS protocol requires direct gateway access, use getEnsGatewayUrl instead");
-    
     case "bzz":
-      // TODO: Implement Swarm gateway
-      throw new Error("Swarm (bzz) protocol not yet implemented");
+      return getSwarmGateway();
     
     case "ar":
-      // TODO: Implement Arweave gateway
-      throw new Error("Arweave (ar) protocol not yet implemented");
+      return getArweaveGateway();
+    
+    case "onion":
+      // Tor content can appear in a contenthash but has no public gateway
+      throw new Error("Onion addresses cannot be fetched through a public gateway");
     
     default:
       throw new Error(`Unknown storage protocol: ${protocol}`);
@@ -80,6 +93,46 @@ export async function fetchContentText(ref: ContentReference): Promise<string> {
   return gateway.fetchText(ref.hash);
 }
 
+/**
+ * Directory access through a plain storage gateway.
+ * Files are returned as served, without verification against the hash.
+ */
+class GatewayDirectory implements DirectoryReader {
+  readonly verified = false;
+
+  constructor(
+    readonly ref: ContentReference,
+    private readonly gateway: StorageGateway
+  ) {}
+
+  readFile(filePath: string): Promise<Uint8Array> {
+    return this.gateway.fetchBytesFromDir(this.ref.hash, filePath);
+  }
+
+  readText(filePath: string): Promise<string> {
+    return this.gateway.fetchTextFromDir(this.ref.hash, filePath);
+  }
+
+  readJson<T = unknown>(filePath: string): Promise<T> {
+    return this.gateway.fetchFromDir<T>(this.ref.hash, filePath);
+  }
+}
+
+/**
+ * Open a published directory for reading.
+ * IPFS directories are read through trustless, block-verified responses;
+ * other protocols fall back to plain gateway access.
+ * 
+ * @param ref - The content reference of the directory
+ * @returns A reader for files within the directory
+ */
+export function openDirectory(ref: ContentReference): DirectoryReader {
+  if (ref.protocol === "ipfs") {
+    return VerifiedDirectory.fromGateway(ref.hash, getIpfsGateway());
+  }
+  return new GatewayDirectory(ref, getGateway(ref.protocol));
+}
+
 /**
  * Get the gateway URL for a ContentReference.
  * 
@@ -87,11 +140,6 @@ export async function fetchContentText(ref: ContentReference): Promise<string> {
  * @returns Full URL to access the content
  */
 export function getContentUrl(ref: ContentReference): string {
-  // Special handling for ENS - use .limo gateway
-  if (ref.protocol === "ens") {
-    return `https://${ref.hash}.limo`;
-  }
-  
   const gateway = getGateway(ref.protocol);
   return gateway.getGatewayUrl(ref.hash);
 }
@@ -108,6 +156,39 @@ export function isValidContentHash(protocol: StorageProtocol, hash: string): boo
   return gateway.isValidHash(hash);
 }
 
+/**
+ * Parse a user-supplied content reference.
+ * Accepts a bare IPFS CID, Swarm reference or Arweave transaction ID,
+ * or a content URI ("ipfs://...", "ipns://...", "bzz://...", "ar://...").
+ * 
+ * @param input - The user input
+ * @returns The content reference, or null if it is not recognized
+ */
+export function parseContentInput(input: string): ContentReference | null {
+  const value = input.trim();
+  const uri = parseContentUri(value);
+
+  if (uri) {
+    if ((uri.protocol === "ipfs" || uri.protocol === "ipns") && isValidCid(uri.hash)) return uri;
+    if (uri.protocol === "bzz" && isValidSwarmReference(uri.hash)) {
+      return { protocol: "bzz", hash: normalizeSwarmReference(uri.hash) };
+    }
+    if (uri.protocol === "ar" && isValidArweaveTxId(uri.hash)) return uri;
+    return null;
+  }
+
+  if (isValidSwarmReference(value)) {
+    return { protocol: "bzz", hash: normalizeSwarmReference(value) };
+  }
+  if (isValidCid(value)) {
+    return { protocol: "ipfs", hash: value };
+  }
+  if (isValidArweaveTxId(value)) {
+    return { protocol: "ar", hash: value };
+  }
+  return null;
+}
+
 /**
  * Get the configured storage protocol from environment.
  * Defaults to "ipfs".
@@ -129,11 +210,9 @@ export function isProtocolSupported(protocol: StorageProtocol): boolean {
   switch (protocol) {
     case "ipfs":
     case "ipns":
-    case "ens":
-      return true;
     case "bzz":
     case "ar":
-      return false; // Not yet implemented
+      return true;
     default:
       return false;
   }
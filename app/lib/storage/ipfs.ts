@@ -8,6 +8,8 @@
 import { CID } from "multiformats/cid";
 import type { StorageGateway, FetchOptions } from "./types";
 import { GatewayError } from "./types";
+import type { CarBlock } from "~/lib/car";
+import { readVerifiedCar } from "./trustless";
 
 /**
  * Default IPFS gateways in fallback order.
@@ -79,11 +81,57 @@ export class IpfsGateway implements StorageGateway {
    * Fetch content from IPFS with multi-gateway fallback.
    */
   async fetch(hash: string, path?: string, options?: FetchOptions): Promise<Response> {
+    return this.fetchWithFallback(
+      hash,
+      (gateway) => this.buildUrl(gateway, hash, path),
+      "application/json, text/plain, */*",
+      async (response) => response,
+      options
+    );
+  }
+
+  /**
+   * Fetch a trustless CAR response (`?format=car`) and verify every block
+   * against its CID. A gateway whose response fails verification is treated
+   * like any other failing gateway and the next one is tried.
+   * 
+   * @param hash - The root CID
+   * @param path - Optional path within the root (e.g., "/registry.json")
+   * @returns The CAR roots and verified blocks
+   */
+  async fetchVerifiedCar(
+    hash: string,
+    path?: string,
+    options?: FetchOptions
+  ): Promise<{ roots: CID[]; blocks: CarBlock[] }> {
+    return this.fetchWithFallback(
+      hash,
+      (gateway) => `${this.buildUrl(gateway, hash, path)}?format=car`,
+      "application/vnd.ipld.car",
+      async (response) => {
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        return readVerifiedCar(bytes, hash);
+      },
+      options
+    );
+  }
+
+  /**
+   * Try each gateway in order until one responds successfully and its
+   * response is accepted by the handler.
+   */
+  private async fetchWithFallback<T>(
+    hash: string,
+    urlFor: (gateway: string) => string,
+    accept: string,
+    handle: (response: Response) => Promise<T>,
+    options?: FetchOptions
+  ): Promise<T> {
     const timeout = options?.timeout ?? this.timeout;
     const errors: Error[] = [];
 
     for (const gateway of this.gateways) {
-      const url = this.buildUrl(gateway, hash, path);
+      const url = urlFor(gateway);
       
       try {
         const controller = new AbortController();
@@ -92,7 +140,7 @@ export class IpfsGateway implements StorageGateway {
         const response = await fetch(url, {
           signal: controller.signal,
           headers: {
-            "Accept": "application/json, text/plain, */*",
+            "Accept": accept,
           },
         });
 
@@ -102,7 +150,7 @@ export class IpfsGateway implements StorageGateway {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        return response;
+        return await handle(response);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         errors.push(err);
@@ -155,6 +203,15 @@ export class IpfsGateway implements StorageGateway {
     const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
     return this.fetchText(dirHash, normalizedPath);
   }
+
+  /**
+   * Fetch a file from within an IPFS directory as raw bytes.
+   */
+  async fetchBytesFromDir(dirHash: string, filePath: string): Promise<Uint8Array> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    const response = await this.fetch(dirHash, normalizedPath);
+    return new Uint8Array(await response.arrayBuffer());
+  }
 }
 
 /**
@@ -0,0 +1,159 @@
+/**
+ * Local Package Directory
+ *
+ * Reads a registry package that has not been published yet: a ZIP produced
+ * by the creator or an extracted folder. The files are hashed into the
+ * UnixFS directory CID the package will have when packed and uploaded as a
+ * CAR, so reviewers can check it against the CID in a proposal.
+ */
+
+import JSZip from "jszip";
+import type { ContentReference } from "~/types/license-registry";
+import type { DirectoryReader } from "./types";
+import type { DirectoryFile } from "~/lib/car";
+import { computeDirectoryCid } from "~/lib/car";
+import { VerifiedDirectory } from "./trustless";
+
+/**
+ * Open a registry package archive: a ZIP from the creator or a CAR file.
+ * ZIPs are detected by their signature; anything else is read as a CAR.
+ *
+ * @param data - The archive bytes
+ * @param name - File name, for display
+ * @throws Error if the archive has no registry.json or the CAR is invalid
+ */
+export async function openPackageArchive(
+  data: Uint8Array,
+  name: string
+): Promise<LocalDirectory | VerifiedDirectory> {
+  const isZip = data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+  return isZip ? LocalDirectory.fromZip(data, name) : VerifiedDirectory.fromCar(data);
+}
+
+/**
+ * Directory backed by in-memory files from a local package.
+ */
+export class LocalDirectory implements DirectoryReader {
+  readonly ref: ContentReference;
+  /** Files are local and hashed into `cid`, so nothing is taken on trust */
+  readonly verified = true;
+
+  private constructor(
+    /** CID the package will have when packed as a CAR by the creator */
+    readonly cid: string,
+    /** Display name of the package (file or folder name) */
+    readonly name: string,
+    private readonly files: Map<string, Uint8Array>
+  ) {
+    this.ref = { protocol: "ipfs", hash: cid };
+  }
+
+  /**
+   * Open a ZIP package.
+   * Packages zipped with an enclosing folder are opened at that folder.
+   *
+   * @throws Error if the archive has no registry.json
+   */
+  static async fromZip(data: ArrayBuffer | Uint8Array, name: string): Promise<LocalDirectory> {
+    const zip = await JSZip.loadAsync(data);
+    const files = new Map<string, Uint8Array>();
+
+    for (const entry of Object.values(zip.files)) {
+      if (!entry.dir) {
+        files.set(entry.name, await entry.async("uint8array"));
+      }
+    }
+
+    return LocalDirectory.fromEntries(files, name);
+  }
+
+  /**
+   * Open files selected or dropped as a folder.
+   *
+   * @param files - Files keyed by path relative to the selection (e.g., "registry/licenses/v1.md")
+   * @throws Error if the folder has no registry.json
+   */
+  static async fromFiles(files: Map<string, Blob>, name: string): Promise<LocalDirectory> {
+    const contents = new Map<string, Uint8Array>();
+    for (const [path, file] of files) {
+      contents.set(path, new Uint8Array(await file.arrayBuffer()));
+    }
+    return LocalDirectory.fromEntries(contents, name);
+  }
+
+  /**
+   * Number of files in the package.
+   */
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Read a file from the package.
+   *
+   * @param filePath - Path within the package (e.g., "/registry.json")
+   */
+  async readFile(filePath: string): Promise<Uint8Array> {
+    const normalizedPath = filePath.replace(/^\/+/, "");
+    const content = this.files.get(normalizedPath);
+    if (!content) {
+      throw new Error(`File not found in ${this.name}: /${normalizedPath}`);
+    }
+    return content;
+  }
+
+  /**
+   * Read a file as UTF-8 text.
+   * Invalid UTF-8 is an error rather than replaced.
+   */
+  async readText(filePath: string): Promise<string> {
+    return new TextDecoder("utf-8", { fatal: true }).decode(await this.readFile(filePath));
+  }
+
+  /**
+   * Read a file and parse it as JSON.
+   */
+  async readJson<T = unknown>(filePath: string): Promise<T> {
+    return JSON.parse(await this.readText(filePath)) as T;
+  }
+
+  /**
+   * Locate the package root (the folder holding registry.json), keep only
+   * the files below it and compute the directory CID.
+   */
+  private static async fromEntries(entries: Map<string, Uint8Array>, name: string): Promise<LocalDirectory> {
+    const manifestPath = [...entries.keys()]
+      .map(path => path.replace(/\\/g, "/").replace(/^\/+/, ""))
+      .filter(path => path === "registry.json" || path.endsWith("/registry.json"))
+      .filter(path => !isHiddenPath(path))
+      .sort((a, b) => a.split("/").length - b.split("/").length)[0];
+
+    if (!manifestPath) {
+      throw new Error(`No registry.json found in ${name}`);
+    }
+
+    const root = manifestPath.slice(0, -"registry.json".length);
+    const files = new Map<string, Uint8Array>();
+    for (const [path, content] of entries) {
+      const normalizedPath = path.replace(/\\/g, "/").replace(/^\/+/, "");
+      if (normalizedPath.startsWith(root) && !isHiddenPath(normalizedPath.slice(root.length))) {
+        files.set(normalizedPath.slice(root.length), content);
+      }
+    }
+
+    const directoryFiles: DirectoryFile[] = [...files].map(([path, content]) => ({ path, content }));
+    return new LocalDirectory(await computeDirectoryCid(directoryFiles), name, files);
+  }
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Check whether a path is OS metadata rather than package content
+ * (e.g., "__MACOSX/...", ".DS_Store").
+ */
+function isHiddenPath(path: string): boolean {
+  return path.split("/").some(segment => segment.startsWith(".") || segment === "__MACOSX");
+}
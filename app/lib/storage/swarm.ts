@@ -0,0 +1,196 @@
+/**
+ * Swarm Gateway Implementation
+ *
+ * Multi-gateway Swarm (bzz) fetcher with fallback support.
+ * Uses public Bee gateways to fetch content by Swarm reference.
+ */
+
+import type { StorageGateway, FetchOptions } from "./types";
+import { GatewayError } from "./types";
+
+/**
+ * Default Bee gateways in fallback order.
+ */
+const DEFAULT_SWARM_GATEWAYS = [
+  "https://api.gateway.ethswarm.org",
+  "https://download.gateway.ethswarm.org",
+];
+
+/**
+ * Default timeout for gateway requests (30 seconds).
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Swarm references are 32-byte hashes (64 hex chars), or 64 bytes
+ * (128 hex chars) for encrypted references.
+ */
+const SWARM_REFERENCE_PATTERN = /^([a-fA-F0-9]{64}|[a-fA-F0-9]{128})$/;
+
+/**
+ * Parse gateway URLs from environment variable.
+ */
+function getGatewaysFromEnv(): string[] {
+  if (typeof import.meta !== "undefined" && import.meta.env?.VITE_SWARM_GATEWAYS) {
+    return import.meta.env.VITE_SWARM_GATEWAYS.split(",").map((g: string) => g.trim());
+  }
+  return DEFAULT_SWARM_GATEWAYS;
+}
+
+/**
+ * Swarm Storage Gateway implementation.
+ */
+export class SwarmGateway implements StorageGateway {
+  readonly protocol = "bzz" as const;
+  readonly gateways: string[];
+  private readonly timeout: number;
+
+  constructor(gateways?: string[], timeout?: number) {
+    this.gateways = gateways ?? getGatewaysFromEnv();
+    this.timeout = timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Validate a Swarm reference.
+   */
+  isValidHash(hash: string): boolean {
+    return isValidSwarmReference(hash);
+  }
+
+  /**
+   * Get the primary gateway URL for a reference.
+   */
+  getGatewayUrl(hash: string): string {
+    const gateway = this.gateways[0];
+    return `${gateway}/bzz/${normalizeSwarmReference(hash)}`;
+  }
+
+  /**
+   * Build gateway URL for a specific gateway.
+   * Bee resolves paths through the manifest at the reference.
+   */
+  private buildUrl(gateway: string, hash: string, path?: string): string {
+    const base = `${gateway}/bzz/${normalizeSwarmReference(hash)}`;
+    return path ? `${base}${path}` : `${base}/`;
+  }
+
+  /**
+   * Fetch content from Swarm with multi-gateway fallback.
+   */
+  async fetch(hash: string, path?: string, options?: FetchOptions): Promise<Response> {
+    const timeout = options?.timeout ?? this.timeout;
+    const errors: Error[] = [];
+
+    for (const gateway of this.gateways) {
+      const url = this.buildUrl(gateway, hash, path);
+
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: {
+            "Accept": "application/json, text/plain, */*",
+          },
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return response;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        errors.push(err);
+        console.warn(`Swarm gateway ${gateway} failed for ${hash}:`, err.message);
+        // Continue to next gateway
+      }
+    }
+
+    throw new GatewayError(
+      `All Swarm gateways failed for reference: ${hash}`,
+      "bzz",
+      hash,
+      this.gateways,
+      errors
+    );
+  }
+
+  /**
+   * Fetch and parse JSON from Swarm.
+   */
+  async fetchJson<T = unknown>(hash: string, path?: string): Promise<T> {
+    const response = await this.fetch(hash, path);
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Fetch text content from Swarm.
+   */
+  async fetchText(hash: string, path?: string): Promise<string> {
+    const response = await this.fetch(hash, path);
+    return response.text();
+  }
+
+  /**
+   * Fetch a file from within a Swarm manifest (directory upload).
+   *
+   * @param dirHash - The manifest reference
+   * @param filePath - Path to the file within the manifest (e.g., "/registry.json")
+   */
+  async fetchFromDir<T = unknown>(dirHash: string, filePath: string): Promise<T> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    return this.fetchJson<T>(dirHash, normalizedPath);
+  }
+
+  /**
+   * Fetch text file from within a Swarm manifest.
+   */
+  async fetchTextFromDir(dirHash: string, filePath: string): Promise<string> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    return this.fetchText(dirHash, normalizedPath);
+  }
+
+  /**
+   * Fetch a file from within a Swarm manifest as raw bytes.
+   */
+  async fetchBytesFromDir(dirHash: string, filePath: string): Promise<Uint8Array> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+    const response = await this.fetch(dirHash, normalizedPath);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Singleton Swarm gateway instance.
+ */
+let _swarmGateway: SwarmGateway | null = null;
+
+/**
+ * Get the Swarm gateway instance.
+ */
+export function getSwarmGateway(): SwarmGateway {
+  if (!_swarmGateway) {
+    _swarmGateway = new SwarmGateway();
+  }
+  return _swarmGateway;
+}
+
+/**
+ * Validate a Swarm reference string (hex, with or without 0x prefix).
+ */
+export function isValidSwarmReference(hash: string): boolean {
+  const cleanHash = hash.startsWith("0x") ? hash.slice(2) : hash;
+  return SWARM_REFERENCE_PATTERN.test(cleanHash);
+}
+
+/**
+ * Normalize a Swarm reference to lowercase hex without 0x prefix.
+ */
+export function normalizeSwarmReference(hash: string): string {
+  const cleanHash = hash.startsWith("0x") ? hash.slice(2) : hash;
+  return cleanHash.toLowerCase();
+}
@@ -0,0 +1,57 @@
+/**
+ * Verified directory tests: blocks already held are not fetched again.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { packDirectoryCar } from "~/lib/car";
+import type { IpfsGateway } from "./ipfs";
+import { readVerifiedCar, VerifiedDirectory } from "./trustless";
+
+const FILES = [
+  { path: "registry.json", content: "{}\n" },
+  { path: "licenses/v1.md", content: "MIT License\n" },
+];
+
+/**
+ * A gateway that serves a packed directory as CAR responses and counts the
+ * requests per path.
+ */
+async function servePackage() {
+  const { cid, car } = await packDirectoryCar(FILES);
+  const verified = await readVerifiedCar(new Uint8Array(await car.arrayBuffer()));
+  const requests: string[] = [];
+  const gateway = {
+    fetchVerifiedCar: async (_hash: string, path?: string) => {
+      requests.push(path ?? "/");
+      return verified;
+    },
+  } as unknown as IpfsGateway;
+
+  return { directory: VerifiedDirectory.fromGateway(cid, gateway), requests };
+}
+
+describe("VerifiedDirectory", () => {
+  it("fetches a file only while its blocks are missing", async () => {
+    const { directory, requests } = await servePackage();
+
+    assert.equal(await directory.readText("/licenses/v1.md"), "MIT License\n");
+    assert.equal(await directory.readText("/licenses/v1.md"), "MIT License\n");
+    assert.deepEqual(requests, ["/licenses/v1.md"]);
+  });
+
+  it("reads other files from blocks fetched earlier", async () => {
+    const { directory, requests } = await servePackage();
+
+    await directory.readFile("/licenses/v1.md");
+    assert.deepEqual(await directory.readJson("/registry.json"), {});
+    assert.deepEqual(requests, ["/licenses/v1.md"]);
+  });
+
+  it("fetches again for a path that is not held, and reports missing files", async () => {
+    const { directory, requests } = await servePackage();
+
+    await assert.rejects(directory.readFile("/licenses/v2.md"));
+    assert.deepEqual(requests, ["/licenses/v2.md"]);
+  });
+});
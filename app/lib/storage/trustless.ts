@@ -0,0 +1,219 @@
+/**
+ * Trustless IPFS Verification
+ *
+ * Verifies IPFS blocks against their CIDs so that content can be trusted
+ * regardless of where it came from (a public gateway or an uploaded CAR).
+ * Files are only ever read from blocks that passed verification.
+ */
+
+import { CarBlockIterator } from "@ipld/car/iterator";
+import { exporter } from "ipfs-unixfs-exporter";
+import { equals } from "multiformats/bytes";
+import { CID } from "multiformats/cid";
+import { identity } from "multiformats/hashes/identity";
+import { sha256 } from "multiformats/hashes/sha2";
+import type { CarBlock } from "~/lib/car";
+import { MemoryBlockstore } from "~/lib/car";
+import type { ContentReference } from "~/types/license-registry";
+import type { IpfsGateway } from "./ipfs";
+import type { DirectoryReader } from "./types";
+import { ContentVerificationError } from "./types";
+
+/**
+ * Multihash function codes we can verify.
+ */
+const SHA2_256_CODE = sha256.code;
+const IDENTITY_CODE = identity.code;
+
+/**
+ * Verify that a block's bytes match the multihash in its CID.
+ *
+ * @param cid - The CID claimed for the block
+ * @param bytes - The block bytes
+ * @returns True if the bytes hash to the CID's multihash
+ * @throws Error if the CID uses an unsupported hash function
+ */
+export async function verifyBlock(cid: CID, bytes: Uint8Array): Promise<boolean> {
+  switch (cid.multihash.code) {
+    case SHA2_256_CODE: {
+      const digest = await sha256.digest(bytes);
+      return equals(digest.digest, cid.multihash.digest);
+    }
+    case IDENTITY_CODE:
+      return equals(bytes, cid.multihash.digest);
+    default:
+      throw new Error(`Unsupported multihash code 0x${cid.multihash.code.toString(16)} in ${cid}`);
+  }
+}
+
+/**
+ * Parse a CAR file and verify every block against its CID.
+ *
+ * @param bytes - The CAR file bytes
+ * @param hash - Content hash used for error reporting
+ * @returns The CAR roots and the verified blocks
+ * @throws ContentVerificationError if any block fails verification
+ */
+export async function readVerifiedCar(
+  bytes: Uint8Array,
+  hash = "car"
+): Promise<{ roots: CID[]; blocks: CarBlock[] }> {
+  const iterator = await CarBlockIterator.fromBytes(bytes);
+  const roots = await iterator.getRoots();
+  const blocks: CarBlock[] = [];
+
+  for await (const block of iterator) {
+    let valid: boolean;
+    try {
+      valid = await verifyBlock(block.cid, block.bytes);
+    } catch (error) {
+      throw new ContentVerificationError(
+        error instanceof Error ? error.message : String(error),
+        "ipfs",
+        hash
+      );
+    }
+
+    if (!valid) {
+      throw new ContentVerificationError(
+        `Block ${block.cid} does not match its multihash`,
+        "ipfs",
+        hash
+      );
+    }
+    blocks.push({ cid: block.cid, bytes: block.bytes });
+  }
+
+  return { roots, blocks };
+}
+
+/**
+ * A UnixFS directory whose files are read exclusively from verified blocks.
+ *
+ * Blocks come either from an uploaded CAR file or from trustless gateway
+ * responses (`?format=car`). In both cases every block is hash-checked
+ * before it is stored, and files are resolved starting from the expected
+ * root CID - so a source cannot substitute different content.
+ */
+export class VerifiedDirectory implements DirectoryReader {
+  readonly cid: string;
+  readonly ref: ContentReference;
+  readonly verified = true;
+  private readonly root: CID;
+  private readonly blockstore = new MemoryBlockstore();
+  private readonly gateway: IpfsGateway | null;
+
+  private constructor(root: CID, gateway: IpfsGateway | null) {
+    this.root = root;
+    this.cid = root.toString();
+    this.ref = { protocol: "ipfs", hash: this.cid };
+    this.gateway = gateway;
+  }
+
+  /**
+   * Create a directory that fetches verified blocks from IPFS gateways.
+   */
+  static fromGateway(cid: string, gateway: IpfsGateway): VerifiedDirectory {
+    return new VerifiedDirectory(CID.parse(cid), gateway);
+  }
+
+  /**
+   * Create a directory from a CAR file.
+   * All blocks are verified up front; the CAR must have exactly one root.
+   */
+  static async fromCar(bytes: Uint8Array): Promise<VerifiedDirectory> {
+    const { roots, blocks } = await readVerifiedCar(bytes);
+    if (roots.length !== 1) {
+      throw new Error(`Expected a CAR with exactly one root, found ${roots.length}`);
+    }
+
+    const directory = new VerifiedDirectory(roots[0], null);
+    await directory.addBlocks(blocks);
+    return directory;
+  }
+
+  /**
+   * Number of verified blocks held for this directory.
+   */
+  get blockCount(): number {
+    return this.blockstore.entries().length;
+  }
+
+  /**
+   * Read a file from the directory. Blocks already held are used as they
+   * are; the file is only fetched if some of its blocks are missing.
+   *
+   * @param filePath - Path within the directory (e.g., "/registry.json")
+   * @returns The file bytes
+   */
+  async readFile(filePath: string): Promise<Uint8Array> {
+    const normalizedPath = filePath.startsWith("/") ? filePath : `/${filePath}`;
+
+    if (this.gateway) {
+      try {
+        return await this.exportFile(normalizedPath);
+      } catch {
+        // Not every block of the path is held yet
+      }
+      const { blocks } = await this.gateway.fetchVerifiedCar(this.cid, normalizedPath);
+      await this.addBlocks(blocks);
+    }
+
+    return this.exportFile(normalizedPath);
+  }
+
+  /**
+   * Read a file as UTF-8 text.
+   * Invalid UTF-8 is an error rather than replaced.
+   */
+  async readText(filePath: string): Promise<string> {
+    return new TextDecoder("utf-8", { fatal: true }).decode(await this.readFile(filePath));
+  }
+
+  /**
+   * Read a file and parse it as JSON.
+   */
+  async readJson<T = unknown>(filePath: string): Promise<T> {
+    return JSON.parse(await this.readText(filePath)) as T;
+  }
+
+  /**
+   * Read a file from the blocks held locally.
+   */
+  private async exportFile(normalizedPath: string): Promise<Uint8Array> {
+    const entry = await exporter(`${this.cid}${normalizedPath}`, this.blockstore);
+    if (entry.type !== "file" && entry.type !== "raw" && entry.type !== "identity") {
+      throw new Error(`Not a file: ${normalizedPath}`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of entry.content()) {
+      chunks.push(chunk);
+    }
+    return concatBytes(chunks);
+  }
+
+  private async addBlocks(blocks: CarBlock[]): Promise<void> {
+    for (const block of blocks) {
+      await this.blockstore.put(block.cid, block.bytes);
+    }
+  }
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Concatenate byte chunks into a single Uint8Array.
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
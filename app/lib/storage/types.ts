@@ -53,6 +53,33 @@ export interface StorageGateway {
    */
   fetchText(hash: string): Promise<string>;
 
+  /**
+   * Fetch a file from within a directory and parse it as JSON.
+   * 
+   * @param dirHash - The directory hash (IPFS directory CID, Swarm manifest, etc.)
+   * @param filePath - Path to the file within the directory (e.g., "/registry.json")
+   * @returns Parsed JSON data
+   */
+  fetchFromDir<T = unknown>(dirHash: string, filePath: string): Promise<T>;
+
+  /**
+   * Fetch a text file from within a directory.
+   * 
+   * @param dirHash - The directory hash
+   * @param filePath - Path to the file within the directory
+   * @returns Text content
+   */
+  fetchTextFromDir(dirHash: string, filePath: string): Promise<string>;
+
+  /**
+   * Fetch a file from within a directory as raw bytes.
+   * 
+   * @param dirHash - The directory hash
+   * @param filePath - Path to the file within the directory
+   * @returns File content, exactly as served
+   */
+  fetchBytesFromDir(dirHash: string, filePath: string): Promise<Uint8Array>;
+
   /**
    * Get the gateway URL for a given hash.
    * Returns the first (primary) gateway URL.
@@ -71,6 +98,38 @@ export interface StorageGateway {
   isValidHash(hash: string): boolean;
 }
 
+/**
+ * Read access to the files of a published registry directory.
+ * Implemented both by plain gateway access and by verified sources.
+ */
+export interface DirectoryReader {
+  /** The content reference of the directory */
+  readonly ref: ContentReference;
+  /** Whether file contents are verified against the content address */
+  readonly verified: boolean;
+
+  /**
+   * Read a file as raw bytes.
+   * 
+   * @param filePath - Path within the directory (e.g., "/licenses/v1.md")
+   */
+  readFile(filePath: string): Promise<Uint8Array>;
+
+  /**
+   * Read a file as text.
+   * 
+   * @param filePath - Path within the directory (e.g., "/licenses/v1.md")
+   */
+  readText(filePath: string): Promise<string>;
+
+  /**
+   * Read a file and parse it as JSON.
+   * 
+   * @param filePath - Path within the directory (e.g., "/registry.json")
+   */
+  readJson<T = unknown>(filePath: string): Promise<T>;
+}
+
 /**
  * Result of a fetch operation with metadata.
  */
@@ -99,6 +158,21 @@ export class GatewayError extends Error {
   }
 }
 
+/**
+ * Error thrown when fetched content does not match its content address.
+ * Indicates a malicious or misbehaving gateway (or a corrupted CAR file).
+ */
+export class ContentVerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly protocol: StorageProtocol,
+    public readonly hash: string
+  ) {
+    super(message);
+    this.name = "ContentVerificationError";
+  }
+}
+
 /**
  * Options for fetching content.
  */
@@ -132,7 +206,7 @@ export function formatContentUri(ref: ContentReference): string {
  * e.g., "ipfs://bafybeig..." → { protocol: "ipfs", hash: "bafybeig..." }
  */
 export function parseContentUri(uri: string): ContentReference | null {
-  const match = uri.match(/^(ipfs|ipns|bzz|ar):\/\/(.+)$/);
+  const match = uri.match(/^(ipfs|ipns|bzz|ar|onion):\/\/(.+)$/);
   if (!match) return null;
   return {
     protocol: match[1] as StorageProtocol,
@@ -0,0 +1,396 @@
+/**
+ * License Text Diff
+ *
+ * Line diff of two license texts with word-level highlighting inside
+ * changed lines, grouped into hunks with surrounding context and summarized
+ * per section of the license. Uses the Myers O(ND) algorithm.
+ */
+
+/**
+ * A run of text within a changed line.
+ */
+export interface DiffSpan {
+  /** Whether this run differs from the other side */
+  changed: boolean;
+  text: string;
+}
+
+/**
+ * One row of the diff. "change" rows pair a removed line with the line
+ * that replaced it; side-by-side views show them on the same row.
+ */
+export interface DiffRow {
+  type: "equal" | "insert" | "delete" | "change";
+  /** Line number in the old text (1-based) */
+  oldLine?: number;
+  /** Line number in the new text (1-based) */
+  newLine?: number;
+  oldText?: string;
+  newText?: string;
+  /** Word-level runs of the old line ("change" rows only) */
+  oldSpans?: DiffSpan[];
+  /** Word-level runs of the new line ("change" rows only) */
+  newSpans?: DiffSpan[];
+}
+
+/**
+ * A group of changed rows with surrounding context.
+ */
+export interface DiffHunk {
+  /** First old line covered by the hunk (1-based) */
+  oldStart: number;
+  /** First new line covered by the hunk (1-based) */
+  newStart: number;
+  /** Heading of the section the first change falls in */
+  section: string;
+  rows: DiffRow[];
+}
+
+/**
+ * Changes within one section of the license.
+ */
+export interface SectionChange {
+  section: string;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Full diff of two license texts.
+ */
+export interface LicenseTextDiff {
+  /** Every row, including unchanged lines */
+  rows: DiffRow[];
+  /** Changed rows with context */
+  hunks: DiffHunk[];
+  /** Changes per section, in document order */
+  sections: SectionChange[];
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  /** Whether the texts are identical */
+  identical: boolean;
+}
+
+/**
+ * Section label for text before the first heading.
+ */
+const PREAMBLE_SECTION = "Beginning of text";
+
+/**
+ * Diff two license texts line by line.
+ *
+ * @param oldText - The earlier text
+ * @param newText - The later text
+ * @param context - Unchanged lines to show around each change
+ */
+export function diffLicenseTexts(oldText: string, newText: string, context = 3): LicenseTextDiff {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const rows = buildRows(oldLines, newLines);
+
+  const stats = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const row of rows) {
+    if (row.type === "insert") stats.added++;
+    else if (row.type === "delete") stats.removed++;
+    else if (row.type === "change") stats.changed++;
+    else stats.unchanged++;
+  }
+
+  const oldSections = findSections(oldLines);
+  const newSections = findSections(newLines);
+  const sectionOf = (row: DiffRow) =>
+    row.newLine !== undefined
+      ? newSections[row.newLine - 1]
+      : oldSections[(row.oldLine ?? 1) - 1];
+
+  return {
+    rows,
+    hunks: buildHunks(rows, context, sectionOf),
+    sections: summarizeSections(rows, sectionOf),
+    stats,
+    identical: stats.added + stats.removed + stats.changed === 0,
+  };
+}
+
+/**
+ * Compute the shortest edit script between two sequences.
+ *
+ * @returns Operations in order; indices refer to `a` (delete/equal) and `b` (insert/equal)
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[]
+): { type: "equal" | "insert" | "delete"; aIndex: number; bIndex: number }[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the path
+  const ops: { type: "equal" | "insert" | "delete"; aIndex: number; bIndex: number }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1])
+      ? k + 1
+      : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", aIndex: x, bIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", aIndex: x, bIndex: y - 1 });
+      } else {
+        ops.push({ type: "delete", aIndex: x - 1, bIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Diff two lines word by word.
+ */
+export function diffWords(oldLine: string, newLine: string): { oldSpans: DiffSpan[]; newSpans: DiffSpan[] } {
+  const oldTokens = tokenizeWords(oldLine);
+  const newTokens = tokenizeWords(newLine);
+  const oldSpans: DiffSpan[] = [];
+  const newSpans: DiffSpan[] = [];
+
+  for (const op of diffSequences(oldTokens, newTokens)) {
+    if (op.type !== "insert") {
+      appendSpan(oldSpans, oldTokens[op.aIndex], op.type === "delete");
+    }
+    if (op.type !== "delete") {
+      appendSpan(newSpans, newTokens[op.bIndex], op.type === "insert");
+    }
+  }
+
+  return { oldSpans, newSpans };
+}
+
+// ============================================
+// Rows and hunks
+// ============================================
+
+/**
+ * Turn a line diff into rows, pairing removed and inserted lines that sit
+ * between the same unchanged lines into "change" rows.
+ */
+function buildRows(oldLines: string[], newLines: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let i = 0; i < paired; i++) {
+      const oldText = oldLines[deleted[i]];
+      const newText = newLines[inserted[i]];
+      rows.push({
+        type: "change",
+        oldLine: deleted[i] + 1,
+        newLine: inserted[i] + 1,
+        oldText,
+        newText,
+        ...diffWords(oldText, newText),
+      });
+    }
+    for (const index of deleted.slice(paired)) {
+      rows.push({ type: "delete", oldLine: index + 1, oldText: oldLines[index] });
+    }
+    for (const index of inserted.slice(paired)) {
+      rows.push({ type: "insert", newLine: index + 1, newText: newLines[index] });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of diffSequences(oldLines, newLines)) {
+    if (op.type === "delete") {
+      deleted.push(op.aIndex);
+    } else if (op.type === "insert") {
+      inserted.push(op.bIndex);
+    } else {
+      flush();
+      rows.push({
+        type: "equal",
+        oldLine: op.aIndex + 1,
+        newLine: op.bIndex + 1,
+        oldText: oldLines[op.aIndex],
+        newText: newLines[op.bIndex],
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Group changed rows into hunks with `context` unchanged rows around them.
+ * Hunks whose context would overlap are merged.
+ */
+function buildHunks(
+  rows: DiffRow[],
+  context: number,
+  sectionOf: (row: DiffRow) => string
+): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+
+  const close = () => {
+    if (start < 0) return;
+    const hunkRows = rows.slice(start, end + 1);
+    const firstChange = hunkRows.find(row => row.type !== "equal") ?? hunkRows[0];
+    hunks.push({
+      oldStart: hunkRows.find(row => row.oldLine !== undefined)?.oldLine ?? 0,
+      newStart: hunkRows.find(row => row.newLine !== undefined)?.newLine ?? 0,
+      section: sectionOf(firstChange),
+      rows: hunkRows,
+    });
+    start = -1;
+  };
+
+  rows.forEach((row, index) => {
+    if (row.type === "equal") return;
+
+    const from = Math.max(0, index - context);
+    if (start >= 0 && from > end + 1) {
+      close();
+    }
+    if (start < 0) {
+      start = from;
+    }
+    end = Math.min(rows.length - 1, index + context);
+  });
+  close();
+
+  return hunks;
+}
+
+/**
+ * Count changes per section, in document order.
+ */
+function summarizeSections(rows: DiffRow[], sectionOf: (row: DiffRow) => string): SectionChange[] {
+  const sections = new Map<string, SectionChange>();
+
+  for (const row of rows) {
+    if (row.type === "equal") continue;
+
+    const section = sectionOf(row);
+    let change = sections.get(section);
+    if (!change) {
+      change = { section, added: 0, removed: 0, changed: 0 };
+      sections.set(section, change);
+    }
+    if (row.type === "insert") change.added++;
+    else if (row.type === "delete") change.removed++;
+    else change.changed++;
+  }
+
+  return [...sections.values()];
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Split text into lines. A trailing newline does not produce an empty line.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r\n|\r|\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Split a line into words, whitespace runs and punctuation.
+ */
+function tokenizeWords(line: string): string[] {
+  return line.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Append text to a span list, merging with the last span when it has the
+ * same state.
+ */
+function appendSpan(spans: DiffSpan[], text: string, changed: boolean): void {
+  const last = spans[spans.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    spans.push({ changed, text });
+  }
+}
+
+/**
+ * Find the section heading that applies to each line.
+ * Headings are Markdown headings, "Section N"/"Article N" lines, short
+ * numbered lines ("1. Definitions.") and short all-caps lines.
+ */
+function findSections(lines: string[]): string[] {
+  let current = PREAMBLE_SECTION;
+  return lines.map(line => {
+    const heading = parseHeading(line);
+    if (heading) current = heading;
+    return current;
+  });
+}
+
+/**
+ * Return the heading text of a line, or null if it is not a heading.
+ */
+function parseHeading(line: string): string | null {
+  const text = line.trim();
+  if (text === "" || text.length > 80) return null;
+
+  const markdown = /^#{1,6}\s+(.+)$/.exec(text);
+  if (markdown) return markdown[1].trim();
+
+  if (/^(section|article|clause)\s+\d+/i.test(text)) return text;
+  if (/^\d+(\.\d+)*\.?\s+\S/.test(text) && text.length <= 60) return text;
+  if (/\p{Lu}{4,}/u.test(text) && text === text.toUpperCase()) return text;
+
+  return null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Registry comparison tests: what a proposed update may and may not change.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LicenseEntry, NormalizedRegistry, RegistryManifest } from "~/types/license-registry";
+import { REGISTRY_SCHEMA_V1 } from "~/types/license-registry";
+import { linkEntries } from "./entry-chain";
+import { hashLicenseText } from "./license-text";
+import { buildRegistryFiles } from "./publisher";
+import { normalizeRegistry } from "./registry-schema";
+import { LocalDirectory } from "./storage";
+import type { ComparisonResult } from "./verifier";
+import { compareRegistries } from "./verifier";
+
+const TEXTS = ["MIT License text\n", "Apache License text\n"];
+
+/**
+ * An unlinked entry for version `n` (1-based) with text `TEXTS[n - 1]`.
+ */
+async function makeEntry(version: number): Promise<LicenseEntry> {
+  return {
+    version,
+    effective_date: `2024-0${version}-01`,
+    license: {
+      spdx: "MIT",
+      text_path: `/licenses/v${version}.md`,
+      text_sha256: await hashLicenseText(TEXTS[version - 1], "lf"),
+      text_encoding: "utf-8",
+      normalization: "lf",
+    },
+  };
+}
+
+/**
+ * A registry as published, and a directory serving it with every text.
+ */
+async function publish(manifest: unknown): Promise<{ registry: NormalizedRegistry; source: LocalDirectory }> {
+  const files = new Map<string, Blob>([["registry.json", new Blob([JSON.stringify(manifest)])]]);
+  TEXTS.forEach((text, index) => files.set(`licenses/v${index + 1}.md`, new Blob([text])));
+  return {
+    registry: await normalizeRegistry(manifest),
+    source: await LocalDirectory.fromFiles(files, "test"),
+  };
+}
+
+/**
+ * A v2 registry with versions 1 to `count`.
+ */
+async function buildRegistry(count: number): Promise<RegistryManifest> {
+  let { manifest } = await buildRegistryFiles({ name: "Test", newEntry: await makeEntry(1), licenseText: TEXTS[0] });
+  for (let version = 2; version <= count; version++) {
+    ({ manifest } = await buildRegistryFiles({
+      name: "Test",
+      newEntry: await makeEntry(version),
+      licenseText: TEXTS[version - 1],
+      previousEntries: manifest.entries,
+      previousHeadSha256: manifest.head_sha256,
+      previousLicenses: new Map(manifest.entries.map(entry => [entry.license.text_path, TEXTS[entry.version - 1]])),
+    }));
+  }
+  return manifest;
+}
+
+/**
+ * A registry whose entries were edited and then linked again from scratch,
+ * so its own chain is intact.
+ */
+async function rewrite(
+  manifest: RegistryManifest,
+  edit: (entry: LicenseEntry) => LicenseEntry
+): Promise<RegistryManifest> {
+  const { entries, headDigest } = await linkEntries(manifest.entries.map(edit));
+  return { ...manifest, entries, head_sha256: headDigest };
+}
+
+/**
+ * Find a check by id.
+ */
+function getCheck(result: ComparisonResult, id: string) {
+  const check = result.checks.find(check => check.id === id);
+  assert.ok(check, `missing check ${id}`);
+  return check;
+}
+
+describe("compareRegistries", () => {
+  it("accepts an appended entry", async () => {
+    const current = await publish(await buildRegistry(1));
+    const proposed = await publish(await buildRegistry(2));
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(result.valid, true, result.summary);
+    assert.deepEqual(result.newEntries.map(entry => entry.version), [2]);
+    assert.equal(getCheck(result, "history_linked").passed, true);
+    assert.equal(getCheck(result, "hash_v1").passed, true);
+    assert.equal(getCheck(result, "hash_v2").passed, true);
+  });
+
+  it("rejects a schema downgrade", async () => {
+    const v2 = await buildRegistry(2);
+    const v1 = {
+      schema: REGISTRY_SCHEMA_V1,
+      name: v2.name,
+      current_version: v2.current_version,
+      entries: v2.entries.map(({ prev_entry_sha256: _link, ...entry }) => entry),
+    };
+    const current = await publish(v2);
+    const proposed = await publish(v1);
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(result.valid, false);
+    assert.equal(getCheck(result, "schema").passed, false);
+    assert.match(getCheck(result, "schema").error ?? "", /Schema downgrade/);
+  });
+
+  it("flags an upgrade from v1 without failing it", async () => {
+    const v2 = await buildRegistry(1);
+    const v1 = {
+      schema: REGISTRY_SCHEMA_V1,
+      name: v2.name,
+      current_version: v2.current_version,
+      entries: v2.entries.map(({ prev_entry_sha256: _link, ...entry }) => entry),
+    };
+    const current = await publish(v1);
+    const proposed = await publish(await buildRegistry(2));
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(result.valid, true, result.summary);
+    assert.equal(getCheck(result, "schema").passed, true);
+    assert.ok(getCheck(result, "schema").warning);
+    assert.equal(getCheck(result, "history_linked").passed, true);
+  });
+
+  it("rejects a rewritten history even when its own chain is intact", async () => {
+    const published = await buildRegistry(2);
+    const rewritten = await rewrite(published, entry =>
+      entry.version === 1 ? { ...entry, effective_date: "2023-01-01" } : entry
+    );
+    const current = await publish(published);
+    const proposed = await publish(rewritten);
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(result.valid, false);
+    assert.equal(getCheck(result, "entry_chain").passed, true);
+    assert.equal(getCheck(result, "history_linked").passed, false);
+    assert.match(getCheck(result, "history_linked").error ?? "", /history was rewritten/);
+  });
+
+  it("reports every modified field of an existing entry", async () => {
+    const published = await buildRegistry(2);
+    const rewritten = await rewrite(published, entry => entry.version === 1
+      ? {
+        ...entry,
+        effective_date: "2023-01-01",
+        license: { ...entry.license, spdx: "ISC", text_path: "/licenses/v1.txt", normalization: "none" },
+      }
+      : entry
+    );
+    const current = await publish(published);
+    const proposed = await publish(rewritten);
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(getCheck(result, "entries_unmodified").passed, false);
+    const [v2, v1] = result.modifiedEntries;
+    assert.deepEqual(result.modifiedEntries.map(modified => modified.old.version), [2, 1]);
+    assert.deepEqual(v1.differences, [
+      "effective_date: 2024-01-01 → 2023-01-01",
+      "license.spdx: MIT → ISC",
+      "license.text_path: /licenses/v1.md → /licenses/v1.txt",
+      "license.normalization: lf → none",
+    ]);
+    // v2 itself is unchanged, but now links to a different v1
+    assert.deepEqual(v2.differences, ["prev_entry_sha256: link changed"]);
+  });
+
+  it("reports a changed normalization on its own", async () => {
+    const published = await buildRegistry(1);
+    const rewritten = await rewrite(published, entry => ({
+      ...entry,
+      license: { ...entry.license, normalization: "none" },
+    }));
+    const current = await publish(published);
+    const proposed = await publish(rewritten);
+    const result = await compareRegistries(current.registry, proposed.registry, proposed.source);
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.modifiedEntries[0]?.differences, ["license.normalization: lf → none"]);
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * Registry Verification
+ * 
+ * Compares registry versions to check that updates are append-only:
+ * history is preserved, new entries are added correctly, and license text
+ * hashes match. For hash-linked (v2) registries this is also checked
+ * cryptographically: the proposed entry chain must contain the current head.
+ * Texts of new entries are also matched against their declared licenses,
+ * and their effective dates are checked against the current head.
+ */
+
+import type {
+  ChainVerificationResult,
+  ContentReference,
+  LicenseEntry,
+  LicenseTextVerification,
+  NormalizedRegistry,
+  RegistryManifest,
+  SchemaIssue,
+  VerificationCheck,
+} from "~/types/license-registry";
+import type { DirectoryReader } from "~/lib/storage";
+import { formatContentUri, LocalDirectory, openDirectory, VerifiedDirectory } from "~/lib/storage";
+import type { EntryLicenseText } from "~/lib/license-text";
+import {
+  describeCanonicalForm,
+  getLicenseTexts,
+  getTextNormalization,
+  verifyStoredLicenseText,
+} from "~/lib/license-text";
+import { canonicalJson, verifyEntryChain } from "~/lib/entry-chain";
+import { describeLicenseMismatch, formatConfidence, matchLicenseText } from "~/lib/license-match";
+import type { LicenseChange } from "~/lib/license-semantics";
+import { classifyLicenseChange } from "~/lib/license-semantics";
+import { getPreemptedEntries, parseEffectiveDate } from "~/lib/effective-date";
+import {
+  compareSchemas,
+  formatSchemaIssue,
+  isHashLinkedSchema,
+  normalizeRegistry,
+  RegistrySchemaError,
+} from "~/lib/registry-schema";
+
+/**
+ * Result of comparing a proposed registry against the current one.
+ */
+export interface ComparisonResult {
+  valid: boolean;
+  summary: string;
+  checks: VerificationCheck[];
+  newEntries: LicenseEntry[];
+  modifiedEntries: { old: LicenseEntry; new: LicenseEntry; differences: string[] }[];
+  removedEntries: LicenseEntry[];
+  /** How each new entry changes the license of the version before it */
+  licenseChanges: LicenseChange[];
+}
+
+/**
+ * Audit of one transition between consecutive registry versions.
+ */
+export interface RegistryTransitionAudit {
+  /** Position of the transition in the history (1 = first update) */
+  index: number;
+  /** Registry before the update */
+  from: ContentReference;
+  /** Registry after the update */
+  to: ContentReference;
+  /** Comparison result, or null if either registry could not be loaded */
+  result: ComparisonResult | null;
+  /** Why the comparison could not run */
+  error?: string;
+}
+
+/**
+ * Result of auditing every transition in a registry's history.
+ */
+export interface HistoryAuditResult extends ChainVerificationResult {
+  /** Human-readable summary */
+  summary: string;
+  /** Per-transition results, oldest first */
+  transitions: RegistryTransitionAudit[];
+}
+
+/**
+ * Fetch a license text and check its bytes against its `text_sha256`.
+ * Files not stored in the canonical form their normalization records are
+ * reported as "noncanonical" rather than normalized again.
+ * Hashes are computed locally, so the result holds even for content that
+ * was served by an unverified gateway.
+ *
+ * @param source - The registry directory
+ * @param license - The text to check (an entry's main text or an additional text)
+ */
+export async function verifyLicenseText(
+  source: DirectoryReader,
+  license: EntryLicenseText
+): Promise<LicenseTextVerification> {
+  return (await readLicenseText(source, license)).verification;
+}
+
+/**
+ * A license text as read for its hash check.
+ */
+interface LicenseTextRead {
+  verification: LicenseTextVerification;
+  /** The decoded text, or null if it could not be read or is not valid UTF-8 */
+  text: string | null;
+}
+
+/**
+ * Read a license text once and check it, keeping the text for further checks.
+ */
+async function readLicenseText(source: DirectoryReader, license: EntryLicenseText): Promise<LicenseTextRead> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await source.readFile(license.text_path);
+  } catch (error) {
+    return {
+      verification: {
+        status: "unavailable",
+        error: error instanceof Error ? error.message : String(error),
+      },
+      text: null,
+    };
+  }
+
+  return verifyStoredLicenseText(bytes, license);
+}
+
+/**
+ * Build the content verification check for the proposed directory.
+ */
+export function buildContentCheck(source: DirectoryReader): VerificationCheck {
+  if (source instanceof LocalDirectory) {
+    return {
+      id: "content_local",
+      description: "Proposed content read from a local package",
+      passed: true,
+      details: `${source.fileCount} files from ${source.name}; CID when packed as a CAR: ${source.cid}`,
+      warning: "The package has not been published. Check that the CID in the proposal matches the one above.",
+    };
+  }
+
+  if (!source.verified) {
+    return {
+      id: "content_unverified",
+      description: "Proposed content read from a gateway",
+      passed: true,
+      details: `${source.ref.protocol} content at ${source.ref.hash}`,
+      warning: `${source.ref.protocol} content is served by the gateway without block verification, so it is trusted as served`,
+    };
+  }
+
+  const blockCount = source instanceof VerifiedDirectory ? source.blockCount : 0;
+  return {
+    id: "content_verified",
+    description: "Proposed content matches its CID",
+    passed: blockCount > 0,
+    error: blockCount === 0 ? "No verified blocks were read" : undefined,
+    details: `${blockCount} IPFS ${blockCount === 1 ? "block" : "blocks"} hash-verified against ${source.ref.hash}`,
+  };
+}
+
+/**
+ * Build the validation check for a proposed registry.json.
+ *
+ * @param issues - Validation issues (empty if the registry is valid)
+ */
+export function buildValidationCheck(issues: SchemaIssue[]): VerificationCheck {
+  return {
+    id: "registry_valid",
+    description: "Proposed registry.json is well-formed",
+    passed: issues.length === 0,
+    error: issues.length > 0
+      ? `${issues.length} validation ${issues.length === 1 ? "issue" : "issues"}`
+      : undefined,
+    details: issues.length > 0
+      ? issues.map(formatSchemaIssue).join("\n")
+      : "Types, version order, dates, paths and hashes are valid",
+  };
+}
+
+/**
+ * Build the result for a proposed registry that failed validation.
+ * No comparison is possible, so the validation check is the only one.
+ */
+export function buildInvalidRegistryResult(error: RegistrySchemaError): ComparisonResult {
+  return {
+    valid: false,
+    summary: "✗ Invalid: proposed registry.json failed validation",
+    checks: [buildValidationCheck(error.issues)],
+    newEntries: [],
+    modifiedEntries: [],
+    removedEntries: [],
+    licenseChanges: [],
+  };
+}
+
+/**
+ * Build the check that a new license text is the license its entry declares.
+ * Matching is approximate, so a mismatch is reported for review rather than
+ * invalidating the update.
+ *
+ * @param read - The text as read for its hash check
+ * @param id - Check id (e.g., "text_match_v5")
+ * @param label - What the text is (e.g., "v5" or "v5 (Documentation)")
+ */
+async function buildTextMatchCheck(
+  read: LicenseTextRead,
+  license: EntryLicenseText,
+  id: string,
+  label: string
+): Promise<VerificationCheck> {
+  const description = `License text matches declared SPDX ID for ${label}`;
+  const { text } = read;
+  if (text === null) {
+    return {
+      id,
+      description,
+      passed: false,
+      error: `Failed to match license text: ${read.verification.error ?? `${license.text_path} is not valid UTF-8`}`,
+    };
+  }
+
+  try {
+    const result = await matchLicenseText(text, license.spdx);
+    const best = result.matches[0];
+
+    if (result.matchesDeclared === null) {
+      return {
+        id,
+        description,
+        passed: true,
+        details: `Not checked: ${license.spdx} has no SPDX license text to compare with`,
+      };
+    }
+
+    return {
+      id,
+      description,
+      passed: result.matchesDeclared,
+      error: describeLicenseMismatch(result, license.spdx) ?? undefined,
+      details: `${license.spdx}: ${formatConfidence(result.declaredConfidence ?? 0)} of the SPDX text found` +
+        (best ? `; closest license: ${best.id} (${formatConfidence(best.confidence)})` : ""),
+    };
+  } catch (error) {
+    return {
+      id,
+      description,
+      passed: false,
+      error: `Failed to match license text: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Compare two registries and return a detailed comparison result.
+ * Both registries are normalized to the latest schema, so the entry chain
+ * can be compared even when one of them was published as v1.
+ */
+export async function compareRegistries(
+  current: NormalizedRegistry,
+  proposed: NormalizedRegistry,
+  proposedSource: DirectoryReader
+): Promise<ComparisonResult> {
+  const currentManifest = current.manifest;
+  const proposedManifest = proposed.manifest;
+  const checks: VerificationCheck[] = [];
+  const newEntries: LicenseEntry[] = [];
+  const modifiedEntries: { old: LicenseEntry; new: LicenseEntry; differences: string[] }[] = [];
+  const removedEntries: LicenseEntry[] = [];
+
+  // Build version maps for quick lookup
+  const currentEntriesByVersion = new Map<number, LicenseEntry>();
+  for (const entry of currentManifest.entries) {
+    currentEntriesByVersion.set(entry.version, entry);
+  }
+
+  const proposedEntriesByVersion = new Map<number, LicenseEntry>();
+  for (const entry of proposedManifest.entries) {
+    proposedEntriesByVersion.set(entry.version, entry);
+  }
+
+  // Check 0: The proposed registry passed strict validation when it was
+  // normalized; invalid registries never reach the comparison
+  checks.push(buildValidationCheck([]));
+
+  // Check 1: Schema transition. Upgrades are allowed but flagged; a
+  // registry can never move back to an older schema.
+  const schemaOrder = compareSchemas(proposed.sourceSchema, current.sourceSchema);
+  checks.push({
+    id: "schema",
+    description: "Registry schema is supported",
+    passed: schemaOrder >= 0,
+    error: schemaOrder < 0
+      ? `Schema downgrade: ${current.sourceSchema} → ${proposed.sourceSchema}`
+      : undefined,
+    details: schemaOrder === 0
+      ? proposed.sourceSchema
+      : `${current.sourceSchema} → ${proposed.sourceSchema}`,
+    warning: schemaOrder > 0
+      ? "Cross-schema update: the registry format changes with this update. Check that only the schema-specific fields differ."
+      : undefined,
+  });
+
+  // Check 1b: Hash-linked history. A published chain must be intact, and
+  // the proposed chain must contain the current head, which commits to
+  // every earlier entry. For v1 registries the links are derived locally.
+  const proposedChain = await verifyEntryChain(proposedManifest);
+  if (isHashLinkedSchema(proposed.sourceSchema)) {
+    checks.push(...proposedChain.checks);
+  }
+
+  if (currentManifest.head_sha256) {
+    const currentHead = currentManifest.head_sha256.toLowerCase();
+    const linked = [...proposedChain.digests.values()].includes(currentHead);
+    checks.push({
+      id: "history_linked",
+      description: "Proposed chain extends the current head",
+      passed: linked && proposedChain.valid,
+      error: !linked
+        ? "Current head digest is not part of the proposed entry chain - history was rewritten"
+        : !proposedChain.valid
+          ? "Proposed entry chain is broken"
+          : undefined,
+      details: `Current head: sha256:${currentManifest.head_sha256}`,
+    });
+  }
+
+  // Check 2: Version progression
+  const currentMaxVersion = currentManifest.current_version;
+  const proposedMaxVersion = proposedManifest.current_version;
+  const versionProgresses = proposedMaxVersion >= currentMaxVersion;
+  checks.push({
+    id: "version_progression",
+    description: "Version number increases or stays the same",
+    passed: versionProgresses,
+    error: !versionProgresses
+      ? `Proposed version (${proposedMaxVersion}) is less than current (${currentMaxVersion})`
+      : undefined,
+    details: `Current: v${currentMaxVersion} → Proposed: v${proposedMaxVersion}`,
+  });
+
+  // Check 3: All existing entries preserved
+  for (const [version, currentEntry] of currentEntriesByVersion) {
+    const proposedEntry = proposedEntriesByVersion.get(version);
+    
+    if (!proposedEntry) {
+      removedEntries.push(currentEntry);
+    } else {
+      // Compare entries
+      const differences: string[] = [];
+      
+      if (currentEntry.effective_date !== proposedEntry.effective_date) {
+        differences.push(`effective_date: ${currentEntry.effective_date} → ${proposedEntry.effective_date}`);
+      }
+      if (currentEntry.license.spdx !== proposedEntry.license.spdx) {
+        differences.push(`license.spdx: ${currentEntry.license.spdx} → ${proposedEntry.license.spdx}`);
+      }
+      if (currentEntry.license.text_path !== proposedEntry.license.text_path) {
+        differences.push(`license.text_path: ${currentEntry.license.text_path} → ${proposedEntry.license.text_path}`);
+      }
+      if (currentEntry.license.text_sha256 !== proposedEntry.license.text_sha256) {
+        differences.push(`license.text_sha256: hash changed`);
+      }
+      // The encoding and normalization define what the recorded hash covers
+      if (currentEntry.license.text_encoding !== proposedEntry.license.text_encoding) {
+        differences.push(`license.text_encoding: ${currentEntry.license.text_encoding ?? "(none)"} → ${proposedEntry.license.text_encoding ?? "(none)"}`);
+      }
+      if (currentEntry.license.normalization !== proposedEntry.license.normalization) {
+        differences.push(`license.normalization: ${currentEntry.license.normalization ?? "(none)"} → ${proposedEntry.license.normalization ?? "(none)"}`);
+      }
+      if (currentEntry.license.scope !== proposedEntry.license.scope) {
+        differences.push(`license.scope: ${currentEntry.license.scope ?? "(none)"} → ${proposedEntry.license.scope ?? "(none)"}`);
+      }
+      if (
+        JSON.stringify(currentEntry.license.additional_texts ?? []) !==
+        JSON.stringify(proposedEntry.license.additional_texts ?? [])
+      ) {
+        differences.push(`license.additional_texts: texts changed`);
+      }
+      if (currentEntry.prev_entry_sha256 !== proposedEntry.prev_entry_sha256) {
+        differences.push(`prev_entry_sha256: link changed`);
+      }
+      // Metadata is part of the published record, like the license itself
+      if (currentEntry.changelog !== proposedEntry.changelog) {
+        differences.push(`changelog: text changed`);
+      }
+      if (canonicalJson(currentEntry.governance ?? null) !== canonicalJson(proposedEntry.governance ?? null)) {
+        differences.push(`governance: proposal reference changed`);
+      }
+      if (currentEntry.safe_tx_hash !== proposedEntry.safe_tx_hash) {
+        differences.push(`safe_tx_hash: ${currentEntry.safe_tx_hash ?? "(none)"} → ${proposedEntry.safe_tx_hash ?? "(none)"}`);
+      }
+      if (canonicalJson(currentEntry.authors ?? []) !== canonicalJson(proposedEntry.authors ?? [])) {
+        differences.push(`authors: list changed`);
+      }
+      
+      if (differences.length > 0) {
+        modifiedEntries.push({ old: currentEntry, new: proposedEntry, differences });
+      }
+    }
+  }
+
+  checks.push({
+    id: "entries_preserved",
+    description: "All existing entries are preserved",
+    passed: removedEntries.length === 0,
+    error: removedEntries.length > 0
+      ? `${removedEntries.length} entries were removed`
+      : undefined,
+    details: removedEntries.length > 0
+      ? `Removed: v${removedEntries.map(e => e.version).join(", v")}`
+      : undefined,
+  });
+
+  checks.push({
+    id: "entries_unmodified",
+    description: "Existing entries are unmodified",
+    passed: modifiedEntries.length === 0,
+    error: modifiedEntries.length > 0
+      ? `${modifiedEntries.length} entries were modified`
+      : undefined,
+    details: modifiedEntries.length > 0
+      ? `Modified: v${modifiedEntries.map(e => e.old.version).join(", v")}`
+      : undefined,
+  });
+
+  // Check 4: Find new entries
+  for (const [version, proposedEntry] of proposedEntriesByVersion) {
+    if (!currentEntriesByVersion.has(version)) {
+      newEntries.push(proposedEntry);
+    }
+  }
+
+  const licenseChanges = [...newEntries]
+    .sort((a, b) => a.version - b.version)
+    .map(entry => classifyLicenseChange(proposedEntriesByVersion.get(entry.version - 1) ?? null, entry));
+
+  checks.push({
+    id: "new_entries",
+    description: "New entries are properly added",
+    passed: true, // Just informational
+    details: newEntries.length > 0
+      ? `${newEntries.length} new entries: v${newEntries.map(e => e.version).join(", v")}`
+      : "No new entries",
+  });
+
+  // Check 4b: New entries take effect no earlier than the current head.
+  // A backdated entry overrides the head retroactively and preempts any
+  // entry dated after it, so reviewers must see it.
+  const currentHead = currentManifest.entries.reduce<LicenseEntry | null>(
+    (head, entry) => (!head || entry.version > head.version ? entry : head),
+    null
+  );
+  if (currentHead) {
+    const headDate = parseEffectiveDate(currentHead.effective_date);
+    for (const entry of [...newEntries].sort((a, b) => a.version - b.version)) {
+      const backdated = parseEffectiveDate(entry.effective_date) < headDate;
+      const preempted = getPreemptedEntries(proposedManifest.entries, entry);
+      checks.push({
+        id: `effective_date_v${entry.version}`,
+        description: `Effective date of v${entry.version} is not before the current head`,
+        passed: !backdated,
+        error: backdated
+          ? `Backdated: v${entry.version} is effective ${entry.effective_date}, before v${currentHead.version} (${currentHead.effective_date})`
+          : undefined,
+        details: `Effective ${entry.effective_date}; current head v${currentHead.version} effective ${currentHead.effective_date}`,
+        warning: preempted.length > 0
+          ? `Overrides v${preempted.map(e => e.version).join(", v")} retroactively: this entry takes effect on or before ${preempted.length === 1 ? "its effective date" : "their effective dates"}`
+          : undefined,
+      });
+    }
+  }
+
+  // Check 5: Verify license text hashes for every entry. Existing texts are
+  // rechecked too, since a file can be swapped without touching its entry.
+  // Texts are kept by path for the text match check below.
+  const readTexts = new Map<string, LicenseTextRead>();
+  for (const entry of [...proposedEntriesByVersion.values()].sort((a, b) => b.version - a.version)) {
+    const licenses = getLicenseTexts(entry.license);
+    for (const [index, license] of licenses.entries()) {
+      const read = await readLicenseText(proposedSource, license);
+      readTexts.set(license.text_path, read);
+      const text = read.verification;
+      checks.push({
+        id: index === 0 ? `hash_v${entry.version}` : `hash_v${entry.version}_${index + 1}`,
+        description: licenses.length > 1
+          ? `License text hash valid for v${entry.version} (${license.scope ?? license.text_path})`
+          : `License text hash valid for v${entry.version}`,
+        passed: text.status === "verified",
+        error: text.status === "mismatch"
+          ? `Hash mismatch for ${license.text_path}`
+          : text.status === "noncanonical"
+            ? `${license.text_path} is not stored canonically (expected ${describeCanonicalForm(getTextNormalization(license))})`
+            : text.status === "unavailable"
+              ? `Failed to fetch license: ${text.error}`
+              : undefined,
+      });
+    }
+  }
+
+  // Check 5b: Texts of new entries are the licenses they declare. Existing
+  // entries were matched when they were added.
+  for (const entry of [...newEntries].sort((a, b) => b.version - a.version)) {
+    const licenses = getLicenseTexts(entry.license);
+    for (const [index, license] of licenses.entries()) {
+      checks.push(await buildTextMatchCheck(
+        readTexts.get(license.text_path) ?? await readLicenseText(proposedSource, license),
+        license,
+        index === 0 ? `text_match_v${entry.version}` : `text_match_v${entry.version}_${index + 1}`,
+        licenses.length > 1 ? `v${entry.version} (${license.scope ?? license.text_path})` : `v${entry.version}`
+      ));
+    }
+  }
+
+  // Check 6: Every block read was verified against the proposed CID
+  checks.push(buildContentCheck(proposedSource));
+
+  // Check 7: Registry name consistency
+  const nameConsistent = currentManifest.name === proposedManifest.name;
+  checks.push({
+    id: "name_consistent",
+    description: "Registry name is consistent",
+    passed: nameConsistent,
+    error: !nameConsistent
+      ? `Name changed: "${currentManifest.name}" → "${proposedManifest.name}"`
+      : undefined,
+  });
+
+  // Calculate overall validity
+  const criticalChecks = checks.filter(c => 
+    c.id === "registry_valid" ||
+    c.id === "schema" || 
+    c.id === "entries_preserved" || 
+    c.id === "entries_unmodified" ||
+    c.id === "content_verified" ||
+    c.id === "entry_chain" ||
+    c.id === "head_digest" ||
+    c.id === "history_linked" ||
+    c.id.startsWith("hash_")
+  );
+  const valid = criticalChecks.every(c => c.passed);
+
+  // Generate summary
+  let summary: string;
+  if (valid && newEntries.length > 0) {
+    summary = `✓ Valid update with ${newEntries.length} new ${newEntries.length === 1 ? "entry" : "entries"}`;
+  } else if (valid) {
+    summary = "✓ Valid (no changes)";
+  } else if (removedEntries.length > 0) {
+    summary = `✗ Invalid: ${removedEntries.length} entries removed`;
+  } else if (modifiedEntries.length > 0) {
+    summary = `✗ Invalid: ${modifiedEntries.length} entries modified`;
+  } else {
+    summary = "✗ Invalid: verification failed";
+  }
+
+  return {
+    valid,
+    summary,
+    checks,
+    newEntries,
+    modifiedEntries,
+    removedEntries,
+    licenseChanges,
+  };
+}
+
+/**
+ * Audit a registry's full history.
+ * Every consecutive pair of registries is compared with the same checks as
+ * a single proposed update, so the history is valid only if each update
+ * was append-only.
+ *
+ * @param history - Every content reference the registry pointed to, oldest first
+ * @param onProgress - Optional callback with the number of transitions audited
+ */
+export async function auditRegistryHistory(
+  history: ContentReference[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<HistoryAuditResult> {
+  if (history.length === 0) {
+    throw new Error("No registry history to audit");
+  }
+
+  const checks: VerificationCheck[] = [];
+  const transitions: RegistryTransitionAudit[] = [];
+  const loaded = new Map<string, Promise<{ registry: NormalizedRegistry; source: DirectoryReader }>>();
+
+  // Each registry is loaded once, even if it appears several times
+  const load = (ref: ContentReference) => {
+    const key = formatContentUri(ref);
+    let registry = loaded.get(key);
+    if (!registry) {
+      const source = openDirectory(ref);
+      registry = source.readJson<unknown>("/registry.json")
+        .then(normalizeRegistry)
+        .then(normalized => ({ registry: normalized, source }));
+      loaded.set(key, registry);
+    }
+    return registry;
+  };
+
+  // Genesis registry: there is nothing to compare it against
+  const genesisRef = history[0];
+  let latestManifest: RegistryManifest | null = null;
+  try {
+    const genesis = await load(genesisRef);
+    latestManifest = genesis.registry.manifest;
+    checks.push({
+      id: "genesis/loaded",
+      description: `Initial registry loads (${formatContentUri(genesisRef)})`,
+      passed: true,
+      details: `${latestManifest.entries.length} entries, v${latestManifest.current_version}, ${genesis.registry.sourceSchema}`,
+    });
+    const contentCheck = buildContentCheck(genesis.source);
+    checks.push({ ...contentCheck, id: `genesis/${contentCheck.id}` });
+  } catch (error) {
+    checks.push({
+      id: "genesis/loaded",
+      description: `Initial registry loads (${formatContentUri(genesisRef)})`,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const recordTransition = (transition: RegistryTransitionAudit & { result: ComparisonResult }) => {
+    const label = `#${transition.index}`;
+    transitions.push(transition);
+    for (const check of transition.result.checks) {
+      checks.push({
+        ...check,
+        id: `${label}/${check.id}`,
+        description: `${label}: ${check.description}`,
+      });
+    }
+  };
+
+  const total = history.length - 1;
+  for (let i = 1; i < history.length; i++) {
+    const from = history[i - 1];
+    const to = history[i];
+    const label = `#${i}`;
+
+    try {
+      const [previous, next] = await Promise.all([load(from), load(to)]);
+      const result = await compareRegistries(
+        previous.registry,
+        next.registry,
+        next.source
+      );
+      latestManifest = next.registry.manifest;
+      recordTransition({ index: i, from, to, result });
+    } catch (error) {
+      // An invalid proposed registry fails its validation check; an invalid
+      // previous registry was already reported by the transition before it
+      const proposedError = await load(to).then(() => null, (loadError: unknown) => loadError);
+      if (proposedError instanceof RegistrySchemaError) {
+        recordTransition({ index: i, from, to, result: buildInvalidRegistryResult(proposedError) });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        transitions.push({ index: i, from, to, result: null, error: message });
+        checks.push({
+          id: `${label}/loaded`,
+          description: `${label}: Both registries load`,
+          passed: false,
+          error: message,
+        });
+      }
+    }
+
+    onProgress?.(i, total);
+  }
+
+  const failedTransitions = transitions.filter(t => !t.result?.valid);
+  const genesisLoaded = checks.find(c => c.id === "genesis/loaded")?.passed ?? false;
+  const valid = genesisLoaded && failedTransitions.length === 0;
+
+  let summary: string;
+  if (valid) {
+    summary = total === 0
+      ? "✓ Single registry version, nothing to compare"
+      : `✓ All ${total} ${total === 1 ? "update was" : "updates were"} append-only`;
+  } else if (!genesisLoaded) {
+    summary = "✗ Invalid: initial registry could not be loaded";
+  } else {
+    summary = `✗ Invalid: ${failedTransitions.length} of ${total} ${total === 1 ? "update" : "updates"} failed verification`;
+  }
+
+  const entries = latestManifest?.entries ?? [];
+  return {
+    valid,
+    summary,
+    entryCount: entries.length,
+    checks,
+    entries,
+    transitions,
+  };
+}
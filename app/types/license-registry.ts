@@ -13,19 +13,18 @@
  * Supported decentralized storage protocols.
  * Maps to ENS contenthash codec types (EIP-1577 / ENSIP-7).
  * 
- * "ens" is a special value indicating content is accessed via ENS gateway
- * (e.g., .limo) where the raw CID is not known but the ENS name is.
+ * "onion" can appear in a contenthash but cannot be fetched through a gateway.
  */
-export type StorageProtocol = "ipfs" | "ipns" | "bzz" | "ar" | "ens";
+export type StorageProtocol = "ipfs" | "ipns" | "bzz" | "ar" | "onion";
 
 /**
  * Storage-agnostic content reference.
- * Can represent an IPFS CID, Swarm hash, Arweave TX ID, or ENS name.
+ * Can represent an IPFS CID, IPNS name, Swarm hash, Arweave TX ID, or onion address.
  */
 export interface ContentReference {
-  /** The storage protocol (or "ens" for ENS gateway access) */
+  /** The storage protocol */
   protocol: StorageProtocol;
-  /** The content hash/identifier (CID for IPFS, 32-byte hash for Swarm, ENS name for "ens") */
+  /** The content hash/identifier (CID for IPFS, 32-byte hash for Swarm, TX ID for Arweave) */
   hash: string;
 }
 
@@ -33,16 +32,84 @@ export interface ContentReference {
 // License Entry Types
 // ============================================
 
+/**
+ * Character encoding of license text files.
+ */
+export type LicenseTextEncoding = "utf-8";
+
+/**
+ * How license text is canonicalized before it is hashed and stored.
+ * - "none": hashed exactly as written (entries created before this was recorded)
+ * - "lf": leading byte order mark removed, CRLF and lone CR converted to LF
+ */
+export type TextNormalization = "none" | "lf";
+
+/**
+ * A further license text within an entry, covering one part of the project
+ * (e.g., documentation under CC-BY-4.0 next to code under MIT).
+ */
+export interface ScopedLicenseText {
+  /** What the text covers (e.g., "Documentation", "Assets") */
+  scope: string;
+  /** SPDX license expression for this scope */
+  spdx: string;
+  /** Relative path to license text file within registry */
+  text_path: string;
+  /** SHA-256 hash of the license text file for verification */
+  text_sha256: string;
+  /** Character encoding of the license text file */
+  text_encoding?: LicenseTextEncoding;
+  /** Canonicalization applied to the text before it was hashed and stored */
+  normalization?: TextNormalization;
+}
+
 /**
  * License information within an entry.
  */
 export interface LicenseInfo {
-  /** SPDX license identifier (e.g., "MIT", "AGPL-3.0-only") */
+  /** SPDX license expression (e.g., "MIT", "AGPL-3.0-only", "MIT OR Apache-2.0") */
   spdx: string;
   /** Relative path to license text file within registry */
   text_path: string;
   /** SHA-256 hash of the license text file for verification */
   text_sha256: string;
+  /** Character encoding of the license text file (absent in older entries) */
+  text_encoding?: LicenseTextEncoding;
+  /**
+   * Canonicalization applied to the text before it was hashed and stored.
+   * Absent in older entries, which are treated as "none".
+   */
+  normalization?: TextNormalization;
+  /** What the main text covers, for entries with additional texts (e.g., "Code") */
+  scope?: string;
+  /** Further license texts, each for a labelled scope */
+  additional_texts?: ScopedLicenseText[];
+}
+
+/**
+ * Governance proposal that approved an entry.
+ *
+ * The proposal that sets the ENS contenthash cannot be referenced by the
+ * entry it publishes, because its ID depends on the registry CID; this
+ * refers to the decision behind the entry (e.g., a Snapshot vote).
+ */
+export interface GovernanceReference {
+  /** Snapshot proposal ID (e.g., "0x3f2a...") */
+  snapshot_id?: string;
+  /** On-chain Governor proposal ID, as a decimal string */
+  governor_proposal_id?: string;
+  /** Chain ID of the Governor proposal (e.g., 1 for Ethereum mainnet) */
+  chain_id?: number;
+}
+
+/**
+ * Person or organization who prepared an entry.
+ */
+export interface EntryAuthor {
+  /** Name or handle */
+  name: string;
+  /** Ethereum address (optional) */
+  address?: string;
 }
 
 /**
@@ -58,12 +125,39 @@ export interface LicenseEntry {
   effective_date: string;
   /** License information */
   license: LicenseInfo;
+  /**
+   * Canonical-JSON SHA-256 of the previous entry (schema v2).
+   * Null for the first entry; absent in v1 registries.
+   */
+  prev_entry_sha256?: string | null;
+  /** Summary of the change and its rationale, in Markdown */
+  changelog?: string;
+  /** Governance proposal that approved the entry */
+  governance?: GovernanceReference;
+  /** Hash of the Safe transaction related to the entry (e.g., the one executing the decision) */
+  safe_tx_hash?: string;
+  /** Who prepared the entry */
+  authors?: EntryAuthor[];
 }
 
 // ============================================
 // Registry Manifest Types
 // ============================================
 
+/**
+ * Original schema: entries are ordered by version number only.
+ * Still loaded, but no longer written.
+ */
+export const REGISTRY_SCHEMA_V1 = "commonground-license-registry/v1" as const;
+
+/**
+ * Hash-linked schema: entries carry their predecessor's digest and the
+ * manifest carries the head digest.
+ */
+export const REGISTRY_SCHEMA_V2 = "commonground-license-registry/v2" as const;
+
+export type RegistrySchema = typeof REGISTRY_SCHEMA_V1 | typeof REGISTRY_SCHEMA_V2;
+
 /**
  * The registry manifest (registry.json).
  * Contains all entries inline for single-fetch access.
@@ -73,7 +167,7 @@ export interface LicenseEntry {
  */
 export interface RegistryManifest {
   /** Schema identifier for versioning */
-  schema: "commonground-license-registry/v1";
+  schema: RegistrySchema;
   /** Human-readable name of the registry */
   name: string;
   /** Optional description */
@@ -82,6 +176,22 @@ export interface RegistryManifest {
   current_version: number;
   /** All entries in the registry (ordered by version, newest first) */
   entries: LicenseEntry[];
+  /** Canonical-JSON SHA-256 of the newest entry (schema v2) */
+  head_sha256?: string;
+}
+
+/**
+ * In-memory registry model consumed by the viewer, creator and verifier.
+ * The manifest is always in the latest schema; older manifests are upgraded
+ * when loaded, and the published schema is kept for display and checks.
+ */
+export interface NormalizedRegistry {
+  /** Manifest upgraded to the latest schema */
+  manifest: RegistryManifest;
+  /** Schema the registry.json was published with */
+  sourceSchema: RegistrySchema;
+  /** Whether the manifest was upgraded in memory */
+  upgraded: boolean;
 }
 
 // ============================================
@@ -102,6 +212,8 @@ export interface VerificationCheck {
   error?: string;
   /** Optional additional details */
   details?: string;
+  /** Optional notice for a passed check that still deserves attention */
+  warning?: string;
 }
 
 /**
@@ -119,35 +231,70 @@ export interface ChainVerificationResult {
 }
 
 // ============================================
-// Common SPDX Licenses
+// Utility Types
 // ============================================
 
 /**
- * Common SPDX license identifiers for the UI selector.
- */
-export const COMMON_SPDX_LICENSES = [
-  { id: "MIT", name: "MIT License" },
-  { id: "Apache-2.0", name: "Apache License 2.0" },
-  { id: "GPL-3.0-only", name: "GNU General Public License v3.0 only" },
-  { id: "GPL-3.0-or-later", name: "GNU General Public License v3.0 or later" },
-  { id: "AGPL-3.0-only", name: "GNU Affero General Public License v3.0 only" },
-  { id: "AGPL-3.0-or-later", name: "GNU Affero General Public License v3.0 or later" },
-  { id: "LGPL-3.0-only", name: "GNU Lesser General Public License v3.0 only" },
-  { id: "BSD-2-Clause", name: "BSD 2-Clause \"Simplified\" License" },
-  { id: "BSD-3-Clause", name: "BSD 3-Clause \"New\" or \"Revised\" License" },
-  { id: "MPL-2.0", name: "Mozilla Public License 2.0" },
-  { id: "ISC", name: "ISC License" },
-  { id: "Unlicense", name: "The Unlicense" },
-  { id: "CC0-1.0", name: "Creative Commons Zero v1.0 Universal" },
-  { id: "CC-BY-4.0", name: "Creative Commons Attribution 4.0 International" },
-  { id: "CC-BY-SA-4.0", name: "Creative Commons Attribution-ShareAlike 4.0 International" },
-] as const;
-
-export type CommonSpdxLicense = typeof COMMON_SPDX_LICENSES[number]["id"];
+ * How the registry location was determined.
+ * - "ens": contenthash resolved on-chain from the DAO-controlled ENS name
+ * - "direct": VITE_REGISTRY_CID configured for development
+ * - "override": content reference supplied by the caller
+ */
+export type RegistrySourceMode = "ens" | "direct" | "override";
 
-// ============================================
-// Utility Types
-// ============================================
+/**
+ * Where a loaded registry came from and what was verified.
+ */
+export interface RegistryProvenance {
+  /** How the content reference was obtained */
+  mode: RegistrySourceMode;
+  /** ENS name the contenthash was read from (mode "ens") */
+  ensName?: string;
+  /** Raw contenthash bytes as read on-chain (mode "ens") */
+  contenthash?: string;
+  /** The content reference the registry was loaded from */
+  contentRef: ContentReference;
+  /** Schema the registry.json was published with */
+  schema: RegistrySchema;
+  /** Whether every fetched block was verified against the content hash */
+  contentVerified: boolean;
+  /** Number of verified blocks (IPFS only) */
+  verifiedBlocks?: number;
+  /** Whether the entry hash chain is intact (undefined for v1 registries) */
+  entryChainVerified?: boolean;
+}
+
+/**
+ * Integrity of an entry's license text, checked against `text_sha256`.
+ * - "pending": not checked yet
+ * - "verified": the fetched text matches the recorded hash
+ * - "mismatch": the text was fetched but its hash differs
+ * - "noncanonical": the file is not valid UTF-8 or not stored in the
+ *   canonical form its entry's normalization records
+ * - "unavailable": the text could not be fetched
+ */
+export type LicenseTextStatus = "pending" | "verified" | "mismatch" | "noncanonical" | "unavailable";
+
+/**
+ * Result of checking one entry's license text.
+ */
+export interface LicenseTextVerification {
+  status: LicenseTextStatus;
+  /** SHA-256 of the fetched text (when it could be fetched) */
+  actualSha256?: string;
+  /** Why the text could not be fetched */
+  error?: string;
+}
+
+/**
+ * A single registry.json validation problem, located by JSON pointer (RFC 6901).
+ */
+export interface SchemaIssue {
+  /** JSON pointer to the offending value (e.g., "/entries/0/version") */
+  path: string;
+  /** What is wrong */
+  message: string;
+}
 
 /**
  * Registry state for the UI.
@@ -155,8 +302,14 @@ export type CommonSpdxLicense = typeof COMMON_SPDX_LICENSES[number]["id"];
 export type RegistryState = 
   | { status: "loading" }
   | { status: "not_found"; ensName: string }
-  | { status: "error"; error: string }
-  | { status: "loaded"; manifest: RegistryManifest; currentEntry: LicenseEntry };
+  | { status: "error"; error: string; issues?: SchemaIssue[] }
+  | {
+      status: "loaded";
+      manifest: RegistryManifest;
+      /** Latest entry (highest version), which may still be scheduled */
+      currentEntry: LicenseEntry;
+      provenance: RegistryProvenance;
+    };
 
 /**
  * Entry creation form data.
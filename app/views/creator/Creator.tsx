@@ -5,10 +5,14 @@
  * No wallet connection required - trust comes from DAO governance.
  */
 
-import { useState, useEffect, useCallback } from "react";
-import type { LicenseEntry, ContentReference } from "~/types/license-registry";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "~/components/Button";
+import type { LicenseEntry } from "~/types/license-registry";
 import { useRegistry } from "~/hooks/use-registry";
-import { getIpfsGateway } from "~/lib/storage";
+import { openPackageArchive } from "~/lib/storage";
+import type { RegistryBase } from "~/lib/publisher";
+import { loadRegistryBase } from "~/lib/publisher";
+import { formatSchemaIssue, RegistrySchemaError } from "~/lib/registry-schema";
 import { EntryForm } from "./EntryForm";
 import { Publisher } from "./Publisher";
 
@@ -21,8 +25,20 @@ type CreatorState =
       step: "publish"; 
       entry: LicenseEntry;
       licenseText: string;
+      additionalLicenseTexts: string[];
     };
 
+/**
+ * A previously published package imported as the base for the new version.
+ */
+interface ImportedBase {
+  base: RegistryBase;
+  /** File name of the imported ZIP or CAR */
+  name: string;
+  /** IPFS directory CID of the package */
+  cid: string;
+}
+
 /**
  * Registry name input component.
  */
@@ -50,78 +66,156 @@ function RegistryNameInput({
 }
 
 /**
- * Fetch license text for an entry from IPFS or ENS gateway.
+ * Status of the previous license texts that go into the new package.
  */
-async function fetchLicenseText(
-  entry: LicenseEntry, 
-  contentRef: ContentReference | null
-): Promise<string | null> {
-  if (!contentRef) return null;
-  
-  try {
-    if (contentRef.protocol === "ens") {
-      // Fetch via ENS gateway
-      const url = `https://${contentRef.hash}.limo${entry.license.text_path}`;
-      const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
-      if (!response.ok) return null;
-      return response.text();
-    } else {
-      // Fetch via IPFS gateway
-      const ipfs = getIpfsGateway();
-      return await ipfs.fetchTextFromDir(contentRef.hash, entry.license.text_path);
-    }
-  } catch (error) {
-    console.error(`Failed to fetch license for v${entry.version}:`, error);
-    return null;
+function BaseStatus({ base, loading }: { base: RegistryBase | null; loading: boolean }) {
+  if (loading) {
+    return (
+      <span className="flex items-center gap-1">
+        <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+        Verifying previous license texts...
+      </span>
+    );
   }
+
+  if (!base) return null;
+
+  if (base.missing.length === 0) {
+    const count = base.manifest.entries.length;
+    return (
+      <span className="text-green-600">
+        ✓ {count} previous {count === 1 ? "entry" : "entries"} verified and will be included in the package
+      </span>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-yellow-600">
+        ⚠ {base.missing.length} previous license {base.missing.length === 1 ? "text is" : "texts are"} missing
+        or do not match their hash. Import the previously published ZIP or CAR to include them.
+      </p>
+      <ul className="list-disc list-inside font-mono">
+        {base.missing.map((path) => {
+          const result = base.verification.get(path);
+          return (
+            <li key={path}>
+              {path}: {result?.status === "mismatch"
+                ? "hash mismatch"
+                : result?.status === "noncanonical"
+                  ? "not stored canonically"
+                  : result?.error ?? "not found"}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
 }
 
 export function Creator() {
-  const { state: registryState, entryChain, contentRef } = useRegistry();
+  const { state: registryState, contentRef, directory } = useRegistry();
+  const packageInputRef = useRef<HTMLInputElement>(null);
   
   const [creatorState, setCreatorState] = useState<CreatorState>({ step: "form" });
   const [registryName, setRegistryName] = useState("Common Ground License Registry");
   const [registryDescription, setRegistryDescription] = useState("");
   
-  // Previous entries and their license texts (fetched from existing registry)
-  const [previousLicenses, setPreviousLicenses] = useState<Map<number, string>>(new Map());
-  const [fetchingLicenses, setFetchingLicenses] = useState(false);
+  // Previous entries and their verified license texts from the published registry
+  const [publishedBase, setPublishedBase] = useState<RegistryBase | null>(null);
+  const [loadingBase, setLoadingBase] = useState(false);
+  const [baseError, setBaseError] = useState<string | null>(null);
+
+  // Previously published package imported by the user; takes precedence
+  const [importedBase, setImportedBase] = useState<ImportedBase | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const base = importedBase?.base ?? publishedBase;
+  const baseManifest = importedBase?.base.manifest
+    ?? (registryState.status === "loaded" ? registryState.manifest : null);
+  const previousEntries = baseManifest?.entries ?? [];
 
   // Determine current version
-  const currentVersion = registryState.status === "loaded" 
-    ? registryState.manifest.current_version 
-    : 0;
+  const currentVersion = baseManifest?.current_version ?? 0;
 
-  // Fetch license texts for all entries when registry is loaded
+  // Read and verify the license texts of the published registry
   useEffect(() => {
-    async function fetchAllLicenses() {
-      if (registryState.status !== "loaded" || !contentRef || entryChain.length === 0) {
-        return;
-      }
-      
-      setFetchingLicenses(true);
-      const licenses = new Map<number, string>();
-      
-      for (const entry of entryChain) {
-        const text = await fetchLicenseText(entry, contentRef);
-        if (text) {
-          licenses.set(entry.version, text);
+    setBaseError(null);
+    if (registryState.status !== "loaded" || !directory) {
+      setPublishedBase(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingBase(true);
+
+    loadRegistryBase(directory, registryState.manifest)
+      .then((loaded) => {
+        if (!cancelled) setPublishedBase(loaded);
+      })
+      .catch((error) => {
+        console.error("Failed to load previous license texts:", error);
+        if (!cancelled) {
+          setPublishedBase(null);
+          setBaseError(error instanceof Error ? error.message : "Failed to load the published registry");
         }
-      }
-      
-      setPreviousLicenses(licenses);
-      setFetchingLicenses(false);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBase(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [registryState, directory]);
+
+  // Import a previously published ZIP or CAR as the base
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    setImportError(null);
+
+    try {
+      const source = await openPackageArchive(new Uint8Array(await file.arrayBuffer()), file.name);
+      const loaded = await loadRegistryBase(source);
+      setImportedBase({ base: loaded, name: file.name, cid: source.cid });
+      setCreatorState({ step: "form" });
+    } catch (err) {
+      console.error("Failed to import package:", err);
+      setImportError(
+        err instanceof RegistrySchemaError
+          ? [err.message, ...err.issues.map(formatSchemaIssue)].join("\n")
+          : err instanceof Error ? err.message : "Failed to import package"
+      );
+    } finally {
+      setImporting(false);
     }
-    
-    fetchAllLicenses();
-  }, [registryState.status, contentRef, entryChain]);
+  }, []);
+
+  const handleRemoveImport = useCallback(() => {
+    setImportedBase(null);
+    setImportError(null);
+    setCreatorState({ step: "form" });
+  }, []);
+
+  // The imported package should be the registry the ENS name points to
+  const importMatchesPublished = !importedBase || !contentRef
+    || (contentRef.protocol === "ipfs" && contentRef.hash === importedBase.cid);
 
   // Handle entry creation
-  const handleEntryCreated = (entry: LicenseEntry, licenseText: string) => {
+  const handleEntryCreated = (entry: LicenseEntry, licenseText: string, additionalLicenseTexts: string[]) => {
     setCreatorState({
       step: "publish",
       entry,
       licenseText,
+      additionalLicenseTexts,
     });
   };
 
@@ -149,52 +243,95 @@ export function Creator() {
       <div>
         <h2 className="text-2xl font-bold text-text-primary">Create License Entry</h2>
         <p className="text-text-secondary mt-1">
-          {registryState.status === "loaded"
-            ? `Create a new version of the ${registryState.manifest.name} registry.`
+          {baseManifest
+            ? `Create a new version of the ${baseManifest.name} registry.`
             : "Create a new license registry from scratch."
           }
         </p>
       </div>
 
-      {/* Existing Registry Info */}
-      {registryState.status === "loaded" && (
+      {/* Base Registry Info */}
+      {baseManifest && (
         <div className="bg-bg-elevated border border-border rounded-lg p-4 space-y-2">
-          <div className="flex items-center gap-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
             <span className="text-text-secondary">Building on:</span>
             <span className="font-medium text-text-primary">
-              {registryState.manifest.name} v{registryState.manifest.current_version}
+              {baseManifest.name} v{baseManifest.current_version}
             </span>
             <span className="text-text-muted">•</span>
             <span className="text-text-muted font-mono">
-              {registryState.currentEntry.license.spdx}
+              {baseManifest.entries[0].license.spdx}
             </span>
+            {importedBase && (
+              <>
+                <span className="text-text-muted">•</span>
+                <span className="text-text-muted">from {importedBase.name}</span>
+              </>
+            )}
           </div>
           
           {/* Previous entries status */}
           <div className="text-xs text-text-muted">
-            {fetchingLicenses ? (
-              <span className="flex items-center gap-1">
-                <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                </svg>
-                Fetching previous entries...
-              </span>
-            ) : previousLicenses.size > 0 ? (
-              <span className="text-green-600">
-                ✓ {previousLicenses.size} previous {previousLicenses.size === 1 ? 'entry' : 'entries'} will be included in package
-              </span>
-            ) : entryChain.length > 0 ? (
-              <span className="text-yellow-600">
-                ⚠ Could not fetch previous license texts (CORS issue)
-              </span>
-            ) : null}
+            <BaseStatus base={base} loading={!importedBase && loadingBase} />
+          </div>
+
+          {!importedBase && baseError && (
+            <p className="text-xs text-red-500">{baseError}</p>
+          )}
+
+          {!importMatchesPublished && (
+            <p className="text-xs text-yellow-600">
+              ⚠ The imported package is not the registry the ENS name points to
+              {registryState.status === "loaded" && ` (v${registryState.manifest.current_version})`}.
+              The new version will build on the imported history instead.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Import Previous Package */}
+      {creatorState.step === "form" && (
+        <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-3">
+          <div>
+            <h3 className="text-sm font-medium text-text-primary">Previous Package</h3>
+            <p className="text-sm text-text-secondary mt-1">
+              Import the previously published ZIP or CAR to take the entries and license texts from it
+              instead of fetching them from a gateway. Every text is checked against its hash.
+            </p>
           </div>
+          <input
+            ref={packageInputRef}
+            type="file"
+            accept=".zip,.car"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => packageInputRef.current?.click()}
+              disabled={importing}
+            >
+              {importing ? "Importing..." : importedBase ? "Import Another Package" : "Import ZIP or CAR"}
+            </Button>
+            {importedBase && (
+              <Button type="button" variant="secondary" onClick={handleRemoveImport}>
+                {registryState.status === "loaded" ? "Use Published Registry" : "Start From Scratch"}
+              </Button>
+            )}
+          </div>
+          {importedBase && (
+            <p className="text-xs font-mono text-text-muted break-all">CID: {importedBase.cid}</p>
+          )}
+          {importError && (
+            <p className="text-sm text-red-500 whitespace-pre-line">{importError}</p>
+          )}
         </div>
       )}
 
       {/* Genesis Registry Info */}
-      {(registryState.status === "not_found" || registryState.status === "error") && creatorState.step === "form" && (
+      {!baseManifest && (registryState.status === "not_found" || registryState.status === "error") && creatorState.step === "form" && (
         <div className="bg-accent/10 border border-accent/20 rounded-lg p-4">
           <div className="flex items-start gap-3">
             <svg
@@ -226,7 +363,7 @@ export function Creator() {
       {creatorState.step === "form" && (
         <div className="space-y-6">
           {/* Registry Name (for genesis) */}
-          {registryState.status !== "loaded" && (
+          {!baseManifest && (
             <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-4">
               <RegistryNameInput
                 value={registryName}
@@ -249,13 +386,10 @@ export function Creator() {
 
           {/* Entry Form */}
           <EntryForm
+            key={currentVersion}
             currentVersion={currentVersion}
             onEntryCreated={handleEntryCreated}
-            defaultLicense={
-              registryState.status === "loaded"
-                ? registryState.currentEntry.license.spdx
-                : undefined
-            }
+            defaultLicense={baseManifest?.entries[0].license.spdx}
           />
         </div>
       )}
@@ -265,18 +399,14 @@ export function Creator() {
         <Publisher
           entry={creatorState.entry}
           licenseText={creatorState.licenseText}
-          registryName={
-            registryState.status === "loaded"
-              ? registryState.manifest.name
-              : registryName
-          }
+          additionalLicenseTexts={creatorState.additionalLicenseTexts}
+          registryName={baseManifest ? baseManifest.name : registryName}
           registryDescription={
-            registryState.status === "loaded"
-              ? registryState.manifest.description
-              : registryDescription || undefined
+            baseManifest ? baseManifest.description : registryDescription || undefined
           }
-          previousEntries={entryChain}
-          previousLicenses={previousLicenses}
+          previousEntries={previousEntries}
+          previousHeadSha256={baseManifest?.head_sha256}
+          previousLicenses={base?.licenses}
           onBack={handleBack}
         />
       )}
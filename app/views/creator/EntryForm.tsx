@@ -3,21 +3,37 @@
  * 
  * Form for creating new license registry entries.
  * No wallet connection required - trust comes from DAO governance.
+ * The license can be any SPDX expression, and an entry can carry further
+ * license texts, each labelled with the scope it covers. Licenses are picked
+ * from the bundled SPDX list, whose texts can pre-fill the license text.
+ * Optional details record why the entry exists: a changelog, the governance
+ * proposal behind it, a Safe transaction and its authors.
  */
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { isAddress, isHash } from "viem";
 import { Button } from "~/components/Button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/Select";
-import type { LicenseEntry, LicenseInfo } from "~/types/license-registry";
-import { COMMON_SPDX_LICENSES } from "~/types/license-registry";
-import { sha256, hashFileWithContent } from "~/lib/hash";
+import type { EntryAuthor, LicenseEntry, LicenseInfo, ScopedLicenseText } from "~/types/license-registry";
 import { getLicenseFilePath } from "~/lib/publisher";
+import {
+  DEFAULT_TEXT_NORMALIZATION,
+  decodeLicenseText,
+  describeLicenseTextFindings,
+  hashLicenseText,
+  LICENSE_TEXT_ENCODING,
+  normalizeLicenseText,
+} from "~/lib/license-text";
+import { formatSpdxExpression, getExpressionLicenses, parseSpdxExpression, SpdxExpressionError } from "~/lib/spdx-expression";
+import type { SpdxLicense } from "~/lib/spdx-licenses";
+import { checkSpdxIdentifiers, getSpdxLicense, loadSpdxLicenseText } from "~/lib/spdx-licenses";
+import { describeLicenseMismatch, matchLicenseText } from "~/lib/license-match";
+import { LicensePicker } from "./LicensePicker";
 
 interface EntryFormProps {
   /** Current version number (new entry will be version + 1, or 1 if genesis) */
   currentVersion: number;
-  /** Callback when entry is successfully created */
-  onEntryCreated: (entry: LicenseEntry, licenseText: string) => void;
+  /** Callback when entry is successfully created (texts are in canonical form) */
+  onEntryCreated: (entry: LicenseEntry, licenseText: string, additionalLicenseTexts: string[]) => void;
   /** Optional: prefill with existing license */
   defaultLicense?: string;
 }
@@ -26,10 +42,463 @@ interface EntryFormProps {
  * Form state type.
  */
 interface FormState {
+  /** SPDX expression as typed */
   spdxId: string;
-  customSpdx: string;
   effectiveDate: string;
   licenseText: string;
+  /** Scope of the main text (asked for once there are additional texts) */
+  scope: string;
+}
+
+/**
+ * Form state of an additional license text.
+ */
+interface AdditionalTextState {
+  /** Stable key for rendering */
+  key: number;
+  scope: string;
+  spdx: string;
+  text: string;
+  fileName: string | null;
+  /** Encoding and line-ending problems found in the uploaded file */
+  warnings: string[];
+}
+
+/**
+ * Form state of the optional entry details.
+ */
+interface MetadataState {
+  /** Markdown */
+  changelog: string;
+  snapshotId: string;
+  governorProposalId: string;
+  chainId: string;
+  safeTxHash: string;
+  /** One author per line, optionally followed by an address */
+  authors: string;
+}
+
+const EMPTY_METADATA: MetadataState = {
+  changelog: "",
+  snapshotId: "",
+  governorProposalId: "",
+  chainId: "",
+  safeTxHash: "",
+  authors: "",
+};
+
+const INPUT_CLASS = "w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent";
+
+/**
+ * A license text pre-filled from the SPDX list.
+ */
+interface LicenseTemplate {
+  id: string;
+  text: string;
+}
+
+/**
+ * Check an SPDX license expression, including that its identifiers are on
+ * the SPDX list or follow the LicenseRef- convention.
+ *
+ * @returns An error message, or null if the expression is valid
+ */
+function checkSpdxExpression(expression: string): string | null {
+  try {
+    const { errors } = checkSpdxIdentifiers(parseSpdxExpression(expression));
+    return errors.length > 0 ? errors.join("; ") : null;
+  } catch (error) {
+    return error instanceof SpdxExpressionError
+      ? `Invalid SPDX expression: ${error.message}`
+      : "Invalid SPDX expression";
+  }
+}
+
+/**
+ * Warnings for an expression (e.g., deprecated identifiers). Expressions
+ * that do not parse have none; their errors are shown on submit.
+ */
+function getSpdxWarnings(expression: string): string[] {
+  try {
+    return checkSpdxIdentifiers(parseSpdxExpression(expression)).warnings;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The first license in an expression that is on the SPDX list, whose text
+ * can be used as a template.
+ */
+function getTemplateLicense(expression: string): SpdxLicense | undefined {
+  try {
+    return getExpressionLicenses(parseSpdxExpression(expression))
+      .map(node => getSpdxLicense(node.id))
+      .find(license => license !== undefined);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the authors field: one author per line, as a name optionally
+ * followed by an Ethereum address (e.g., "Alice 0x1234...").
+ */
+function parseAuthors(text: string): EntryAuthor[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = /^(.*?)\s+(0x[0-9a-fA-F]+)$/.exec(line);
+      return match && match[1] ? { name: match[1], address: match[2] } : { name: line };
+    });
+}
+
+/**
+ * Check the optional entry details.
+ *
+ * @returns Error messages keyed by "metadata.<field>"
+ */
+function checkMetadata(metadata: MetadataState): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const governorProposalId = metadata.governorProposalId.trim();
+  const chainId = metadata.chainId.trim();
+  const safeTxHash = metadata.safeTxHash.trim();
+
+  if (governorProposalId && !/^\d+$/.test(governorProposalId)) {
+    errors["metadata.governorProposalId"] = "Governor proposal IDs are decimal numbers";
+  }
+  if (chainId && !/^[1-9]\d*$/.test(chainId)) {
+    errors["metadata.chainId"] = "Chain ID must be a positive integer";
+  } else if (governorProposalId && !chainId) {
+    errors["metadata.chainId"] = "Chain ID is required with a Governor proposal";
+  }
+  if (safeTxHash && !isHash(safeTxHash)) {
+    errors["metadata.safeTxHash"] = "Safe transaction hashes are 0x followed by 64 hex characters";
+  }
+
+  const invalid = parseAuthors(metadata.authors)
+    .filter(author => author.address && !isAddress(author.address, { strict: false }));
+  if (invalid.length > 0) {
+    errors["metadata.authors"] = `Invalid address: ${invalid.map(author => author.address).join(", ")}`;
+  }
+
+  return errors;
+}
+
+/**
+ * Build the optional entry fields from the details form, leaving out
+ * empty ones.
+ */
+function buildMetadata(metadata: MetadataState): Pick<LicenseEntry, "changelog" | "governance" | "safe_tx_hash" | "authors"> {
+  const changelog = metadata.changelog.trim();
+  const snapshotId = metadata.snapshotId.trim();
+  const governorProposalId = metadata.governorProposalId.trim();
+  const safeTxHash = metadata.safeTxHash.trim();
+  const authors = parseAuthors(metadata.authors);
+
+  return {
+    ...(changelog && { changelog }),
+    ...((snapshotId || governorProposalId) && {
+      governance: {
+        ...(snapshotId && { snapshot_id: snapshotId }),
+        ...(governorProposalId && {
+          governor_proposal_id: governorProposalId,
+          chain_id: Number(metadata.chainId.trim()),
+        }),
+      },
+    }),
+    ...(safeTxHash && { safe_tx_hash: safeTxHash }),
+    ...(authors.length > 0 && { authors }),
+  };
+}
+
+/**
+ * Warning shown when a license text does not match its declared SPDX
+ * expression. Matching waits until typing pauses.
+ */
+function TextMatchWarning({ text, spdx }: { text: string; spdx: string }) {
+  const [mismatch, setMismatch] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMismatch(null);
+    if (!text.trim() || !spdx.trim()) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      matchLicenseText(text, spdx)
+        .then((result) => {
+          if (!cancelled) setMismatch(describeLicenseMismatch(result, spdx.trim()));
+        })
+        .catch((error) => console.error("Failed to match license text:", error));
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, spdx]);
+
+  if (!mismatch) return null;
+
+  return (
+    <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+      <p className="text-sm text-yellow-600">⚠ {mismatch}</p>
+    </div>
+  );
+}
+
+/**
+ * Note shown while a text is still the unedited SPDX template.
+ */
+function TemplateNotice({ id }: { id: string }) {
+  return (
+    <p className="text-xs text-text-muted">
+      Pre-filled from the SPDX text of {id}. Fill in placeholders such as the year and copyright
+      holder before creating the entry.
+    </p>
+  );
+}
+
+/**
+ * Fields for one additional license text.
+ */
+function AdditionalTextFields({
+  value,
+  index,
+  errors,
+  onChange,
+  onRemove,
+}: {
+  value: AdditionalTextState;
+  index: number;
+  errors: Record<string, string>;
+  onChange: (update: Partial<AdditionalTextState>) => void;
+  onRemove: () => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [template, setTemplate] = useState<LicenseTemplate | null>(null);
+  const errorKey = (field: string) => `additional.${index}.${field}`;
+  const spdxWarnings = useMemo(() => getSpdxWarnings(value.spdx), [value.spdx]);
+
+  // Fill an empty (or still unedited) text with the picked license's text
+  const handleSelectLicense = async (license: SpdxLicense) => {
+    if (value.text.trim() && value.text !== template?.text) return;
+    try {
+      const text = await loadSpdxLicenseText(license.id);
+      if (text) {
+        setTemplate({ id: license.id, text });
+        onChange({ text, fileName: null, warnings: [] });
+      }
+    } catch (error) {
+      console.error("Failed to load SPDX license text:", error);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { text, findings } = decodeLicenseText(await file.arrayBuffer());
+      onChange({ text, fileName: file.name, warnings: describeLicenseTextFindings(findings) });
+    } catch {
+      onChange({ text: "", fileName: null, warnings: ["Failed to read file"] });
+    }
+  };
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Additional License Text {index + 2}</h4>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-sm text-red-500 hover:text-red-600 transition-colors"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="block text-sm text-text-secondary">Scope <span className="text-red-500">*</span></label>
+          <input
+            type="text"
+            value={value.scope}
+            onChange={(e) => onChange({ scope: e.target.value })}
+            placeholder="e.g., Documentation"
+            className={INPUT_CLASS}
+          />
+          {errors[errorKey("scope")] && (
+            <p className="text-sm text-red-500">{errors[errorKey("scope")]}</p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm text-text-secondary">SPDX Expression <span className="text-red-500">*</span></label>
+          <LicensePicker
+            value={value.spdx}
+            onChange={(spdx) => onChange({ spdx })}
+            onSelectLicense={handleSelectLicense}
+            placeholder="e.g., CC-BY-4.0"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          {spdxWarnings.map((warning) => (
+            <p key={warning} className="text-sm text-yellow-600">⚠ {warning}</p>
+          ))}
+          {errors[errorKey("spdx")] && (
+            <p className="text-sm text-red-500">{errors[errorKey("spdx")]}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".txt,.md,.markdown"
+          onChange={handleUpload}
+          className="hidden"
+        />
+        <Button type="button" variant="secondary" onClick={() => inputRef.current?.click()}>
+          Upload File
+        </Button>
+        {value.fileName && value.text && (
+          <span className="flex items-center text-sm text-text-secondary">{value.fileName}</span>
+        )}
+      </div>
+
+      <textarea
+        value={value.text}
+        onChange={(e) => onChange({ text: e.target.value, warnings: [] })}
+        placeholder="Paste license text here or upload a file..."
+        rows={6}
+        className={`${INPUT_CLASS} font-mono text-sm resize-y`}
+      />
+
+      {template && value.text === template.text && <TemplateNotice id={template.id} />}
+
+      <TextMatchWarning text={value.text} spdx={value.spdx} />
+
+      {value.warnings.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 space-y-1">
+          {value.warnings.map((warning) => (
+            <p key={warning} className="text-sm text-yellow-600">⚠ {warning}</p>
+          ))}
+        </div>
+      )}
+
+      {errors[errorKey("text")] && (
+        <p className="text-sm text-red-500">{errors[errorKey("text")]}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Optional details recording why the entry exists.
+ */
+function MetadataFields({
+  value,
+  errors,
+  onChange,
+}: {
+  value: MetadataState;
+  errors: Record<string, string>;
+  onChange: (update: Partial<MetadataState>) => void;
+}) {
+  const error = (field: keyof MetadataState) => errors[`metadata.${field}`] && (
+    <p className="text-sm text-red-500">{errors[`metadata.${field}`]}</p>
+  );
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-text-primary">Details (optional)</h4>
+        <p className="text-xs text-text-muted mt-1">
+          Published with the entry and cannot be changed afterwards.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <label className="block text-sm text-text-secondary">Changelog</label>
+        <textarea
+          value={value.changelog}
+          onChange={(e) => onChange({ changelog: e.target.value })}
+          placeholder="What changes and why (Markdown)"
+          rows={4}
+          className={`${INPUT_CLASS} text-sm resize-y`}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="block text-sm text-text-secondary">Snapshot Proposal ID</label>
+        <input
+          type="text"
+          value={value.snapshotId}
+          onChange={(e) => onChange({ snapshotId: e.target.value })}
+          placeholder="0x..."
+          className={`${INPUT_CLASS} font-mono`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1 sm:col-span-2">
+          <label className="block text-sm text-text-secondary">Governor Proposal ID</label>
+          <input
+            type="text"
+            value={value.governorProposalId}
+            onChange={(e) => onChange({ governorProposalId: e.target.value })}
+            placeholder="Decimal proposal ID"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          {error("governorProposalId")}
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm text-text-secondary">Chain ID</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={value.chainId}
+            onChange={(e) => onChange({ chainId: e.target.value })}
+            placeholder="e.g., 1"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          {error("chainId")}
+        </div>
+      </div>
+      <p className="text-xs text-text-muted">
+        Reference the decision behind this entry (e.g., a Snapshot vote). The proposal that
+        updates the ENS contenthash cannot be referenced here, as its ID depends on the
+        registry CID.
+      </p>
+
+      <div className="space-y-1">
+        <label className="block text-sm text-text-secondary">Safe Transaction Hash</label>
+        <input
+          type="text"
+          value={value.safeTxHash}
+          onChange={(e) => onChange({ safeTxHash: e.target.value })}
+          placeholder="0x..."
+          className={`${INPUT_CLASS} font-mono`}
+        />
+        {error("safeTxHash")}
+      </div>
+
+      <div className="space-y-1">
+        <label className="block text-sm text-text-secondary">Authors</label>
+        <textarea
+          value={value.authors}
+          onChange={(e) => onChange({ authors: e.target.value })}
+          placeholder={"One per line, optionally followed by an address\nAlice 0x1234..."}
+          rows={3}
+          className={`${INPUT_CLASS} text-sm resize-y`}
+        />
+        {error("authors")}
+      </div>
+    </div>
+  );
 }
 
 export function EntryForm({
@@ -42,19 +511,55 @@ export function EntryForm({
   // Form state
   const [form, setForm] = useState<FormState>({
     spdxId: defaultLicense ?? "",
-    customSpdx: "",
     effectiveDate: new Date().toISOString().split("T")[0],
     licenseText: "",
+    scope: "",
   });
+  const [additionalTexts, setAdditionalTexts] = useState<AdditionalTextState[]>([]);
+  const [metadata, setMetadata] = useState<MetadataState>(EMPTY_METADATA);
+  const nextKeyRef = useRef(0);
   
   // Track uploaded filename for display only
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  // Encoding and line-ending problems found in the uploaded file
+  const [textWarnings, setTextWarnings] = useState<string[]>([]);
+  // SPDX text the license text was last filled with
+  const [template, setTemplate] = useState<LicenseTemplate | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [creating, setCreating] = useState(false);
 
-  // Get the actual SPDX ID (custom or selected)
-  const actualSpdxId = form.spdxId === "custom" ? form.customSpdx : form.spdxId;
+  const actualSpdxId = form.spdxId.trim();
+  const spdxWarnings = useMemo(() => getSpdxWarnings(actualSpdxId), [actualSpdxId]);
+  const templateLicense = useMemo(() => getTemplateLicense(actualSpdxId), [actualSpdxId]);
+
+  // Replace the license text with the SPDX text of a license
+  const applyTemplate = useCallback(async (license: SpdxLicense) => {
+    setTemplateError(null);
+    try {
+      const text = await loadSpdxLicenseText(license.id);
+      if (!text) {
+        setTemplateError(`No SPDX text is bundled for ${license.id}`);
+        return;
+      }
+      setForm(prev => ({ ...prev, licenseText: text }));
+      setTemplate({ id: license.id, text });
+      setUploadedFileName(null);
+      setTextWarnings([]);
+      setErrors(prev => ({ ...prev, licenseText: "" }));
+    } catch (error) {
+      console.error("Failed to load SPDX license text:", error);
+      setTemplateError("Failed to load the SPDX license text");
+    }
+  }, []);
+
+  // Picking a license fills an empty (or still unedited) text
+  const handleSelectLicense = useCallback((license: SpdxLicense) => {
+    if (!form.licenseText.trim() || form.licenseText === template?.text) {
+      void applyTemplate(license);
+    }
+  }, [form.licenseText, template, applyTemplate]);
 
   // Handle license file upload
   const handleLicenseFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -62,12 +567,14 @@ export function EntryForm({
     if (!file) return;
 
     try {
-      const result = await hashFileWithContent(file);
+      const { text, findings } = decodeLicenseText(await file.arrayBuffer());
       setForm(prev => ({
         ...prev,
-        licenseText: result.content,
+        licenseText: text,
       }));
       setUploadedFileName(file.name);
+      setTemplate(null);
+      setTextWarnings(describeLicenseTextFindings(findings));
       setErrors(prev => ({ ...prev, licenseText: "" }));
     } catch (error) {
       setErrors(prev => ({
@@ -77,14 +584,54 @@ export function EntryForm({
     }
   }, []);
 
+  const addAdditionalText = useCallback(() => {
+    setAdditionalTexts(prev => [
+      ...prev,
+      { key: nextKeyRef.current++, scope: "", spdx: "", text: "", fileName: null, warnings: [] },
+    ]);
+  }, []);
+
+  const updateAdditionalText = useCallback((key: number, update: Partial<AdditionalTextState>) => {
+    setAdditionalTexts(prev => prev.map(text => text.key === key ? { ...text, ...update } : text));
+  }, []);
+
+  const removeAdditionalText = useCallback((key: number) => {
+    setAdditionalTexts(prev => prev.filter(text => text.key !== key));
+  }, []);
+
   // Validate form
   const validate = useCallback((): boolean => {
     const newErrors: Record<string, string> = {};
 
     if (!actualSpdxId) {
       newErrors.spdxId = "Please select a license";
+    } else {
+      const spdxError = checkSpdxExpression(actualSpdxId);
+      if (spdxError) newErrors.spdxId = spdxError;
+    }
+
+    if (additionalTexts.length > 0 && !form.scope.trim()) {
+      newErrors.scope = "Label what this text covers when the entry has several texts";
     }
 
+    const scopes = new Set([form.scope.trim()]);
+    additionalTexts.forEach((text, index) => {
+      const scope = text.scope.trim();
+      if (!scope) {
+        newErrors[`additional.${index}.scope`] = "Scope is required";
+      } else if (scopes.has(scope)) {
+        newErrors[`additional.${index}.scope`] = "Another text already has this scope";
+      }
+      scopes.add(scope);
+
+      const spdxError = text.spdx.trim() ? checkSpdxExpression(text.spdx) : "SPDX expression is required";
+      if (spdxError) newErrors[`additional.${index}.spdx`] = spdxError;
+
+      if (!text.text.trim()) {
+        newErrors[`additional.${index}.text`] = "License text is required";
+      }
+    });
+
     if (!form.effectiveDate) {
       newErrors.effectiveDate = "Effective date is required";
     }
@@ -93,9 +640,11 @@ export function EntryForm({
       newErrors.licenseText = "License text is required";
     }
 
+    Object.assign(newErrors, checkMetadata(metadata));
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [actualSpdxId, form]);
+  }, [actualSpdxId, form, additionalTexts, metadata]);
 
   // Handle form submission
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
@@ -106,15 +655,38 @@ export function EntryForm({
     setCreating(true);
 
     try {
-      // Calculate hash
-      const licenseHash = await sha256(form.licenseText);
+      // Hash the canonical form; the same form is written to the package
+      const licenseText = normalizeLicenseText(form.licenseText, DEFAULT_TEXT_NORMALIZATION);
+      const licenseHash = await hashLicenseText(licenseText, DEFAULT_TEXT_NORMALIZATION);
       const newVersion = currentVersion + 1;
 
+      // Additional texts are canonicalized and hashed the same way
+      const additionalLicenseTexts = additionalTexts.map(text =>
+        normalizeLicenseText(text.text, DEFAULT_TEXT_NORMALIZATION)
+      );
+      const additional: ScopedLicenseText[] = [];
+      for (const [index, text] of additionalTexts.entries()) {
+        additional.push({
+          scope: text.scope.trim(),
+          spdx: formatSpdxExpression(parseSpdxExpression(text.spdx)),
+          text_path: getLicenseFilePath(newVersion, index + 1),
+          text_sha256: await hashLicenseText(additionalLicenseTexts[index], DEFAULT_TEXT_NORMALIZATION),
+          text_encoding: LICENSE_TEXT_ENCODING,
+          normalization: DEFAULT_TEXT_NORMALIZATION,
+        });
+      }
+
       // Create license info with versioned path
       const licenseInfo: LicenseInfo = {
-        spdx: actualSpdxId,
+        spdx: formatSpdxExpression(parseSpdxExpression(actualSpdxId)),
         text_path: getLicenseFilePath(newVersion),
         text_sha256: licenseHash,
+        text_encoding: LICENSE_TEXT_ENCODING,
+        normalization: DEFAULT_TEXT_NORMALIZATION,
+        ...(additional.length > 0 && {
+          scope: form.scope.trim(),
+          additional_texts: additional,
+        }),
       };
 
       // Create entry (no schema or created_at - entries are inline in manifest)
@@ -122,10 +694,11 @@ export function EntryForm({
         version: newVersion,
         effective_date: form.effectiveDate,
         license: licenseInfo,
+        ...buildMetadata(metadata),
       };
 
       // Call the callback
-      onEntryCreated(entry, form.licenseText);
+      onEntryCreated(entry, licenseText, additionalLicenseTexts);
     } catch (error) {
       console.error("Failed to create entry:", error);
       setErrors(prev => ({
@@ -135,7 +708,7 @@ export function EntryForm({
     } finally {
       setCreating(false);
     }
-  }, [validate, form, actualSpdxId, currentVersion, onEntryCreated]);
+  }, [validate, form, additionalTexts, metadata, actualSpdxId, currentVersion, onEntryCreated]);
 
   const newVersion = currentVersion + 1;
   const isGenesisEntry = currentVersion === 0;
@@ -160,33 +733,21 @@ export function EntryForm({
         <label className="block text-sm font-medium text-text-primary">
           License <span className="text-red-500">*</span>
         </label>
-        <Select
+        <LicensePicker
           value={form.spdxId}
-          onValueChange={(value) => setForm(prev => ({ ...prev, spdxId: value }))}
-        >
-          <SelectTrigger className="w-full">
-            <SelectValue placeholder="Select a license..." />
-          </SelectTrigger>
-          <SelectContent>
-            {COMMON_SPDX_LICENSES.map((license) => (
-              <SelectItem key={license.id} value={license.id}>
-                {license.name} ({license.id})
-              </SelectItem>
-            ))}
-            <SelectItem value="custom">Custom SPDX ID...</SelectItem>
-          </SelectContent>
-        </Select>
-        
-        {form.spdxId === "custom" && (
-          <input
-            type="text"
-            value={form.customSpdx}
-            onChange={(e) => setForm(prev => ({ ...prev, customSpdx: e.target.value }))}
-            placeholder="Enter SPDX identifier (e.g., BSD-4-Clause)"
-            className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
-          />
-        )}
-        
+          onChange={(value) => setForm(prev => ({ ...prev, spdxId: value }))}
+          onSelectLicense={handleSelectLicense}
+          placeholder="Search licenses or enter an expression (e.g., MIT OR Apache-2.0)"
+          className={`${INPUT_CLASS} font-mono`}
+        />
+        <p className="text-xs text-text-muted">
+          Licenses not on the SPDX list use a LicenseRef- identifier (e.g., LicenseRef-MyLicense).
+        </p>
+
+        {spdxWarnings.map((warning) => (
+          <p key={warning} className="text-sm text-yellow-600">⚠ {warning}</p>
+        ))}
+
         {errors.spdxId && (
           <p className="text-sm text-red-500">{errors.spdxId}</p>
         )}
@@ -213,6 +774,21 @@ export function EntryForm({
         <label className="block text-sm font-medium text-text-primary">
           License Text <span className="text-red-500">*</span>
         </label>
+
+        {additionalTexts.length > 0 && (
+          <div className="space-y-1">
+            <input
+              type="text"
+              value={form.scope}
+              onChange={(e) => setForm(prev => ({ ...prev, scope: e.target.value }))}
+              placeholder="What this text covers (e.g., Code)"
+              className={INPUT_CLASS}
+            />
+            {errors.scope && (
+              <p className="text-sm text-red-500">{errors.scope}</p>
+            )}
+          </div>
+        )}
         
         <div className="flex gap-2">
           <input
@@ -229,6 +805,11 @@ export function EntryForm({
           >
             Upload File
           </Button>
+          {templateLicense && (
+            <Button type="button" variant="secondary" onClick={() => applyTemplate(templateLicense)}>
+              Use SPDX Text of {templateLicense.id}
+            </Button>
+          )}
           {uploadedFileName && form.licenseText && (
             <span className="flex items-center text-sm text-text-secondary">
               {uploadedFileName}
@@ -238,17 +819,63 @@ export function EntryForm({
 
         <textarea
           value={form.licenseText}
-          onChange={(e) => setForm(prev => ({ ...prev, licenseText: e.target.value }))}
+          onChange={(e) => {
+            setForm(prev => ({ ...prev, licenseText: e.target.value }));
+            setTextWarnings([]);
+          }}
           placeholder="Paste license text here or upload a file..."
           rows={8}
           className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted font-mono text-sm focus:outline-none focus:ring-2 focus:ring-accent resize-y"
         />
+
+        {template && form.licenseText === template.text && <TemplateNotice id={template.id} />}
+        <TextMatchWarning text={form.licenseText} spdx={actualSpdxId} />
+        {templateError && (
+          <p className="text-sm text-red-500">{templateError}</p>
+        )}
         
+        {textWarnings.length > 0 && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 space-y-1">
+            {textWarnings.map((warning) => (
+              <p key={warning} className="text-sm text-yellow-600">⚠ {warning}</p>
+            ))}
+          </div>
+        )}
+
         {errors.licenseText && (
           <p className="text-sm text-red-500">{errors.licenseText}</p>
         )}
       </div>
 
+      {/* Additional License Texts */}
+      {additionalTexts.map((text, index) => (
+        <AdditionalTextFields
+          key={text.key}
+          value={text}
+          index={index}
+          errors={errors}
+          onChange={(update) => updateAdditionalText(text.key, update)}
+          onRemove={() => removeAdditionalText(text.key)}
+        />
+      ))}
+
+      <div className="space-y-1">
+        <Button type="button" variant="secondary" onClick={addAdditionalText}>
+          Add License Text
+        </Button>
+        <p className="text-xs text-text-muted">
+          For parts of the project under other licenses (e.g., documentation or assets), or for
+          each option of a dual license.
+        </p>
+      </div>
+
+      {/* Entry Details */}
+      <MetadataFields
+        value={metadata}
+        errors={errors}
+        onChange={(update) => setMetadata(prev => ({ ...prev, ...update }))}
+      />
+
       {/* Submit Error */}
       {errors.submit && (
         <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
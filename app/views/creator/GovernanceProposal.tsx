@@ -0,0 +1,191 @@
+/**
+ * GovernanceProposal Component
+ *
+ * Generates the ENS `setContenthash` transaction for a published registry
+ * package, so the DAO proposal contains exactly what the Verifier will check.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { Button } from "~/components/Button";
+import { getConfiguredEnsName } from "~/lib/ens";
+import type { ContenthashProposal } from "~/lib/governance";
+import {
+  buildContenthashProposal,
+  getDefaultProposalDescription,
+  toGovernorProposeArgs,
+  toSafeTransactionBuilderJson,
+} from "~/lib/governance";
+import { downloadBlob } from "~/lib/publisher";
+import { parseContentInput } from "~/lib/storage";
+
+interface GovernanceProposalProps {
+  /** Registry version being proposed */
+  version: number;
+  /** Locally computed IPFS directory CID (if available) */
+  derivedCid: string | null;
+}
+
+/**
+ * Labeled monospace value row.
+ */
+function ValueRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-text-secondary">{label}</p>
+      <p className="text-xs font-mono text-text-primary break-all bg-bg-surface rounded px-2 py-1">
+        {value}
+      </p>
+    </div>
+  );
+}
+
+export function GovernanceProposal({ version, derivedCid }: GovernanceProposalProps) {
+  const ensName = getConfiguredEnsName();
+
+  const [contentInput, setContentInput] = useState("");
+  const [inputEdited, setInputEdited] = useState(false);
+  const [description, setDescription] = useState("");
+  const [proposal, setProposal] = useState<ContenthashProposal | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill with the derived CID unless the user typed their own
+  useEffect(() => {
+    if (derivedCid && !inputEdited) {
+      setContentInput(`ipfs://${derivedCid}`);
+    }
+  }, [derivedCid, inputEdited]);
+
+  const handleGenerate = useCallback(async () => {
+    if (!ensName) return;
+
+    const contentRef = parseContentInput(contentInput);
+    if (!contentRef) {
+      setError("Invalid CID, Swarm reference, or Arweave transaction ID");
+      return;
+    }
+
+    setBuilding(true);
+    setError(null);
+    setProposal(null);
+
+    try {
+      const result = await buildContenthashProposal(ensName, contentRef);
+      setProposal(result);
+      if (!description) {
+        setDescription(getDefaultProposalDescription(result, version));
+      }
+    } catch (err) {
+      console.error("Failed to build proposal:", err);
+      setError(err instanceof Error ? err.message : "Failed to build proposal");
+    } finally {
+      setBuilding(false);
+    }
+  }, [ensName, contentInput, description, version]);
+
+  const handleDownloadSafe = useCallback(() => {
+    if (!proposal) return;
+    const batch = toSafeTransactionBuilderJson(proposal, description);
+    const blob = new Blob([JSON.stringify(batch, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${proposal.ensName}-v${version}-safe-batch.json`);
+  }, [proposal, description, version]);
+
+  const handleDownloadGovernor = useCallback(() => {
+    if (!proposal) return;
+    const args = toGovernorProposeArgs(proposal, description);
+    const blob = new Blob([JSON.stringify(args, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${proposal.ensName}-v${version}-governor-propose.json`);
+  }, [proposal, description, version]);
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="text-lg font-semibold text-text-primary">Governance Proposal</h4>
+        <p className="text-sm text-text-secondary mt-1">
+          Generate the ENS <code className="font-mono text-xs">setContenthash</code> transaction
+          for the uploaded package.
+        </p>
+      </div>
+
+      {!ensName ? (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+          <p className="text-sm text-yellow-600">
+            No ENS name configured. Set VITE_LICENSE_ENS_NAME to generate proposal calldata.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-primary">
+              New Content Reference
+            </label>
+            <input
+              type="text"
+              value={contentInput}
+              onChange={(e) => {
+                setContentInput(e.target.value);
+                setInputEdited(true);
+                setProposal(null);
+              }}
+              placeholder="ipfs://bafy... (or bzz://..., ar://...)"
+              className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted font-mono text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+              disabled={building}
+            />
+            <p className="text-xs text-text-muted">
+              Prefilled with the CID computed from this package. Only change it if you uploaded
+              the package in a different way.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-primary">
+              Proposal Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Generated automatically if left empty"
+              rows={2}
+              className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted text-sm focus:outline-none focus:ring-2 focus:ring-accent resize-y"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+              <p className="text-sm text-red-500">{error}</p>
+            </div>
+          )}
+
+          <Button
+            variant="secondary"
+            onClick={handleGenerate}
+            disabled={building || !contentInput.trim()}
+          >
+            {building ? "Looking up resolver..." : "Generate Calldata"}
+          </Button>
+
+          {proposal && (
+            <div className="bg-bg-elevated rounded-lg p-4 space-y-3">
+              <ValueRow label="ENS Name" value={proposal.ensName} />
+              <ValueRow label="Node (namehash)" value={proposal.node} />
+              <ValueRow label={`Target (resolver, chain ${proposal.chainId})`} value={proposal.target} />
+              <ValueRow label="Contenthash" value={proposal.contenthash} />
+              <ValueRow label="Calldata: setContenthash(bytes32,bytes)" value={proposal.calldata} />
+
+              <div className="flex flex-wrap gap-3 pt-2">
+                <Button variant="secondary" onClick={handleDownloadSafe}>
+                  Safe Transaction Builder JSON
+                </Button>
+                <Button variant="secondary" onClick={handleDownloadGovernor}>
+                  Governor propose() Arguments
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default GovernanceProposal;
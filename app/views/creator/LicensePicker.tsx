@@ -0,0 +1,145 @@
+/**
+ * LicensePicker Component
+ *
+ * Text input for an SPDX license expression with suggestions from the
+ * bundled SPDX license list. Suggestions follow the word being typed, so
+ * expressions such as "MIT OR Apache-2.0" can be built from the list;
+ * after WITH, exceptions are suggested instead.
+ */
+
+import { useMemo, useState } from "react";
+import type { SpdxLicense } from "~/lib/spdx-licenses";
+import { SPDX_EXCEPTIONS, searchSpdxLicenses } from "~/lib/spdx-licenses";
+
+interface LicensePickerProps {
+  /** The expression as typed */
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when a license is picked from the suggestions */
+  onSelectLicense?: (license: SpdxLicense) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+type Suggestion =
+  | { type: "license"; id: string; license: SpdxLicense }
+  | { type: "exception"; id: string; deprecated: boolean };
+
+const MAX_SUGGESTIONS = 30;
+
+/**
+ * Small status label on a suggestion.
+ */
+function Badge({ children, className }: { children: React.ReactNode; className: string }) {
+  return <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${className}`}>{children}</span>;
+}
+
+export function LicensePicker({ value, onChange, onSelectLicense, placeholder, className }: LicensePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // The word being typed, and whether it follows WITH
+  const word = /[^\s()+]*$/.exec(value)?.[0] ?? "";
+  const before = value.slice(0, value.length - word.length);
+  const afterWith = /\bwith\s+$/i.test(before);
+
+  const suggestions = useMemo((): Suggestion[] => {
+    if (/^(and|or|with)$/i.test(word)) return [];
+
+    if (afterWith) {
+      const query = word.toLowerCase();
+      return SPDX_EXCEPTIONS
+        .filter(exception => exception.id.toLowerCase().includes(query))
+        .sort((a, b) => Number(a.deprecated) - Number(b.deprecated))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(exception => ({ type: "exception", id: exception.id, deprecated: exception.deprecated }));
+    }
+
+    return searchSpdxLicenses(word, MAX_SUGGESTIONS).map(license => ({ type: "license", id: license.id, license }));
+  }, [word, afterWith]);
+
+  const select = (suggestion: Suggestion) => {
+    onChange(`${before}${suggestion.id}`);
+    setOpen(false);
+    if (suggestion.type === "license") {
+      onSelectLicense?.(suggestion.license);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) {
+      if (e.key === "ArrowDown") setOpen(true);
+      return;
+    }
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+        className={className}
+      />
+
+      {open && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-72 overflow-auto bg-bg-surface border border-border rounded-lg shadow-lg py-1"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input so the selection is not lost on blur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(suggestion)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer text-sm ${
+                index === highlighted ? "bg-bg-elevated" : ""
+              }`}
+            >
+              <span className="font-mono text-text-primary shrink-0">{suggestion.id}</span>
+              {suggestion.type === "license" && suggestion.license.name !== suggestion.id && (
+                <span className="text-text-muted truncate">{suggestion.license.name}</span>
+              )}
+              <span className="ml-auto flex gap-1 shrink-0">
+                {suggestion.type === "license" && suggestion.license.osiApproved && (
+                  <Badge className="bg-green-500/10 text-green-600">OSI</Badge>
+                )}
+                {(suggestion.type === "license" ? suggestion.license.deprecated : suggestion.deprecated) && (
+                  <Badge className="bg-yellow-500/10 text-yellow-600">Deprecated</Badge>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default LicensePicker;
@@ -1,14 +1,27 @@
 /**
  * Publisher Component
  * 
- * Displays the created entry and generates a ZIP download.
+ * Displays the created entry and generates ZIP/CAR downloads.
+ * The IPFS directory CID is computed locally so it can be checked before upload.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { Button } from "~/components/Button";
 import type { LicenseEntry } from "~/types/license-registry";
-import { createRegistryPackage, downloadBlob, generatePackageFilename } from "~/lib/publisher";
+import type { PackageValidation, RegistryPackageData } from "~/lib/publisher";
+import {
+  createArweaveManifest,
+  createRegistryCar,
+  createRegistryPackage,
+  downloadBlob,
+  generatePackageFilename,
+  getRegistryFilePaths,
+  previewRegistryPackage,
+} from "~/lib/publisher";
+import { ARWEAVE_MANIFEST_CONTENT_TYPE, isValidArweaveTxId } from "~/lib/storage";
+import { getEntryStatuses } from "~/lib/effective-date";
 import { LicenseEntryCard } from "~/views/registry/LicenseEntryCard";
+import { GovernanceProposal } from "./GovernanceProposal";
 import { useCgPluginLib } from "~/context/plugin_lib";
 
 interface PublisherProps {
@@ -16,26 +29,125 @@ interface PublisherProps {
   entry: LicenseEntry;
   /** License text content */
   licenseText: string;
+  /** Content of the entry's additional texts, in the order of `license.additional_texts` */
+  additionalLicenseTexts?: string[];
   /** Registry name */
   registryName: string;
   /** Optional registry description */
   registryDescription?: string;
   /** Previous entries to include in the package */
   previousEntries?: LicenseEntry[];
-  /** Previous license texts keyed by version */
-  previousLicenses?: Map<number, string>;
+  /** Head digest of the registry the previous entries come from */
+  previousHeadSha256?: string;
+  /** Previous license texts keyed by text path */
+  previousLicenses?: Map<string, string>;
   /** Callback to go back to form */
   onBack: () => void;
   /** Callback when published successfully */
   onPublished?: () => void;
 }
 
+/**
+ * Arweave publishing helper.
+ * Collects the transaction ID of each uploaded package file and emits the
+ * path manifest that ties them together.
+ */
+function ArweaveManifestSection({
+  packageData,
+  registryName,
+  version,
+}: {
+  packageData: RegistryPackageData;
+  registryName: string;
+  version: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [txIds, setTxIds] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const paths = useMemo(() => getRegistryFilePaths(packageData), [packageData]);
+  const complete = paths.every(path => isValidArweaveTxId(txIds[path]?.trim() ?? ""));
+
+  const handleDownload = useCallback(() => {
+    setError(null);
+    try {
+      const trimmed = Object.fromEntries(
+        Object.entries(txIds).map(([path, id]) => [path, id.trim()])
+      );
+      const manifest = createArweaveManifest(packageData, trimmed);
+      const blob = new Blob([JSON.stringify(manifest, null, 2)], {
+        type: ARWEAVE_MANIFEST_CONTENT_TYPE,
+      });
+      const filename = generatePackageFilename(registryName, version, "arweave.json");
+      downloadBlob(blob, filename);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create manifest");
+    }
+  }, [packageData, txIds, registryName, version]);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-accent hover:text-accent-hover transition-colors"
+      >
+        Publish to Arweave instead →
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-text-primary">Arweave Path Manifest</h4>
+        <p className="text-sm text-text-secondary mt-1">
+          Upload each file from the ZIP as its own Arweave transaction, paste the transaction IDs
+          below, then upload the generated manifest with Content-Type{" "}
+          <code className="font-mono text-xs">{ARWEAVE_MANIFEST_CONTENT_TYPE}</code>.
+          The manifest's transaction ID is the registry reference (<code className="font-mono text-xs">ar://...</code>).
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {paths.map(path => {
+          const value = txIds[path] ?? "";
+          const invalid = value.trim() !== "" && !isValidArweaveTxId(value.trim());
+          return (
+            <div key={path} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-2 items-center">
+              <span className="text-sm font-mono text-text-secondary">/{path}</span>
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => setTxIds(prev => ({ ...prev, [path]: e.target.value }))}
+                placeholder="43-character transaction ID"
+                className={`w-full px-3 py-2 bg-bg-surface border rounded-lg text-text-primary placeholder:text-text-muted font-mono text-xs focus:outline-none focus:ring-2 focus:ring-accent ${
+                  invalid ? "border-red-500" : "border-border"
+                }`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      <Button variant="secondary" onClick={handleDownload} disabled={!complete}>
+        Download Arweave Manifest
+      </Button>
+    </div>
+  );
+}
+
 export function Publisher({
   entry,
   licenseText,
+  additionalLicenseTexts,
   registryName,
   registryDescription,
   previousEntries,
+  previousHeadSha256,
   previousLicenses,
   onBack,
   onPublished,
@@ -43,7 +155,71 @@ export function Publisher({
   const cgPluginLib = useCgPluginLib();
   const [downloading, setDownloading] = useState(false);
   const [downloaded, setDownloaded] = useState(false);
+  const [downloadingCar, setDownloadingCar] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rootCid, setRootCid] = useState<string | null>(null);
+  // The entry as written to registry.json (linked to the previous head)
+  const [linkedEntry, setLinkedEntry] = useState<LicenseEntry | null>(null);
+  const [headDigest, setHeadDigest] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [validation, setValidation] = useState<PackageValidation | null>(null);
+  // Explicitly accept a package without the full history
+  const [partial, setPartial] = useState(false);
+
+  const packageData = useMemo<RegistryPackageData>(() => ({
+    name: registryName,
+    description: registryDescription,
+    newEntry: entry,
+    licenseText,
+    additionalLicenseTexts,
+    previousEntries,
+    previousHeadSha256,
+    previousLicenses,
+    partial,
+  }), [
+    entry,
+    licenseText,
+    additionalLicenseTexts,
+    registryName,
+    registryDescription,
+    previousEntries,
+    previousHeadSha256,
+    previousLicenses,
+    partial,
+  ]);
+
+  // Nothing can be built until every file is present and matches its hash
+  const blocked = !validation?.valid;
+  const partialBuild = !!validation?.valid && validation.missing.length > 0;
+
+  // Validate and build the package once per change; the directory CID is
+  // computed up front so it can be shared before uploading
+  const packagePreview = useMemo(() => previewRegistryPackage(packageData), [packageData]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    setRootCid(null);
+    setLinkedEntry(null);
+    setHeadDigest(null);
+
+    packagePreview
+      .then((preview) => {
+        if (cancelled) return;
+        setValidation(preview.validation);
+        setRootCid(preview.cid);
+        setLinkedEntry(preview.manifest?.entries.find(e => e.version === entry.version) ?? null);
+        setHeadDigest(preview.manifest?.head_sha256 ?? null);
+      })
+      .catch(err => {
+        console.error("Failed to compute registry CID:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to compute CID");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [packagePreview, entry.version]);
 
   // Handle external link navigation (required for iframe sandbox)
   const handleExternalLink = useCallback(async (url: string) => {
@@ -60,14 +236,7 @@ export function Publisher({
     setError(null);
 
     try {
-      const zipBlob = await createRegistryPackage({
-        name: registryName,
-        description: registryDescription,
-        newEntry: entry,
-        licenseText,
-        previousEntries,
-        previousLicenses,
-      });
+      const zipBlob = await createRegistryPackage(packageData);
 
       const filename = generatePackageFilename(registryName, entry.version);
       downloadBlob(zipBlob, filename);
@@ -79,7 +248,38 @@ export function Publisher({
     } finally {
       setDownloading(false);
     }
-  }, [entry, licenseText, registryName, registryDescription, previousEntries, previousLicenses, onPublished]);
+  }, [packageData, registryName, entry.version, onPublished]);
+
+  const handleDownloadCar = useCallback(async () => {
+    setDownloadingCar(true);
+    setError(null);
+
+    try {
+      const { cid, car } = await createRegistryCar(packageData);
+      setRootCid(cid);
+
+      const filename = generatePackageFilename(registryName, entry.version, "car");
+      downloadBlob(car, filename);
+      setDownloaded(true);
+      onPublished?.();
+    } catch (err) {
+      console.error("Failed to create CAR:", err);
+      setError(err instanceof Error ? err.message : "Failed to create CAR");
+    } finally {
+      setDownloadingCar(false);
+    }
+  }, [packageData, registryName, entry.version, onPublished]);
+
+  const handleCopyCid = useCallback(async () => {
+    if (!rootCid) return;
+    try {
+      await navigator.clipboard.writeText(rootCid);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy CID:", err);
+    }
+  }, [rootCid]);
 
   return (
     <div className="space-y-6">
@@ -113,15 +313,24 @@ export function Publisher({
       {/* Entry Preview */}
       <div>
         <h4 className="text-sm font-medium text-text-secondary mb-2">Entry Preview</h4>
-        <LicenseEntryCard entry={entry} contentRef={null} isHead />
+        <LicenseEntryCard
+          entry={linkedEntry ?? entry}
+          contentRef={null}
+          status={getEntryStatuses({ entries: [entry, ...(previousEntries ?? [])] }).get(entry.version)}
+        />
       </div>
 
       {/* Entry JSON */}
       <div className="space-y-2">
         <h4 className="text-sm font-medium text-text-secondary">Entry JSON</h4>
         <pre className="bg-bg-elevated border border-border rounded-lg p-4 text-xs font-mono text-text-secondary overflow-x-auto">
-          {JSON.stringify(entry, null, 2)}
+          {JSON.stringify(linkedEntry ?? entry, null, 2)}
         </pre>
+        {!linkedEntry && (
+          <p className="text-xs text-text-muted">
+            The link to the previous entry (prev_entry_sha256) is added once the package is built.
+          </p>
+        )}
       </div>
 
       {/* Download Section */}
@@ -129,21 +338,91 @@ export function Publisher({
         <div>
           <h4 className="text-lg font-semibold text-text-primary">Download & Publish</h4>
           <p className="text-sm text-text-secondary mt-1">
-            Download the registry package as a ZIP file, then upload it to IPFS.
+            Download the registry package as a CAR file (or ZIP for review), then upload it to IPFS.
           </p>
         </div>
 
+        {/* Precomputed CID */}
+        <div className="bg-bg-elevated rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-text-primary">IPFS Directory CID</p>
+            {rootCid && (
+              <button
+                onClick={handleCopyCid}
+                className="text-sm text-accent hover:text-accent-hover transition-colors"
+              >
+                {copied ? "Copied!" : "Copy"}
+              </button>
+            )}
+          </div>
+          <p className="text-xs font-mono text-text-secondary break-all">
+            {rootCid ?? (validation && !validation.valid ? "Unavailable until the package is complete" : "Computing...")}
+          </p>
+          <p className="text-xs text-text-muted">
+            Computed locally from the package contents. Anyone can recompute it from the same files.
+          </p>
+          {headDigest && (
+            <p className="text-xs font-mono text-text-muted break-all pt-1">
+              Entry chain head: sha256:{headDigest}
+            </p>
+          )}
+        </div>
+
         <div className="bg-bg-elevated rounded-lg p-4 text-sm text-text-secondary space-y-2">
           <p className="font-medium text-text-primary">Publishing steps:</p>
           <ol className="list-decimal list-inside space-y-1 ml-2">
-            <li>Download the registry package (ZIP)</li>
-            <li>Extract and upload the folder to IPFS (e.g., via web3.storage, Pinata)</li>
-            <li>Copy the resulting CID</li>
-            <li>Propose a DAO governance vote to update the ENS contenthash</li>
+            <li>Download the registry package (CAR)</li>
+            <li>Upload the CAR file to IPFS (e.g., via web3.storage, Pinata, or <code className="font-mono">ipfs dag import</code>)</li>
+            <li>Check that the resulting CID matches the CID shown above</li>
+            <li>Generate the ENS contenthash calldata below and submit it as a DAO governance proposal</li>
             <li>Once approved and executed, the registry becomes official</li>
           </ol>
         </div>
 
+        {validation && !validation.valid && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 space-y-2">
+            <p className="text-sm font-medium text-red-500">
+              Publishing is blocked: {validation.errors.length}{" "}
+              {validation.errors.length === 1 ? "problem" : "problems"} found in the package.
+            </p>
+            <ul className="list-disc list-inside space-y-1">
+              {validation.errors.map((message) => (
+                <li key={message} className="text-xs font-mono text-red-500 break-all">{message}</li>
+              ))}
+            </ul>
+            {validation.missing.length > 0 && (
+              <p className="text-sm text-red-500">
+                Go back and import the previously published ZIP or CAR so every version's text is included.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Partial package mode: only offered when texts are missing */}
+        {(validation?.missing.length ?? 0) > 0 && (
+          <label className="flex items-start gap-2 text-sm text-text-secondary">
+            <input
+              type="checkbox"
+              checked={partial}
+              onChange={(e) => setPartial(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Build a partial package without the missing license texts. Its README is marked as
+              partial; it is not a complete registry and must not be proposed as the official one.
+            </span>
+          </label>
+        )}
+
+        {partialBuild && validation && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+            <p className="text-sm text-yellow-600">
+              ⚠ Partial package: {validation.missing.join(", ")}{" "}
+              {validation.missing.length === 1 ? "is" : "are"} left out.
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
             <p className="text-sm text-red-500">{error}</p>
@@ -152,28 +431,28 @@ export function Publisher({
 
         <div className="flex gap-3">
           <Button
-            onClick={handleDownload}
-            disabled={downloading}
+            onClick={handleDownloadCar}
+            disabled={blocked || downloadingCar || downloading}
             className="flex-1"
           >
-            {downloading ? (
-              "Creating package..."
-            ) : downloaded ? (
-              <>
-                <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                </svg>
-                Download Again
-              </>
+            {downloadingCar ? (
+              "Creating CAR..."
             ) : (
               <>
                 <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                 </svg>
-                Download Registry Package
+                Download CAR
               </>
             )}
           </Button>
+          <Button
+            variant="secondary"
+            onClick={handleDownload}
+            disabled={blocked || downloading || downloadingCar}
+          >
+            {downloading ? "Creating package..." : "Download ZIP"}
+          </Button>
           <Button variant="secondary" onClick={onBack}>
             Create Another
           </Button>
@@ -181,11 +460,25 @@ export function Publisher({
 
         {downloaded && (
           <div className="bg-accent/10 border border-accent/20 rounded-lg p-3 text-sm text-accent">
-            Package downloaded! Upload to IPFS, then propose a DAO vote to make it official.
+            Package downloaded! Upload the CAR to IPFS, confirm the CID matches, then propose a DAO vote to make it official.
           </div>
         )}
       </div>
 
+      {/* ENS Governance Proposal */}
+      {!blocked && !partialBuild && rootCid && (
+        <GovernanceProposal version={entry.version} derivedCid={rootCid} />
+      )}
+
+      {/* Arweave Publishing */}
+      {!blocked && !partialBuild && (
+        <ArweaveManifestSection
+          packageData={packageData}
+          registryName={registryName}
+          version={entry.version}
+        />
+      )}
+
       {/* IPFS Upload Options */}
       <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-3">
         <h4 className="text-sm font-medium text-text-primary">IPFS Upload Services</h4>
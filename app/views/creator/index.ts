@@ -1,4 +1,5 @@
 export { Creator, default } from "./Creator";
 export { EntryForm } from "./EntryForm";
+export { GovernanceProposal } from "./GovernanceProposal";
 export { Publisher } from "./Publisher";
 
@@ -1,15 +1,35 @@
 /**
  * Home Page
  * 
- * Displays the license registry viewer.
+ * Displays the license registry viewer next to its on-chain history.
  */
 
-import { RegistryViewer } from "~/views/registry";
+import { useState } from "react";
+import type { ContentReference } from "~/types/license-registry";
+import { RegistryViewer, RegistryTimeline } from "~/views/registry";
+import { formatContentUri } from "~/lib/storage";
+import { Button } from "~/components/Button";
 
 export default function Home() {
+  // Historical registry selected in the timeline (undefined = current)
+  const [selectedRef, setSelectedRef] = useState<ContentReference | undefined>(undefined);
+
   return (
-    <div className="flex flex-col gap-4 flex-1">
-      <RegistryViewer />
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 flex-1">
+      <div className="lg:col-span-2 flex flex-col gap-4">
+        {selectedRef && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 flex items-center justify-between gap-3">
+            <p className="text-sm text-yellow-600 break-all">
+              Viewing a historical registry: <span className="font-mono">{formatContentUri(selectedRef)}</span>
+            </p>
+            <Button variant="secondary" onClick={() => setSelectedRef(undefined)}>
+              Back to Current
+            </Button>
+          </div>
+        )}
+        <RegistryViewer contentRef={selectedRef} />
+      </div>
+      <RegistryTimeline selectedRef={selectedRef} onSelect={setSelectedRef} />
     </div>
   );
 }
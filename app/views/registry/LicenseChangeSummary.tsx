@@ -0,0 +1,42 @@
+/**
+ * LicenseChangeSummary Component
+ *
+ * How a version changes the license compared with the version before it
+ * (e.g., permissive to copyleft, or a new text of the same license), so
+ * voters can tell a relicensing from a text fix.
+ */
+
+import type { LicenseChange, LicenseChangeKind } from "~/lib/license-semantics";
+
+const KIND_STYLES: Record<LicenseChangeKind, { title: string; className: string }> = {
+  initial: { title: "Initial license", className: "bg-bg-elevated text-text-secondary" },
+  unchanged: { title: "No change", className: "bg-bg-elevated text-text-secondary" },
+  "text-update": { title: "Text update", className: "bg-bg-elevated text-text-secondary" },
+  "version-change": { title: "License version change", className: "bg-accent/10 text-accent" },
+  "more-permissive": { title: "More permissive", className: "bg-green-500/10 text-green-600" },
+  "more-restrictive": { title: "More restrictive", className: "bg-yellow-500/10 text-yellow-600" },
+  lateral: { title: "Relicensed", className: "bg-accent/10 text-accent" },
+  unknown: { title: "Relicensed", className: "bg-bg-elevated text-text-secondary" },
+};
+
+export function LicenseChangeSummary({ change }: { change: LicenseChange }) {
+  const { title, className } = KIND_STYLES[change.kind];
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${className}`}>{title}</span>
+        <span className="text-text-primary">{change.label}</span>
+      </p>
+      {change.notes.length > 0 && (
+        <ul className="text-xs text-text-muted space-y-0.5 pl-1">
+          {change.notes.map((note) => (
+            <li key={note}>• {note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default LicenseChangeSummary;
@@ -0,0 +1,344 @@
+/**
+ * LicenseDiff Component
+ *
+ * Line and word diff of two license texts, which may come from different
+ * registry versions (e.g., the current registry and a proposed CID).
+ * Shows side-by-side, unified and per-section summary views.
+ */
+
+import { useEffect, useState } from "react";
+import type { ContentReference, LicenseEntry } from "~/types/license-registry";
+import type { DirectoryReader } from "~/lib/storage";
+import { openDirectory } from "~/lib/storage";
+import { getTextNormalization, normalizeLicenseText } from "~/lib/license-text";
+import type { DiffHunk, DiffRow, DiffSpan, LicenseTextDiff } from "~/lib/text-diff";
+import { diffLicenseTexts } from "~/lib/text-diff";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "~/components/Dialog";
+
+/**
+ * A license text to compare: an entry and the registry directory it lives in.
+ */
+export interface LicenseTextSource {
+  /** The entry whose text to show */
+  entry: LicenseEntry;
+  /** Registry directory the text is read from */
+  contentRef: ContentReference;
+  /** Reader to use instead of opening `contentRef` (e.g., an uploaded CAR) */
+  directory?: DirectoryReader | null;
+  /** Label for this side (e.g., "Current v4") */
+  label: string;
+}
+
+type DiffMode = "split" | "unified" | "summary";
+
+const DIFF_MODES: { id: DiffMode; label: string }[] = [
+  { id: "split", label: "Side by side" },
+  { id: "unified", label: "Unified" },
+  { id: "summary", label: "Summary" },
+];
+
+type DiffState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "loaded"; diff: LicenseTextDiff };
+
+/**
+ * Read a license text in the canonical form its entry was hashed in.
+ */
+async function loadLicenseText(source: LicenseTextSource): Promise<string> {
+  const directory = source.directory ?? openDirectory(source.contentRef);
+  const text = await directory.readText(source.entry.license.text_path);
+  return normalizeLicenseText(text, getTextNormalization(source.entry.license));
+}
+
+/**
+ * Render word-level runs, highlighting the changed ones.
+ */
+function Spans({ spans, changedClassName }: { spans: DiffSpan[]; changedClassName: string }) {
+  return (
+    <>
+      {spans.map((span, index) =>
+        span.changed ? (
+          <mark key={index} className={`${changedClassName} text-inherit rounded-sm`}>
+            {span.text}
+          </mark>
+        ) : (
+          <span key={index}>{span.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Header line of a hunk.
+ */
+function HunkHeader({ hunk, colSpan }: { hunk: DiffHunk; colSpan: number }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="px-2 py-1 bg-accent/5 text-accent text-xs">
+        @@ -{hunk.oldStart} +{hunk.newStart} @@ {hunk.section}
+      </td>
+    </tr>
+  );
+}
+
+const LINE_NUMBER_CLASS = "w-10 px-2 text-right text-text-muted select-none align-top";
+const REMOVED_CLASS = "bg-red-500/10";
+const ADDED_CLASS = "bg-green-500/10";
+
+/**
+ * Side-by-side view: old text on the left, new text on the right.
+ */
+function SplitView({ hunks }: { hunks: DiffHunk[] }) {
+  const cell = (row: DiffRow, side: "old" | "new") => {
+    const line = side === "old" ? row.oldLine : row.newLine;
+    const text = side === "old" ? row.oldText : row.newText;
+    const spans = side === "old" ? row.oldSpans : row.newSpans;
+    const changed = side === "old"
+      ? row.type === "delete" || row.type === "change"
+      : row.type === "insert" || row.type === "change";
+    const background = changed ? (side === "old" ? REMOVED_CLASS : ADDED_CLASS) : "";
+
+    return (
+      <>
+        <td className={`${LINE_NUMBER_CLASS} ${background}`}>{line ?? ""}</td>
+        <td className={`w-1/2 px-2 whitespace-pre-wrap break-words align-top ${background}`}>
+          {spans ? (
+            <Spans spans={spans} changedClassName={side === "old" ? "bg-red-500/30" : "bg-green-500/30"} />
+          ) : (
+            text ?? ""
+          )}
+        </td>
+      </>
+    );
+  };
+
+  return (
+    <table className="w-full table-fixed font-mono text-xs text-text-primary">
+      <tbody>
+        {hunks.map((hunk) => (
+          <HunkRows key={`${hunk.oldStart}-${hunk.newStart}`} hunk={hunk} colSpan={4}>
+            {hunk.rows.map((row, index) => (
+              <tr key={index}>
+                {cell(row, "old")}
+                {cell(row, "new")}
+              </tr>
+            ))}
+          </HunkRows>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Unified view: removed lines followed by the lines that replace them.
+ */
+function UnifiedView({ hunks }: { hunks: DiffHunk[] }) {
+  const line = (
+    key: string,
+    prefix: " " | "-" | "+",
+    oldLine: number | undefined,
+    newLine: number | undefined,
+    content: React.ReactNode
+  ) => (
+    <tr key={key} className={prefix === "-" ? REMOVED_CLASS : prefix === "+" ? ADDED_CLASS : ""}>
+      <td className={LINE_NUMBER_CLASS}>{oldLine ?? ""}</td>
+      <td className={LINE_NUMBER_CLASS}>{newLine ?? ""}</td>
+      <td className="w-4 text-text-muted select-none align-top">{prefix}</td>
+      <td className="px-2 whitespace-pre-wrap break-words align-top">{content}</td>
+    </tr>
+  );
+
+  return (
+    <table className="w-full table-fixed font-mono text-xs text-text-primary">
+      <tbody>
+        {hunks.map((hunk) => (
+          <HunkRows key={`${hunk.oldStart}-${hunk.newStart}`} hunk={hunk} colSpan={4}>
+            {hunk.rows.flatMap((row, index) => {
+              switch (row.type) {
+                case "equal":
+                  return [line(`${index}`, " ", row.oldLine, row.newLine, row.oldText)];
+                case "delete":
+                  return [line(`${index}`, "-", row.oldLine, undefined, row.oldText)];
+                case "insert":
+                  return [line(`${index}`, "+", undefined, row.newLine, row.newText)];
+                case "change":
+                  return [
+                    line(`${index}-`, "-", row.oldLine, undefined,
+                      <Spans spans={row.oldSpans ?? []} changedClassName="bg-red-500/30" />),
+                    line(`${index}+`, "+", undefined, row.newLine,
+                      <Spans spans={row.newSpans ?? []} changedClassName="bg-green-500/30" />),
+                  ];
+              }
+            })}
+          </HunkRows>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * A hunk header followed by its rows.
+ */
+function HunkRows({ hunk, colSpan, children }: { hunk: DiffHunk; colSpan: number; children: React.ReactNode }) {
+  return (
+    <>
+      <HunkHeader hunk={hunk} colSpan={colSpan} />
+      {children}
+    </>
+  );
+}
+
+/**
+ * Changes per section of the license.
+ */
+function SummaryView({ diff }: { diff: LicenseTextDiff }) {
+  return (
+    <div className="space-y-2">
+      {diff.sections.map((section) => (
+        <div
+          key={section.section}
+          className="flex items-center justify-between gap-3 p-2 bg-bg-elevated rounded text-sm"
+        >
+          <span className="text-text-primary truncate">{section.section}</span>
+          <span className="flex gap-3 text-xs font-mono shrink-0">
+            {section.changed > 0 && <span className="text-yellow-600">~{section.changed}</span>}
+            {section.added > 0 && <span className="text-green-600">+{section.added}</span>}
+            {section.removed > 0 && <span className="text-red-500">-{section.removed}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Diff of two license texts.
+ */
+export function LicenseDiff({ from, to }: { from: LicenseTextSource; to: LicenseTextSource }) {
+  const [state, setState] = useState<DiffState>({ status: "loading" });
+  const [mode, setMode] = useState<DiffMode>("split");
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+
+    Promise.all([loadLicenseText(from), loadLicenseText(to)])
+      .then(([oldText, newText]) => {
+        if (!cancelled) {
+          setState({ status: "loaded", diff: diffLicenseTexts(oldText, newText) });
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load license texts:", error);
+        if (!cancelled) {
+          setState({
+            status: "error",
+            error: error instanceof Error ? error.message : "Failed to load license texts",
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  if (state.status === "loading") {
+    return (
+      <div className="space-y-2 animate-pulse">
+        <div className="h-4 bg-bg-elevated rounded w-1/3" />
+        <div className="h-32 bg-bg-elevated rounded" />
+      </div>
+    );
+  }
+
+  if (state.status === "error") {
+    return <p className="text-sm text-red-500">{state.error}</p>;
+  }
+
+  const { diff } = state;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-text-secondary">
+          <span className="font-medium text-text-primary">{from.label}</span>
+          {" → "}
+          <span className="font-medium text-text-primary">{to.label}</span>
+          {!diff.identical && (
+            <span className="ml-2 font-mono text-xs">
+              <span className="text-yellow-600">~{diff.stats.changed}</span>{" "}
+              <span className="text-green-600">+{diff.stats.added}</span>{" "}
+              <span className="text-red-500">-{diff.stats.removed}</span>
+            </span>
+          )}
+        </p>
+        {!diff.identical && (
+          <div className="flex rounded-lg border border-border overflow-hidden text-xs">
+            {DIFF_MODES.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setMode(id)}
+                className={`px-3 py-1 transition-colors ${
+                  mode === id ? "bg-accent text-text-inverted" : "text-text-secondary hover:bg-bg-elevated"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {diff.identical ? (
+        <p className="text-sm text-green-600">The license texts are identical.</p>
+      ) : (
+        <div className="max-h-[60vh] overflow-auto border border-border rounded-lg">
+          {mode === "split" && <SplitView hunks={diff.hunks} />}
+          {mode === "unified" && <UnifiedView hunks={diff.hunks} />}
+          {mode === "summary" && (
+            <div className="p-3">
+              <SummaryView diff={diff} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * License diff shown in a dialog. Rendered only while a comparison is set.
+ */
+export function LicenseDiffDialog({
+  comparison,
+  onClose,
+}: {
+  comparison: { from: LicenseTextSource; to: LicenseTextSource } | null;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={!!comparison} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        {comparison && (
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>License text changes</DialogTitle>
+              <DialogDescription>
+                {comparison.from.entry.license.spdx} → {comparison.to.entry.license.spdx}
+              </DialogDescription>
+            </DialogHeader>
+            <LicenseDiff from={comparison.from} to={comparison.to} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default LicenseDiff;
@@ -1,27 +1,49 @@
 /**
  * LicenseEntryCard Component
  * 
- * Displays a license entry with its details.
+ * Displays a license entry with its details. Entries may carry several
+ * license texts, each shown with its scope, hash and integrity status.
+ * Later versions show how they change the license of the one before.
+ * Entries are marked current, scheduled (dated in the future) or
+ * overridden by a later version dated on or before them. Optional details
+ * (changelog, governance proposal, Safe transaction, authors) are shown
+ * when the entry has them.
  */
 
-import type { LicenseEntry, ContentReference } from "~/types/license-registry";
-import { COMMON_SPDX_LICENSES } from "~/types/license-registry";
+import type {
+  LicenseEntry,
+  ContentReference,
+  LicenseTextVerification,
+} from "~/types/license-registry";
+import type { EntryLicenseText } from "~/lib/license-text";
+import type { LicenseChange } from "~/lib/license-semantics";
+import type { EntryStatus } from "~/lib/effective-date";
+import { getLicenseTexts } from "~/lib/license-text";
+import { getSpdxLicense } from "~/lib/spdx-licenses";
 import { getContentUrl } from "~/lib/storage";
 import { useCgPluginLib } from "~/context/plugin_lib";
+import { LicenseChangeSummary } from "./LicenseChangeSummary";
 
 interface LicenseEntryCardProps {
   entry: LicenseEntry;
   contentRef: ContentReference | null;
-  isHead?: boolean;
+  /** Whether the entry is in force, scheduled, superseded or preempted */
+  status?: EntryStatus;
+  /** Results of checking the license texts against their hashes, keyed by text path */
+  textVerifications?: Map<string, LicenseTextVerification>;
+  /** How this version changes the license of the previous one */
+  change?: LicenseChange;
   onViewLicense?: () => void;
+  /** Show the diff against the previous version's license text */
+  onCompareWithPrevious?: () => void;
 }
 
 /**
  * Get human-readable license name from SPDX ID.
+ * Expressions (e.g., "MIT OR Apache-2.0") are shown as written.
  */
 function getLicenseName(spdx: string): string {
-  const license = COMMON_SPDX_LICENSES.find(l => l.id === spdx);
-  return license?.name ?? spdx;
+  return getSpdxLicense(spdx)?.name ?? spdx;
 }
 
 /**
@@ -48,15 +70,180 @@ function truncateHash(hash: string, length = 8): string {
   return `${hash.slice(0, length)}...${hash.slice(-length)}`;
 }
 
+/**
+ * Badge showing whether the license text matches its hash.
+ */
+function TextIntegrityBadge({ verification }: { verification: LicenseTextVerification }) {
+  const { label, className, title } = {
+    pending: {
+      label: "Checking...",
+      className: "bg-bg-elevated text-text-muted",
+      title: "Fetching the license text",
+    },
+    verified: {
+      label: "✓ Verified",
+      className: "bg-green-500/10 text-green-600",
+      title: "The license text matches its SHA-256",
+    },
+    mismatch: {
+      label: "✗ Hash mismatch",
+      className: "bg-red-500/10 text-red-500",
+      title: verification.actualSha256
+        ? `The license text hashes to ${verification.actualSha256}`
+        : "The license text does not match its SHA-256",
+    },
+    noncanonical: {
+      label: "✗ Not canonical",
+      className: "bg-red-500/10 text-red-500",
+      title: "The stored file is not valid UTF-8 or not in the canonical form its entry records (e.g., CRLF line endings or a byte order mark)",
+    },
+    unavailable: {
+      label: "Unavailable",
+      className: "bg-yellow-500/10 text-yellow-600",
+      title: verification.error ?? "The license text could not be fetched",
+    },
+  }[verification.status];
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium font-sans shrink-0 ${className}`} title={title}>
+      {label}
+    </span>
+  );
+}
+
+/**
+ * One license text: scope, hash, integrity status and a link to the file.
+ */
+function LicenseTextRow({
+  license,
+  contentRef,
+  verification,
+  showScope,
+}: {
+  license: EntryLicenseText;
+  contentRef: ContentReference | null;
+  verification?: LicenseTextVerification;
+  showScope: boolean;
+}) {
+  const cgPluginLib = useCgPluginLib();
+
+  // Build gateway URL for viewing license
+  const licenseUrl = contentRef
+    ? `${getContentUrl(contentRef)}${license.text_path.startsWith("/") ? "" : "/"}${license.text_path}`
+    : null;
+
+  // Handle external link navigation (required for iframe sandbox)
+  const handleViewLicense = async () => {
+    if (!licenseUrl) return;
+    if (cgPluginLib) {
+      await cgPluginLib.navigate(licenseUrl);
+    } else {
+      // Fallback for development outside iframe
+      window.open(licenseUrl, "_blank");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {showScope && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-text-primary">
+            <span className="font-medium">{license.scope ?? "Main text"}</span>
+            <span className="text-text-muted font-mono ml-2">{license.spdx}</span>
+          </p>
+          {licenseUrl && (
+            <button
+              onClick={handleViewLicense}
+              className="text-sm text-accent hover:text-accent-hover transition-colors shrink-0"
+            >
+              View →
+            </button>
+          )}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2 text-xs text-text-muted font-mono bg-bg-elevated rounded px-2 py-1">
+        <span title={license.text_sha256}>
+          SHA-256: {truncateHash(license.text_sha256, 12)}
+        </span>
+        {verification && <TextIntegrityBadge verification={verification} />}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The entry's changelog, governance proposal, Safe transaction and authors.
+ * The changelog is Markdown and shown as written.
+ */
+function EntryDetails({ entry }: { entry: LicenseEntry }) {
+  const { changelog, governance, safe_tx_hash: safeTxHash, authors } = entry;
+  if (!changelog && !governance && !safeTxHash && !authors?.length) return null;
+
+  return (
+    <div className="space-y-3">
+      {changelog && (
+        <div>
+          <h4 className="text-sm font-medium text-text-secondary">Changelog</h4>
+          <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{changelog}</p>
+        </div>
+      )}
+
+      {(governance || safeTxHash) && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-text-secondary">Governance</h4>
+          {governance?.snapshot_id && (
+            <p className="text-xs text-text-muted font-mono" title={governance.snapshot_id}>
+              Snapshot proposal: {truncateHash(governance.snapshot_id, 12)}
+            </p>
+          )}
+          {governance?.governor_proposal_id && (
+            <p className="text-xs text-text-muted font-mono" title={governance.governor_proposal_id}>
+              Governor proposal (chain {governance.chain_id}): {truncateHash(governance.governor_proposal_id, 12)}
+            </p>
+          )}
+          {safeTxHash && (
+            <p className="text-xs text-text-muted font-mono" title={safeTxHash}>
+              Safe transaction: {truncateHash(safeTxHash, 12)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {authors && authors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-text-secondary">Authors</h4>
+          <ul className="text-sm text-text-primary space-y-0.5">
+            {authors.map((author, index) => (
+              <li key={index}>
+                {author.name}
+                {author.address && (
+                  <span className="text-xs text-text-muted font-mono ml-2" title={author.address}>
+                    {truncateHash(author.address, 6)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function LicenseEntryCard({
   entry,
   contentRef,
-  isHead = false,
+  status,
+  textVerifications,
+  change,
   onViewLicense,
+  onCompareWithPrevious,
 }: LicenseEntryCardProps) {
   const cgPluginLib = useCgPluginLib();
   const licenseName = getLicenseName(entry.license.spdx);
   const effectiveDate = formatDate(entry.effective_date);
+  const licenses = getLicenseTexts(entry.license);
+  const multipleTexts = licenses.length > 1;
 
   // Build gateway URL for viewing license
   const licenseUrl = contentRef
@@ -82,14 +269,30 @@ export function LicenseEntryCard({
           <span className="text-lg font-semibold text-text-primary">
             Version {entry.version}
           </span>
-          {isHead && (
+          {status === "current" && (
             <span className="px-2 py-0.5 text-xs font-medium bg-accent/10 text-accent rounded-full">
               Current
             </span>
           )}
+          {status === "scheduled" && (
+            <span
+              className="px-2 py-0.5 text-xs font-medium bg-yellow-500/10 text-yellow-600 rounded-full"
+              title="The effective date has not been reached yet"
+            >
+              Scheduled
+            </span>
+          )}
+          {status === "preempted" && (
+            <span
+              className="px-2 py-0.5 text-xs font-medium bg-bg-elevated text-text-muted rounded-full"
+              title="A later version takes effect on or before this entry's date, so this entry never applies"
+            >
+              Overridden
+            </span>
+          )}
         </div>
         <span className="text-sm text-text-muted">
-          Effective: {effectiveDate}
+          {status === "scheduled" ? "Takes effect" : "Effective"}: {effectiveDate}
         </span>
       </div>
 
@@ -103,7 +306,7 @@ export function LicenseEntryCard({
               <p className="text-text-primary font-medium">{licenseName}</p>
               <p className="text-sm text-text-muted font-mono">{entry.license.spdx}</p>
             </div>
-            {licenseUrl && (
+            {licenseUrl && !multipleTexts && (
               <button
                 onClick={handleViewLicense}
                 className="text-sm text-accent hover:text-accent-hover transition-colors"
@@ -113,8 +316,16 @@ export function LicenseEntryCard({
             )}
           </div>
           
-          <div className="text-xs text-text-muted font-mono bg-bg-elevated rounded px-2 py-1">
-            SHA-256: {truncateHash(entry.license.text_sha256, 12)}
+          <div className={multipleTexts ? "space-y-3 pt-1" : ""}>
+            {licenses.map((license) => (
+              <LicenseTextRow
+                key={license.text_path}
+                license={license}
+                contentRef={contentRef}
+                verification={textVerifications && (textVerifications.get(license.text_path) ?? { status: "pending" })}
+                showScope={multipleTexts}
+              />
+            ))}
           </div>
         </div>
 
@@ -124,12 +335,35 @@ export function LicenseEntryCard({
           <p className="text-text-primary">{effectiveDate}</p>
         </div>
 
+        {/* Changelog, Governance and Authors */}
+        <EntryDetails entry={entry} />
+
         {/* Previous Version */}
         {entry.version > 1 && (
           <div className="pt-2 border-t border-border">
-            <p className="text-sm text-text-muted">
-              Supersedes version {entry.version - 1}
-            </p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-text-muted">
+                Supersedes version {entry.version - 1}
+              </p>
+              {onCompareWithPrevious && (
+                <button
+                  onClick={onCompareWithPrevious}
+                  className="text-sm text-accent hover:text-accent-hover transition-colors"
+                >
+                  Compare with previous
+                </button>
+              )}
+            </div>
+            {change && change.kind !== "initial" && (
+              <div className="mt-2">
+                <LicenseChangeSummary change={change} />
+              </div>
+            )}
+            {entry.prev_entry_sha256 && (
+              <p className="text-xs text-text-muted font-mono mt-1" title={entry.prev_entry_sha256}>
+                Linked by SHA-256: {truncateHash(entry.prev_entry_sha256, 12)}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,190 @@
+/**
+ * RegistryTimeline Component
+ *
+ * Shows every contenthash the registry's ENS name has pointed to,
+ * reconstructed from on-chain ContenthashChanged events.
+ */
+
+import type { ContentReference } from "~/types/license-registry";
+import type { ContenthashHistoryEntry } from "~/lib/ens-history";
+import { useContenthashHistory } from "~/hooks/use-contenthash-history";
+import { formatContentUri, getContentUrl, isProtocolSupported } from "~/lib/storage";
+import { useCgPluginLib } from "~/context/plugin_lib";
+import { Button } from "~/components/Button";
+
+interface RegistryTimelineProps {
+  ensName?: string;
+  /** Content reference currently shown in the viewer */
+  selectedRef?: ContentReference;
+  /** Called when a historical registry should be shown */
+  onSelect?: (ref: ContentReference | undefined) => void;
+}
+
+/**
+ * Format a unix timestamp for display.
+ */
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Truncate a hash for display.
+ */
+function truncateHash(hash: string, length = 8): string {
+  if (hash.length <= length * 2) return hash;
+  return `${hash.slice(0, length)}...${hash.slice(-length)}`;
+}
+
+/**
+ * Check whether two content references point to the same content.
+ */
+function isSameRef(a: ContentReference | null | undefined, b: ContentReference | null | undefined): boolean {
+  return !!a && !!b && a.protocol === b.protocol && a.hash === b.hash;
+}
+
+/**
+ * A single contenthash change.
+ */
+function TimelineItem({
+  entry,
+  isCurrent,
+  isSelected,
+  onSelect,
+}: {
+  entry: ContenthashHistoryEntry;
+  isCurrent: boolean;
+  isSelected: boolean;
+  onSelect?: (ref: ContentReference | undefined) => void;
+}) {
+  const cgPluginLib = useCgPluginLib();
+  const ref = entry.contentRef;
+  const fetchable = !!ref && isProtocolSupported(ref.protocol);
+
+  const openUrl = async (url: string) => {
+    if (cgPluginLib) {
+      await cgPluginLib.navigate(url);
+    } else {
+      // Fallback for development outside iframe
+      window.open(url, "_blank");
+    }
+  };
+
+  return (
+    <li className="relative pl-6">
+      <span
+        className={`absolute -left-1.5 top-4 w-3 h-3 rounded-full border-2 ${
+          isCurrent ? "bg-accent border-accent" : "bg-bg-surface border-border"
+        }`}
+      />
+      <div
+        className={`rounded-lg p-3 space-y-1 ${
+          isSelected ? "bg-accent/10 border border-accent/20" : "bg-bg-elevated"
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-text-primary font-medium">{formatTimestamp(entry.timestamp)}</span>
+          {isCurrent && (
+            <span className="px-2 py-0.5 bg-accent/10 text-accent text-xs font-medium rounded">
+              Current
+            </span>
+          )}
+        </div>
+
+        <p className="text-xs font-mono text-text-secondary break-all">
+          {ref
+            ? formatContentUri(ref)
+            : entry.contenthash === "0x"
+              ? "Contenthash cleared"
+              : `Unknown contenthash ${truncateHash(entry.contenthash)}`}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-text-muted">
+          <span>Block {entry.blockNumber.toString()}</span>
+          <button
+            onClick={() => openUrl(`https://etherscan.io/tx/${entry.transactionHash}`)}
+            className="font-mono hover:text-accent transition-colors"
+            title={entry.transactionHash}
+          >
+            Tx {truncateHash(entry.transactionHash, 6)}
+          </button>
+          {fetchable && (
+            <>
+              <button
+                onClick={() => onSelect?.(isCurrent ? undefined : ref)}
+                className="text-accent hover:underline"
+              >
+                View registry
+              </button>
+              <button
+                onClick={() => openUrl(`${getContentUrl(ref)}/registry.json`)}
+                className="text-accent hover:underline"
+              >
+                registry.json
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Timeline of the registry's ENS contenthash, newest first.
+ */
+export function RegistryTimeline({ ensName, selectedRef, onSelect }: RegistryTimelineProps) {
+  const { state, refresh } = useContenthashHistory(ensName);
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">History</h3>
+          <p className="text-xs text-text-muted">ENS contenthash changes, read on-chain</p>
+        </div>
+        <Button variant="secondary" onClick={refresh} disabled={state.status === "loading"}>
+          Refresh
+        </Button>
+      </div>
+
+      {state.status === "loading" && (
+        <div className="space-y-3 animate-pulse">
+          <div className="h-16 bg-bg-elevated rounded" />
+          <div className="h-16 bg-bg-elevated rounded" />
+        </div>
+      )}
+
+      {state.status === "error" && (
+        <p className="text-sm text-red-500">{state.error}</p>
+      )}
+
+      {state.status === "loaded" && state.entries.length === 0 && (
+        <p className="text-sm text-text-muted">
+          No contenthash changes found. Names using wildcard or offchain resolvers have no on-chain history.
+        </p>
+      )}
+
+      {state.status === "loaded" && state.entries.length > 0 && (
+        <ol className="space-y-3 border-l border-border ml-1.5 pl-0">
+          {[...state.entries].reverse().map((entry, index) => (
+            <TimelineItem
+              key={`${entry.transactionHash}-${entry.logIndex}`}
+              entry={entry}
+              isCurrent={index === 0}
+              isSelected={index === 0 ? !selectedRef : isSameRef(entry.contentRef, selectedRef)}
+              onSelect={onSelect}
+            />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default RegistryTimeline;
@@ -2,12 +2,29 @@
  * RegistryViewer Component
  * 
  * Main component for viewing the license registry.
- * Displays all license entries in a flat list.
+ * Displays all license entries in a flat list, marked with whether they
+ * are in force now, and looks up the license that applied on any date.
  */
 
-import type { ContentReference } from "~/types/license-registry";
+import { useMemo, useState } from "react";
+import type {
+  ContentReference,
+  LicenseEntry,
+  RegistryManifest,
+  RegistryProvenance,
+  SchemaIssue,
+} from "~/types/license-registry";
 import { useRegistry } from "~/hooks/use-registry";
+import type { LicenseVerificationSummary } from "~/hooks/use-license-verification";
+import { useLicenseVerification } from "~/hooks/use-license-verification";
+import { formatContentUri } from "~/lib/storage";
+import { formatSchemaIssue } from "~/lib/registry-schema";
+import { classifyLicenseChange } from "~/lib/license-semantics";
+import type { EntryStatus } from "~/lib/effective-date";
+import { getEntryStatuses, getLicenseAt } from "~/lib/effective-date";
 import { LicenseEntryCard } from "./LicenseEntryCard";
+import { LicenseDiffDialog } from "./LicenseDiff";
+import type { LicenseTextSource } from "./LicenseDiff";
 import { Button } from "~/components/Button";
 
 interface RegistryViewerProps {
@@ -36,7 +53,15 @@ function LoadingSkeleton() {
 /**
  * Error state display.
  */
-function ErrorState({ message, onRetry }: { message: string; onRetry?: () => void }) {
+function ErrorState({
+  message,
+  issues,
+  onRetry,
+}: {
+  message: string;
+  issues?: SchemaIssue[];
+  onRetry?: () => void;
+}) {
   return (
     <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-6 text-center">
       <svg
@@ -55,7 +80,18 @@ function ErrorState({ message, onRetry }: { message: string; onRetry?: () => voi
       <h3 className="text-lg font-semibold text-text-primary mb-2">
         Failed to Load Registry
       </h3>
-      <p className="text-text-secondary mb-4">{message}</p>
+      {issues ? (
+        <div className="mb-4 text-left">
+          <p className="text-text-secondary mb-2">registry.json failed validation:</p>
+          <ul className="space-y-1 text-xs font-mono text-red-500 break-all">
+            {issues.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>{formatSchemaIssue(issue)}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-text-secondary mb-4">{message}</p>
+      )}
       {onRetry && (
         <Button onClick={onRetry} variant="secondary">
           Try Again
@@ -97,15 +133,169 @@ function NotFoundState({ ensName }: { ensName: string }) {
   );
 }
 
+/**
+ * Shows where the registry was loaded from and what was verified.
+ */
+function ProvenancePanel({ provenance }: { provenance: RegistryProvenance }) {
+  const sourceLabel = provenance.mode === "ens"
+    ? `Resolved on-chain from ${provenance.ensName}`
+    : provenance.mode === "direct"
+      ? "Loaded from VITE_REGISTRY_CID (development)"
+      : "Loaded from a provided content reference";
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${
+            provenance.mode === "ens"
+              ? "bg-accent/10 text-accent"
+              : "bg-yellow-500/10 text-yellow-600"
+          }`}
+        >
+          {provenance.mode === "ens" ? "ENS (on-chain)" : "Not from ENS"}
+        </span>
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${
+            provenance.contentVerified
+              ? "bg-green-500/10 text-green-600"
+              : "bg-yellow-500/10 text-yellow-600"
+          }`}
+        >
+          {provenance.contentVerified
+            ? `Content verified${provenance.verifiedBlocks ? ` (${provenance.verifiedBlocks} blocks)` : ""}`
+            : "Content not verified"}
+        </span>
+        {provenance.entryChainVerified !== undefined && (
+          <span
+            className={`px-2 py-0.5 rounded text-xs font-medium ${
+              provenance.entryChainVerified
+                ? "bg-green-500/10 text-green-600"
+                : "bg-red-500/10 text-red-500"
+            }`}
+          >
+            {provenance.entryChainVerified ? "Entry chain intact" : "Entry chain broken"}
+          </span>
+        )}
+        <span className="text-text-secondary">{sourceLabel}</span>
+      </div>
+      <p className="text-xs font-mono text-text-muted break-all">
+        {formatContentUri(provenance.contentRef)}
+      </p>
+      {provenance.entryChainVerified === undefined && (
+        <p className="text-xs text-text-muted">
+          Published as <code className="font-mono">{provenance.schema}</code> without hash-linked entries and upgraded in memory for display. The next update will link all entries.
+        </p>
+      )}
+      {!provenance.contentVerified && (
+        <p className="text-xs text-text-muted">
+          Content on this protocol is served by a gateway and cannot be checked against its hash in the browser.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Look up which entry was in force on a chosen date.
+ */
+function LicenseOnDate({
+  manifest,
+  statuses,
+}: {
+  manifest: RegistryManifest;
+  /** Status of each entry now */
+  statuses: Map<number, EntryStatus>;
+}) {
+  const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+
+  // Resolve at the end of the chosen day, so entries effective that day count
+  const entry = date ? getLicenseAt(manifest, `${date}T23:59:59.999Z`) : null;
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-3 flex flex-wrap items-center gap-3 text-sm">
+      <label className="text-text-secondary" htmlFor="license-on-date">License on</label>
+      <input
+        id="license-on-date"
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className="px-2 py-1 bg-bg-surface border border-border rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+      />
+      {date && (
+        entry ? (
+          <span className="text-text-primary">
+            v{entry.version} <span className="font-mono text-text-muted">{entry.license.spdx}</span>
+            <span className="text-text-muted"> (effective {entry.effective_date}{statuses.get(entry.version) === "current" ? ", in force now" : ""})</span>
+          </span>
+        ) : (
+          <span className="text-text-muted">No entry had taken effect yet</span>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Aggregate integrity of all license texts.
+ */
+function IntegrityStatus({ summary }: { summary: LicenseVerificationSummary }) {
+  const checked = summary.total - summary.pending;
+
+  let label: string;
+  let className: string;
+  if (summary.mismatch > 0) {
+    label = `✗ ${summary.mismatch} license ${summary.mismatch === 1 ? "text does" : "texts do"} not match ${summary.mismatch === 1 ? "its hash" : "their hashes"}`;
+    className = "bg-red-500/10 text-red-500";
+  } else if (summary.noncanonical > 0) {
+    label = `✗ ${summary.noncanonical} license ${summary.noncanonical === 1 ? "text is" : "texts are"} not stored canonically`;
+    className = "bg-red-500/10 text-red-500";
+  } else if (summary.pending > 0) {
+    label = `Verifying license texts (${checked}/${summary.total})`;
+    className = "bg-bg-elevated text-text-muted";
+  } else if (summary.unavailable > 0) {
+    label = `${summary.verified}/${summary.total} license texts verified, ${summary.unavailable} unavailable`;
+    className = "bg-yellow-500/10 text-yellow-600";
+  } else {
+    label = `✓ All ${summary.total} license ${summary.total === 1 ? "text" : "texts"} verified`;
+    className = "bg-green-500/10 text-green-600";
+  }
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${className}`}>
+      {label}
+    </span>
+  );
+}
+
 /**
  * Main registry viewer component.
  * Shows all license entries in a flat list (newest first).
  */
 export function RegistryViewer({ ensName, contentRef }: RegistryViewerProps) {
-  const { state, entryChain, refresh, contentRef: resolvedContentRef } = useRegistry(
+  const { state, entryChain, refresh, contentRef: resolvedContentRef, directory } = useRegistry(
     ensName,
     contentRef
   );
+  const { results: textVerifications, summary: textSummary } = useLicenseVerification(
+    state.status === "loaded" ? directory : null,
+    entryChain
+  );
+  const [comparison, setComparison] = useState<{
+    from: LicenseTextSource;
+    to: LicenseTextSource;
+  } | null>(null);
+
+  // Whether each entry is in force now
+  const entryStatuses = useMemo(() => getEntryStatuses({ entries: entryChain }), [entryChain]);
+  const inForce = entryChain.find(entry => entryStatuses.get(entry.version) === "current");
+  const scheduled = entryChain.filter(entry => entryStatuses.get(entry.version) === "scheduled");
+
+  // How each version changes the license of the one before it
+  const licenseChanges = useMemo(() => new Map(entryChain.map(entry => [
+    entry.version,
+    classifyLicenseChange(entryChain.find(e => e.version === entry.version - 1) ?? null, entry),
+  ])), [entryChain]);
 
   // Loading state
   if (state.status === "loading") {
@@ -114,7 +304,7 @@ export function RegistryViewer({ ensName, contentRef }: RegistryViewerProps) {
 
   // Error state
   if (state.status === "error") {
-    return <ErrorState message={state.error} onRetry={refresh} />;
+    return <ErrorState message={state.error} issues={state.issues} onRetry={refresh} />;
   }
 
   // Not found state
@@ -123,7 +313,21 @@ export function RegistryViewer({ ensName, contentRef }: RegistryViewerProps) {
   }
 
   // Loaded state
-  const { manifest, currentEntry } = state;
+  const { manifest, provenance } = state;
+
+  const textSource = (entry: LicenseEntry): LicenseTextSource => ({
+    entry,
+    contentRef: provenance.contentRef,
+    directory,
+    label: `v${entry.version} (${entry.license.spdx})`,
+  });
+
+  const compareWithPrevious = (entry: LicenseEntry) => {
+    const previous = entryChain.find(e => e.version === entry.version - 1);
+    if (previous) {
+      setComparison({ from: textSource(previous), to: textSource(entry) });
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -133,13 +337,29 @@ export function RegistryViewer({ ensName, contentRef }: RegistryViewerProps) {
         {manifest.description && (
           <p className="text-text-secondary mt-1">{manifest.description}</p>
         )}
-        <div className="flex items-center gap-4 mt-2 text-sm text-text-muted">
+        <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-text-muted">
           <span>{entryChain.length} {entryChain.length === 1 ? 'version' : 'versions'}</span>
           <span>•</span>
-          <span>Current: v{manifest.current_version}</span>
+          <span>Latest: v{manifest.current_version}</span>
+          <span>•</span>
+          <span>{inForce ? `In force: v${inForce.version}` : "No entry in force yet"}</span>
+          {scheduled.length > 0 && (
+            <>
+              <span>•</span>
+              <span className="text-yellow-600">
+                Scheduled: v{scheduled.map(entry => `${entry.version} (${entry.effective_date})`).join(", v")}
+              </span>
+            </>
+          )}
+          <IntegrityStatus summary={textSummary} />
         </div>
       </div>
 
+      {/* Provenance */}
+      <ProvenancePanel provenance={provenance} />
+
+      <LicenseOnDate manifest={manifest} statuses={entryStatuses} />
+
       {/* All Entries - flat list, newest first */}
       <div className="space-y-4">
         {entryChain.map((entry) => (
@@ -147,11 +367,20 @@ export function RegistryViewer({ ensName, contentRef }: RegistryViewerProps) {
             key={entry.version}
             entry={entry}
             contentRef={resolvedContentRef}
-            isHead={entry.version === currentEntry.version}
+            status={entryStatuses.get(entry.version)}
+            textVerifications={textVerifications}
+            change={licenseChanges.get(entry.version)}
+            onCompareWithPrevious={
+              entryChain.some(e => e.version === entry.version - 1)
+                ? () => compareWithPrevious(entry)
+                : undefined
+            }
           />
         ))}
       </div>
 
+      <LicenseDiffDialog comparison={comparison} onClose={() => setComparison(null)} />
+
       {/* Actions */}
       <div className="flex gap-3">
         <Button onClick={refresh} variant="secondary">
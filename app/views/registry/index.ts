@@ -1,3 +1,6 @@
 export { RegistryViewer, default } from "./RegistryViewer";
 export { LicenseEntryCard } from "./LicenseEntryCard";
-
+export { LicenseChangeSummary } from "./LicenseChangeSummary";
+export { RegistryTimeline } from "./RegistryTimeline";
+export { LicenseDiff, LicenseDiffDialog } from "./LicenseDiff";
+export type { LicenseTextSource } from "./LicenseDiff";
@@ -0,0 +1,224 @@
+/**
+ * HistoryAudit Component
+ *
+ * Audits every historical registry version: each consecutive pair of CIDs
+ * is compared with the same checks as a single proposed update.
+ */
+
+import { useState, useCallback } from "react";
+import { Button } from "~/components/Button";
+import type { ContentReference } from "~/types/license-registry";
+import type { HistoryAuditResult, RegistryTransitionAudit } from "~/lib/verifier";
+import { auditRegistryHistory } from "~/lib/verifier";
+import { fetchContenthashHistory } from "~/lib/ens-history";
+import { getConfiguredEnsName } from "~/lib/ens";
+import { formatContentUri, parseContentInput } from "~/lib/storage";
+
+/**
+ * Parse a pasted list of content references (one per line, oldest first).
+ */
+function parseHistoryList(text: string): { refs: ContentReference[]; invalid: string[] } {
+  const refs: ContentReference[] = [];
+  const invalid: string[] = [];
+
+  for (const line of text.split("\n").map(l => l.trim()).filter(Boolean)) {
+    const ref = parseContentInput(line);
+    if (ref && ref.protocol !== "ipns") {
+      refs.push(ref);
+    } else {
+      invalid.push(line);
+    }
+  }
+  return { refs, invalid };
+}
+
+/**
+ * Result of a single transition.
+ */
+function TransitionRow({ transition }: { transition: RegistryTransitionAudit }) {
+  const [expanded, setExpanded] = useState(false);
+  const valid = transition.result?.valid ?? false;
+  const failedChecks = transition.result?.checks.filter(c => !c.passed) ?? [];
+
+  return (
+    <div
+      className={`p-3 rounded border ${
+        valid ? "bg-bg-elevated border-border" : "bg-red-500/10 border-red-500/20"
+      }`}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-start gap-2 text-left"
+      >
+        <span className={`mt-0.5 ${valid ? "text-green-500" : "text-red-500"}`}>
+          {valid ? "✓" : "✗"}
+        </span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-text-primary">
+            Update #{transition.index}: {transition.result?.summary ?? "Could not compare"}
+          </p>
+          <p className="text-xs font-mono text-text-muted break-all">
+            {formatContentUri(transition.from)} → {formatContentUri(transition.to)}
+          </p>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-6 space-y-1">
+          {transition.error && (
+            <p className="text-xs text-red-500">{transition.error}</p>
+          )}
+          {transition.result?.checks.map((check) => (
+            <p key={check.id} className="text-xs text-text-secondary">
+              <span className={check.passed ? check.warning ? "text-yellow-600" : "text-green-500" : "text-red-500"}>
+                {check.passed ? check.warning ? "⚠" : "✓" : "✗"}
+              </span>{" "}
+              {check.description}
+              {check.warning && <span className="text-yellow-600"> - {check.warning}</span>}
+              {check.error && <span className="text-red-500"> - {check.error}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!expanded && failedChecks.length > 0 && (
+        <p className="mt-1 ml-6 text-xs text-red-500">
+          {failedChecks.map(c => c.error ?? c.description).join("; ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function HistoryAudit() {
+  const ensName = getConfiguredEnsName();
+
+  const [historyText, setHistoryText] = useState("");
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [auditing, setAuditing] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<HistoryAuditResult | null>(null);
+
+  const handleLoadFromEns = useCallback(async () => {
+    if (!ensName) return;
+
+    setLoadingHistory(true);
+    setError(null);
+
+    try {
+      const history = await fetchContenthashHistory(ensName);
+      const refs = history
+        .map(entry => entry.contentRef)
+        .filter((ref): ref is ContentReference => ref !== null);
+      setHistoryText(refs.map(formatContentUri).join("\n"));
+      if (refs.length === 0) {
+        setError(`No contenthash history found for ${ensName}`);
+      }
+    } catch (err) {
+      console.error("Failed to load contenthash history:", err);
+      setError(err instanceof Error ? err.message : "Failed to load contenthash history");
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [ensName]);
+
+  const handleAudit = useCallback(async () => {
+    const { refs, invalid } = parseHistoryList(historyText);
+    if (invalid.length > 0) {
+      setError(`Invalid content references: ${invalid.join(", ")}`);
+      return;
+    }
+    if (refs.length === 0) {
+      setError("Enter at least one CID");
+      return;
+    }
+
+    setAuditing(true);
+    setError(null);
+    setResult(null);
+    setProgress({ completed: 0, total: refs.length - 1 });
+
+    try {
+      const auditResult = await auditRegistryHistory(refs, (completed, total) =>
+        setProgress({ completed, total })
+      );
+      setResult(auditResult);
+    } catch (err) {
+      console.error("History audit failed:", err);
+      setError(err instanceof Error ? err.message : "History audit failed");
+    } finally {
+      setAuditing(false);
+      setProgress(null);
+    }
+  }, [historyText]);
+
+  return (
+    <div className="bg-bg-surface border border-border rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary">Audit Full History</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Check that every past update was append-only. List every CID the registry pointed to,
+          oldest first, or load them from the ENS history.
+        </p>
+      </div>
+
+      <textarea
+        value={historyText}
+        onChange={(e) => setHistoryText(e.target.value)}
+        placeholder={"bafybei... (v1)\nbafybei... (v2)\n..."}
+        rows={5}
+        className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted font-mono text-xs focus:outline-none focus:ring-2 focus:ring-accent resize-y"
+        disabled={auditing}
+      />
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {ensName && (
+          <Button
+            variant="secondary"
+            onClick={handleLoadFromEns}
+            disabled={loadingHistory || auditing}
+          >
+            {loadingHistory ? "Loading history..." : `Load from ${ensName}`}
+          </Button>
+        )}
+        <Button onClick={handleAudit} disabled={auditing || !historyText.trim()}>
+          {auditing && progress
+            ? `Auditing ${progress.completed}/${progress.total}...`
+            : "Run Audit"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-3">
+          <div
+            className={`p-3 rounded-lg border ${
+              result.valid
+                ? "bg-green-500/10 border-green-500/20"
+                : "bg-red-500/10 border-red-500/20"
+            }`}
+          >
+            <p className={`font-semibold ${result.valid ? "text-green-500" : "text-red-500"}`}>
+              {result.summary}
+            </p>
+            <p className="text-xs text-text-muted mt-1">
+              {result.entryCount} entries in the latest registry • {result.checks.length} checks run
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {result.transitions.map((transition) => (
+              <TransitionRow key={transition.index} transition={transition} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HistoryAudit;
@@ -6,243 +6,199 @@
  * 1. History is preserved (no entries removed or modified)
  * 2. New entries are correctly added
  * 3. License text hashes match
+ * 
+ * Proposed content is never taken on trust: every IPFS block is checked
+ * against its CID, whether it comes from a gateway or an uploaded CAR.
+ * Packages that are not published yet (ZIP, CAR or folder) can be checked
+ * offline; their files are hashed into the CID they will have once uploaded.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Button } from "~/components/Button";
-import type { RegistryManifest, LicenseEntry, ContentReference } from "~/types/license-registry";
-import { getIpfsGateway, isValidCid } from "~/lib/storage";
+import type { ContentReference, LicenseEntry, NormalizedRegistry } from "~/types/license-registry";
+import type { DirectoryReader } from "~/lib/storage";
+import {
+  formatContentUri,
+  LocalDirectory,
+  openDirectory,
+  openPackageArchive,
+  parseContentInput,
+  VerifiedDirectory,
+} from "~/lib/storage";
 import { useRegistry } from "~/hooks/use-registry";
-import { verifyHash } from "~/lib/hash";
-
-interface ComparisonResult {
-  valid: boolean;
-  summary: string;
-  checks: ComparisonCheck[];
-  newEntries: LicenseEntry[];
-  modifiedEntries: { old: LicenseEntry; new: LicenseEntry; differences: string[] }[];
-  removedEntries: LicenseEntry[];
-}
-
-interface ComparisonCheck {
-  id: string;
-  description: string;
-  passed: boolean;
-  error?: string;
-  details?: string;
-}
+import { HistoryAudit } from "./HistoryAudit";
+import { LicenseDiffDialog } from "~/views/registry/LicenseDiff";
+import { LicenseChangeSummary } from "~/views/registry/LicenseChangeSummary";
+import type { LicenseTextSource } from "~/views/registry/LicenseDiff";
+import type { ComparisonResult } from "~/lib/verifier";
+import { buildInvalidRegistryResult, compareRegistries } from "~/lib/verifier";
+import {
+  formatSchemaIssue,
+  LATEST_REGISTRY_SCHEMA,
+  normalizeRegistry,
+  RegistrySchemaError,
+} from "~/lib/registry-schema";
 
 /**
- * Fetch a registry manifest from an IPFS CID.
+ * A registry package loaded from the user's machine.
  */
-async function fetchRegistryFromCid(cid: string): Promise<{
-  manifest: RegistryManifest;
-  contentRef: ContentReference;
-}> {
-  const ipfs = getIpfsGateway();
-  const manifest = await ipfs.fetchFromDir<RegistryManifest>(cid, "/registry.json");
-  return {
-    manifest,
-    contentRef: { protocol: "ipfs", hash: cid },
-  };
+interface LocalPackage {
+  /** CAR blocks verified against their root, or ZIP/folder files */
+  source: VerifiedDirectory | LocalDirectory;
+  /** File or folder name */
+  name: string;
 }
 
 /**
- * Fetch license text from IPFS.
+ * Open a package file: a ZIP or a CAR.
  */
-async function fetchLicenseText(cid: string, path: string): Promise<string> {
-  const ipfs = getIpfsGateway();
-  return ipfs.fetchTextFromDir(cid, path);
+async function openPackageFile(file: File): Promise<LocalPackage> {
+  const source = await openPackageArchive(new Uint8Array(await file.arrayBuffer()), file.name);
+  return { source, name: file.name };
 }
 
 /**
- * Compare two registries and return a detailed comparison result.
+ * Collect the files below a dropped file system entry, keyed by path.
  */
-async function compareRegistries(
-  currentManifest: RegistryManifest,
-  currentCid: string | null,
-  proposedManifest: RegistryManifest,
-  proposedCid: string
-): Promise<ComparisonResult> {
-  const checks: ComparisonCheck[] = [];
-  const newEntries: LicenseEntry[] = [];
-  const modifiedEntries: { old: LicenseEntry; new: LicenseEntry; differences: string[] }[] = [];
-  const removedEntries: LicenseEntry[] = [];
-
-  // Build version maps for quick lookup
-  const currentEntriesByVersion = new Map<number, LicenseEntry>();
-  for (const entry of currentManifest.entries) {
-    currentEntriesByVersion.set(entry.version, entry);
+async function collectEntryFiles(
+  entry: FileSystemEntry,
+  prefix: string,
+  files: Map<string, Blob>
+): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    files.set(`${prefix}${entry.name}`, file);
+    return;
   }
 
-  const proposedEntriesByVersion = new Map<number, LicenseEntry>();
-  for (const entry of proposedManifest.entries) {
-    proposedEntriesByVersion.set(entry.version, entry);
-  }
-
-  // Check 1: Schema compatibility
-  checks.push({
-    id: "schema",
-    description: "Registry schema is valid",
-    passed: proposedManifest.schema === "commonground-license-registry/v1",
-    error: proposedManifest.schema !== "commonground-license-registry/v1"
-      ? `Invalid schema: ${proposedManifest.schema}`
-      : undefined,
-  });
-
-  // Check 2: Version progression
-  const currentMaxVersion = currentManifest.current_version;
-  const proposedMaxVersion = proposedManifest.current_version;
-  const versionProgresses = proposedMaxVersion >= currentMaxVersion;
-  checks.push({
-    id: "version_progression",
-    description: "Version number increases or stays the same",
-    passed: versionProgresses,
-    error: !versionProgresses
-      ? `Proposed version (${proposedMaxVersion}) is less than current (${currentMaxVersion})`
-      : undefined,
-    details: `Current: v${currentMaxVersion} → Proposed: v${proposedMaxVersion}`,
-  });
-
-  // Check 3: All existing entries preserved
-  for (const [version, currentEntry] of currentEntriesByVersion) {
-    const proposedEntry = proposedEntriesByVersion.get(version);
-    
-    if (!proposedEntry) {
-      removedEntries.push(currentEntry);
-    } else {
-      // Compare entries
-      const differences: string[] = [];
-      
-      if (currentEntry.effective_date !== proposedEntry.effective_date) {
-        differences.push(`effective_date: ${currentEntry.effective_date} → ${proposedEntry.effective_date}`);
-      }
-      if (currentEntry.license.spdx !== proposedEntry.license.spdx) {
-        differences.push(`license.spdx: ${currentEntry.license.spdx} → ${proposedEntry.license.spdx}`);
-      }
-      if (currentEntry.license.text_sha256 !== proposedEntry.license.text_sha256) {
-        differences.push(`license.text_sha256: hash changed`);
-      }
-      
-      if (differences.length > 0) {
-        modifiedEntries.push({ old: currentEntry, new: proposedEntry, differences });
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until an empty one
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      );
+      for (const child of batch) {
+        await collectEntryFiles(child, `${prefix}${entry.name}/`, files);
       }
-    }
-  }
-
-  checks.push({
-    id: "entries_preserved",
-    description: "All existing entries are preserved",
-    passed: removedEntries.length === 0,
-    error: removedEntries.length > 0
-      ? `${removedEntries.length} entries were removed`
-      : undefined,
-    details: removedEntries.length > 0
-      ? `Removed: v${removedEntries.map(e => e.version).join(", v")}`
-      : undefined,
-  });
-
-  checks.push({
-    id: "entries_unmodified",
-    description: "Existing entries are unmodified",
-    passed: modifiedEntries.length === 0,
-    error: modifiedEntries.length > 0
-      ? `${modifiedEntries.length} entries were modified`
-      : undefined,
-    details: modifiedEntries.length > 0
-      ? `Modified: v${modifiedEntries.map(e => e.old.version).join(", v")}`
-      : undefined,
-  });
-
-  // Check 4: Find new entries
-  for (const [version, proposedEntry] of proposedEntriesByVersion) {
-    if (!currentEntriesByVersion.has(version)) {
-      newEntries.push(proposedEntry);
-    }
-  }
-
-  checks.push({
-    id: "new_entries",
-    description: "New entries are properly added",
-    passed: true, // Just informational
-    details: newEntries.length > 0
-      ? `${newEntries.length} new entries: v${newEntries.map(e => e.version).join(", v")}`
-      : "No new entries",
-  });
-
-  // Check 5: Verify license text hashes for new entries
-  for (const entry of newEntries) {
-    try {
-      const licenseText = await fetchLicenseText(proposedCid, entry.license.text_path);
-      const hashValid = await verifyHash(licenseText, entry.license.text_sha256);
-      
-      checks.push({
-        id: `hash_v${entry.version}`,
-        description: `License text hash valid for v${entry.version}`,
-        passed: hashValid,
-        error: !hashValid ? "Hash mismatch" : undefined,
-      });
-    } catch (error) {
-      checks.push({
-        id: `hash_v${entry.version}`,
-        description: `License text hash valid for v${entry.version}`,
-        passed: false,
-        error: `Failed to fetch license: ${error}`,
-      });
-    }
-  }
-
-  // Check 6: Registry name consistency
-  const nameConsistent = currentManifest.name === proposedManifest.name;
-  checks.push({
-    id: "name_consistent",
-    description: "Registry name is consistent",
-    passed: nameConsistent,
-    error: !nameConsistent
-      ? `Name changed: "${currentManifest.name}" → "${proposedManifest.name}"`
-      : undefined,
-  });
-
-  // Calculate overall validity
-  const criticalChecks = checks.filter(c => 
-    c.id === "schema" || 
-    c.id === "entries_preserved" || 
-    c.id === "entries_unmodified" ||
-    c.id.startsWith("hash_")
-  );
-  const valid = criticalChecks.every(c => c.passed);
-
-  // Generate summary
-  let summary: string;
-  if (valid && newEntries.length > 0) {
-    summary = `✓ Valid update with ${newEntries.length} new ${newEntries.length === 1 ? "entry" : "entries"}`;
-  } else if (valid) {
-    summary = "✓ Valid (no changes)";
-  } else if (removedEntries.length > 0) {
-    summary = `✗ Invalid: ${removedEntries.length} entries removed`;
-  } else if (modifiedEntries.length > 0) {
-    summary = `✗ Invalid: ${modifiedEntries.length} entries modified`;
-  } else {
-    summary = "✗ Invalid: verification failed";
+    } while (batch.length > 0);
   }
+}
 
+/**
+ * Fetch a registry manifest from the proposed directory.
+ * IPFS content is read through trustless gateway responses unless a local
+ * package with the same CID is given.
+ */
+async function fetchProposedRegistry(
+  ref: ContentReference,
+  localSource?: VerifiedDirectory | LocalDirectory | null
+): Promise<{
+  registry: NormalizedRegistry;
+  contentRef: ContentReference;
+  source: DirectoryReader;
+}> {
+  const source = localSource && ref.protocol === "ipfs" && localSource.cid === ref.hash
+    ? localSource
+    : openDirectory(ref);
+  const registry = await normalizeRegistry(await source.readJson<unknown>("/registry.json"));
   return {
-    valid,
-    summary,
-    checks,
-    newEntries,
-    modifiedEntries,
-    removedEntries,
+    registry,
+    contentRef: source.ref,
+    source,
   };
 }
 
 export function Verifier() {
-  const { state: currentState, contentRef: currentContentRef } = useRegistry();
+  const {
+    state: currentState,
+    contentRef: currentContentRef,
+    directory: currentDirectory,
+  } = useRegistry();
+  
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   
   const [proposedCid, setProposedCid] = useState("");
+  const [localPackage, setLocalPackage] = useState<LocalPackage | null>(null);
+  const [loadingPackage, setLoadingPackage] = useState(false);
+  const [dragging, setDragging] = useState(false);
   const [comparing, setComparing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ComparisonResult | null>(null);
+  // Proposed registry behind the result, for license text diffs
+  const [proposed, setProposed] = useState<{
+    registry: NormalizedRegistry;
+    source: DirectoryReader;
+  } | null>(null);
+  const [comparison, setComparison] = useState<{
+    from: LicenseTextSource;
+    to: LicenseTextSource;
+  } | null>(null);
+
+  // Folder selection is a non-standard attribute, so it is set directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  // Load a local package as the proposed content (no gateway needed)
+  const loadPackage = useCallback(async (open: () => Promise<LocalPackage>) => {
+    setError(null);
+    setResult(null);
+    setProposed(null);
+    setLoadingPackage(true);
+
+    try {
+      const loaded = await open();
+      setLocalPackage(loaded);
+      setProposedCid(loaded.source.cid);
+    } catch (err) {
+      console.error("Failed to read package:", err);
+      setLocalPackage(null);
+      setError(err instanceof Error ? `Invalid package: ${err.message}` : "Invalid package");
+    } finally {
+      setLoadingPackage(false);
+    }
+  }, []);
+
+  const handlePackageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    await loadPackage(() => openPackageFile(file));
+  }, [loadPackage]);
+
+  const handleFolderUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    const files = new Map<string, Blob>(
+      selected.map(file => [file.webkitRelativePath || file.name, file])
+    );
+    const name = selected[0].webkitRelativePath.split("/")[0] || "folder";
+    await loadPackage(() => LocalDirectory.fromFiles(files, name).then(source => ({ source, name })));
+  }, [loadPackage]);
+
+  const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+
+    const entry = e.dataTransfer.items[0]?.webkitGetAsEntry();
+    const file = e.dataTransfer.files[0];
+    if (entry?.isDirectory) {
+      await loadPackage(async () => {
+        const files = new Map<string, Blob>();
+        await collectEntryFiles(entry, "", files);
+        return { source: await LocalDirectory.fromFiles(files, entry.name), name: entry.name };
+      });
+    } else if (file) {
+      await loadPackage(() => openPackageFile(file));
+    }
+  }, [loadPackage]);
 
   const handleCompare = useCallback(async () => {
     if (!proposedCid.trim()) {
@@ -250,8 +206,14 @@ export function Verifier() {
       return;
     }
 
-    if (!isValidCid(proposedCid.trim())) {
-      setError("Invalid CID format");
+    const proposedRef = parseContentInput(proposedCid);
+    if (!proposedRef) {
+      setError("Invalid CID, Swarm reference, or Arweave transaction ID");
+      return;
+    }
+
+    if (proposedRef.protocol === "ipns") {
+      setError("IPNS names are mutable - verify the IPFS CID they point to instead");
       return;
     }
 
@@ -263,36 +225,98 @@ export function Verifier() {
     setComparing(true);
     setError(null);
     setResult(null);
+    setProposed(null);
 
     try {
-      const { manifest: proposedManifest } = await fetchRegistryFromCid(proposedCid.trim());
+      const { registry: proposedRegistry, source } = await fetchProposedRegistry(
+        proposedRef,
+        localPackage?.source
+      );
       
-      const currentCid = currentContentRef?.protocol === "ipfs" 
-        ? currentContentRef.hash 
-        : null;
+      const currentRegistry: NormalizedRegistry = {
+        manifest: currentState.manifest,
+        sourceSchema: currentState.provenance.schema,
+        upgraded: currentState.provenance.schema !== LATEST_REGISTRY_SCHEMA,
+      };
       
       const comparisonResult = await compareRegistries(
-        currentState.manifest,
-        currentCid,
-        proposedManifest,
-        proposedCid.trim()
+        currentRegistry,
+        proposedRegistry,
+        source
       );
 
       setResult(comparisonResult);
+      setProposed({ registry: proposedRegistry, source });
     } catch (err) {
+      if (err instanceof RegistrySchemaError) {
+        // Validation issues are reported as a failed check, not a load error
+        setResult(buildInvalidRegistryResult(err));
+        return;
+      }
       console.error("Comparison failed:", err);
       setError(err instanceof Error ? err.message : "Failed to compare registries");
     } finally {
       setComparing(false);
     }
-  }, [proposedCid, currentState, currentContentRef]);
+  }, [proposedCid, localPackage, currentState]);
 
   const handleReset = useCallback(() => {
     setProposedCid("");
+    setLocalPackage(null);
     setResult(null);
+    setProposed(null);
     setError(null);
   }, []);
 
+  const currentTextSource = (entry: LicenseEntry): LicenseTextSource | null =>
+    currentContentRef
+      ? {
+          entry,
+          contentRef: currentContentRef,
+          directory: currentDirectory,
+          label: `Current v${entry.version}`,
+        }
+      : null;
+
+  const proposedTextSource = (entry: LicenseEntry): LicenseTextSource | null =>
+    proposed
+      ? {
+          entry,
+          contentRef: proposed.source.ref,
+          directory: proposed.source,
+          label: `Proposed v${entry.version}`,
+        }
+      : null;
+
+  // Compare a new entry's text with the version before it, preferring the
+  // current registry's copy of that version
+  const compareWithPrevious = (entry: LicenseEntry) => {
+    const currentPrevious = currentState.status === "loaded"
+      ? currentState.manifest.entries.find(e => e.version === entry.version - 1)
+      : undefined;
+    const proposedPrevious = proposed?.registry.manifest.entries.find(
+      e => e.version === entry.version - 1
+    );
+    const from = currentPrevious
+      ? currentTextSource(currentPrevious)
+      : proposedPrevious
+        ? proposedTextSource(proposedPrevious)
+        : null;
+    const to = proposedTextSource(entry);
+    if (from && to) {
+      setComparison({ from, to });
+    }
+  };
+
+  // Compare a modified entry's current text with its proposed replacement
+  const compareModified = (oldEntry: LicenseEntry, newEntry: LicenseEntry) => {
+    const from = currentTextSource(oldEntry);
+    const to = proposedTextSource(newEntry);
+    if (from && to) {
+      setComparison({ from, to });
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -316,7 +340,16 @@ export function Verifier() {
           </div>
         )}
         {currentState.status === "error" && (
-          <p className="text-red-500 text-sm">{currentState.error}</p>
+          <p className="text-red-500 text-sm">
+            {currentState.issues ? "Current registry.json is invalid" : currentState.error}
+          </p>
+        )}
+        {currentState.status === "error" && currentState.issues && (
+          <ul className="mt-1 space-y-0.5 text-xs font-mono text-red-500">
+            {currentState.issues.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>{formatSchemaIssue(issue)}</li>
+            ))}
+          </ul>
         )}
         {currentState.status === "not_found" && (
           <p className="text-text-muted text-sm">No registry found at {currentState.ensName}</p>
@@ -329,12 +362,16 @@ export function Verifier() {
             </p>
             {currentContentRef && (
               <p className="text-xs font-mono text-text-muted break-all">
-                {currentContentRef.protocol === "ens" 
-                  ? `ENS: ${currentContentRef.hash}` 
-                  : `CID: ${currentContentRef.hash}`
-                }
+                {formatContentUri(currentContentRef)}
               </p>
             )}
+            <p className="text-xs text-text-muted">
+              {currentState.provenance.mode === "ens"
+                ? `Resolved on-chain from ${currentState.provenance.ensName}`
+                : "Not resolved from ENS"}
+              {" • "}
+              {currentState.provenance.contentVerified ? "content verified" : "content not verified"}
+            </p>
           </div>
         )}
       </div>
@@ -345,7 +382,8 @@ export function Verifier() {
           Proposed CID
         </label>
         <p className="text-sm text-text-muted">
-          Enter the IPFS CID from the governance proposal to verify.
+          Enter the IPFS CID (or Swarm reference / Arweave manifest ID) from the governance proposal to verify, or load
+          the package it was built from. IPFS content is hash-verified against the CID either way.
         </p>
         <input
           type="text"
@@ -355,6 +393,69 @@ export function Verifier() {
           className="w-full px-3 py-2 bg-bg-surface border border-border rounded-lg text-text-primary placeholder:text-text-muted font-mono text-sm focus:outline-none focus:ring-2 focus:ring-accent"
           disabled={comparing}
         />
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`p-4 border-2 border-dashed rounded-lg space-y-3 transition-colors ${
+            dragging ? "border-accent bg-accent/5" : "border-border"
+          }`}
+        >
+          <p className="text-sm text-text-secondary">
+            Drop a registry ZIP, CAR or folder here to check it before it is published.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={packageInputRef}
+              type="file"
+              accept=".car,.zip,application/vnd.ipld.car,application/zip"
+              onChange={handlePackageUpload}
+              className="hidden"
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              onChange={handleFolderUpload}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => packageInputRef.current?.click()}
+              disabled={comparing || loadingPackage}
+            >
+              Load ZIP or CAR
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => folderInputRef.current?.click()}
+              disabled={comparing || loadingPackage}
+            >
+              Load Folder
+            </Button>
+            {loadingPackage && (
+              <span className="text-sm text-text-muted">Reading package...</span>
+            )}
+          </div>
+          {localPackage && (
+            <div className="text-sm text-text-secondary space-y-0.5">
+              <p>
+                {localPackage.name} •{" "}
+                {localPackage.source instanceof VerifiedDirectory
+                  ? `CAR, ${localPackage.source.blockCount} blocks verified`
+                  : `${localPackage.source.fileCount} files read locally`}
+              </p>
+              <p className="text-xs font-mono text-text-muted break-all">
+                {localPackage.source instanceof VerifiedDirectory ? "CID: " : "CID when packed as a CAR: "}
+                {localPackage.source.cid}
+              </p>
+            </div>
+          )}
+        </div>
         {error && (
           <p className="text-sm text-red-500">{error}</p>
         )}
@@ -409,20 +510,33 @@ export function Verifier() {
                 New Entries ({result.newEntries.length})
               </h4>
               <div className="space-y-2">
-                {result.newEntries.map((entry) => (
-                  <div
-                    key={entry.version}
-                    className="flex items-center justify-between p-2 bg-bg-elevated rounded"
-                  >
-                    <div>
-                      <span className="font-medium text-text-primary">v{entry.version}</span>
-                      <span className="text-text-muted ml-2">{entry.license.spdx}</span>
+                {result.newEntries.map((entry) => {
+                  const change = result.licenseChanges.find(c => c.toVersion === entry.version);
+                  return (
+                    <div key={entry.version} className="p-2 bg-bg-elevated rounded space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-medium text-text-primary">v{entry.version}</span>
+                          <span className="text-text-muted ml-2">{entry.license.spdx}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm text-text-muted">
+                            Effective: {entry.effective_date}
+                          </span>
+                          {entry.version > 1 && proposed && (
+                            <button
+                              onClick={() => compareWithPrevious(entry)}
+                              className="text-sm text-accent hover:text-accent-hover transition-colors"
+                            >
+                              Compare with v{entry.version - 1}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {change && <LicenseChangeSummary change={change} />}
                     </div>
-                    <span className="text-sm text-text-muted">
-                      Effective: {entry.effective_date}
-                    </span>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
@@ -466,13 +580,21 @@ export function Verifier() {
                 These entries were modified. Historical entries should never be changed.
               </p>
               <div className="space-y-3">
-                {result.modifiedEntries.map(({ old, differences }) => (
+                {result.modifiedEntries.map(({ old, new: modified, differences }) => (
                   <div
                     key={old.version}
                     className="p-2 bg-bg-surface rounded border border-red-500/20"
                   >
-                    <div className="font-medium text-text-primary mb-1">
-                      v{old.version}
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="font-medium text-text-primary">v{old.version}</span>
+                      {old.license.text_sha256 !== modified.license.text_sha256 && proposed && (
+                        <button
+                          onClick={() => compareModified(old, modified)}
+                          className="text-sm text-accent hover:text-accent-hover transition-colors"
+                        >
+                          Show text diff
+                        </button>
+                      )}
                     </div>
                     <ul className="text-sm text-text-muted space-y-0.5">
                       {differences.map((diff, i) => (
@@ -494,7 +616,9 @@ export function Verifier() {
                   key={check.id}
                   className="flex items-start gap-2 p-2 bg-bg-elevated rounded"
                 >
-                  {check.passed ? (
+                  {check.passed && check.warning ? (
+                    <span className="text-yellow-600 mt-0.5">⚠</span>
+                  ) : check.passed ? (
                     <span className="text-green-500 mt-0.5">✓</span>
                   ) : (
                     <span className="text-red-500 mt-0.5">✗</span>
@@ -502,7 +626,10 @@ export function Verifier() {
                   <div className="flex-1 min-w-0">
                     <span className="text-text-primary">{check.description}</span>
                     {check.details && (
-                      <p className="text-text-muted text-xs mt-0.5">{check.details}</p>
+                      <p className="text-text-muted text-xs mt-0.5 whitespace-pre-line">{check.details}</p>
+                    )}
+                    {check.warning && (
+                      <p className="text-yellow-600 text-xs mt-0.5">{check.warning}</p>
                     )}
                     {check.error && (
                       <p className="text-red-500 text-xs mt-0.5">{check.error}</p>
@@ -542,16 +669,22 @@ export function Verifier() {
           <h4 className="font-medium text-text-primary mb-2">How to use</h4>
           <ol className="list-decimal list-inside space-y-1">
             <li>Find the proposed CID in the governance proposal</li>
-            <li>Paste it in the field above</li>
+            <li>Paste it in the field above (or load the proposal's CAR file)</li>
             <li>Click "Compare Registries" to verify</li>
             <li>Review the results before casting your vote</li>
           </ol>
           <p className="mt-3">
             This tool checks that all existing entries are preserved and new entries are correctly added.
-            It will flag any removed or modified entries as an error.
+            It will flag any removed or modified entries as an error. Gateway responses are fetched as
+            trustless CARs and every block is checked against the CID, so a gateway cannot substitute content.
           </p>
         </div>
       )}
+
+      {/* Full History Audit */}
+      <HistoryAudit />
+
+      <LicenseDiffDialog comparison={comparison} onClose={() => setComparison(null)} />
     </div>
   );
 }
@@ -0,0 +1,56 @@
+/**
+ * Test Runner
+ *
+ * Runs the app's unit tests (files ending in .test.ts under app/) with
+ * node:test. Test files are loaded through Vite's SSR module loader, so
+ * TypeScript and the "~/" path alias work as in the app.
+ *
+ * Usage: node scripts/test.mjs [file filter]
+ */
+
+import { readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { createServer } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+const root = join(import.meta.dirname, "..");
+const filter = process.argv[2] ?? "";
+
+/**
+ * Find test files below a directory.
+ */
+function findTestFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findTestFiles(path);
+    return entry.name.endsWith(".test.ts") ? [path] : [];
+  });
+}
+
+const files = findTestFiles(join(root, "app"))
+  .map(file => relative(root, file))
+  .filter(file => file.includes(filter))
+  .sort();
+
+if (files.length === 0) {
+  console.error(`No test files found${filter ? ` matching "${filter}"` : ""}`);
+  process.exit(1);
+}
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: "error",
+  plugins: [tsconfigPaths()],
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false, ws: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+// Nothing keeps the event loop alive but pending tests, so the server is
+// closed once they have all run
+process.once("beforeExit", () => server.close());
+
+for (const file of files) {
+  await server.ssrLoadModule(`/${file}`);
+}